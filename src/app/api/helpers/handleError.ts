@@ -1,6 +1,20 @@
 import { JsonWebTokenError, TokenExpiredError } from "jsonwebtoken";
 import { NextResponse } from "next/server";
 import { z } from "zod";
+import {
+  AmbiguousLocationError,
+  UnknownLocationError,
+} from "@/lib/gazetteer";
+import { MpgsApiError } from "@/lib/mpgsApiService";
+import { PaymentOperationError } from "@/lib/paymentOrderService";
+import {
+  describeProntoError,
+  ProntoApiError,
+  ProntoProtocolError,
+} from "@/lib/prontoApiService";
+import { ShipmentOperationError } from "@/lib/prontoOrderService";
+import { InvalidStatusTransitionError } from "@/lib/repositories/paymentSessions";
+import { ShippingQuoteError } from "@/lib/shippingQuotes";
 
 export default function handleError(error: unknown, defaultMessage: string) {
   console.error(defaultMessage, error);
@@ -38,6 +52,138 @@ export default function handleError(error: unknown, defaultMessage: string) {
     );
   }
 
+  if (error instanceof InvalidStatusTransitionError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INVALID_STATUS_TRANSITION",
+          message: error.message,
+          from: error.from,
+          to: error.to,
+        },
+      },
+      { status: 409 },
+    );
+  }
+
+  if (error instanceof PaymentOperationError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      },
+      { status: 409 },
+    );
+  }
+
+  if (error instanceof ShipmentOperationError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      },
+      { status: error.code === "SHIPMENT_REASON_REQUIRED" ? 400 : 409 },
+    );
+  }
+
+  if (error instanceof ShippingQuoteError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          quoteId: error.quoteId,
+        },
+      },
+      { status: error.code === "QUOTE_NOT_FOUND" ? 404 : 409 },
+    );
+  }
+
+  if (error instanceof UnknownLocationError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "UNKNOWN_LOCATION",
+          message: error.message,
+          location: error.location,
+        },
+      },
+      { status: 422 },
+    );
+  }
+
+  if (error instanceof AmbiguousLocationError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "AMBIGUOUS_LOCATION",
+          message: error.message,
+          location: error.location,
+          candidates: error.candidates.map((match) => ({
+            name: match.place.name,
+            kind: match.place.kind,
+            district: match.place.district,
+            areaCode: match.areaCode,
+            zone: match.zone,
+            confidence: match.confidence,
+          })),
+        },
+      },
+      { status: 422 },
+    );
+  }
+
+  if (error instanceof MpgsApiError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code:
+            error.kind === "TIMEOUT"
+              ? "PAYMENT_GATEWAY_TIMEOUT"
+              : "PAYMENT_GATEWAY_ERROR",
+          message: error.message,
+          operation: error.operation,
+          ...(error.gatewayError && { gatewayError: error.gatewayError }),
+        },
+      },
+      { status: error.kind === "TIMEOUT" ? 504 : 502 },
+    );
+  }
+
+  if (error instanceof ProntoApiError) {
+    const { code, status, retryable } = describeProntoError(error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code,
+          message: error.message,
+          retryable,
+          method: error.method,
+          ...(error.statusRef && { statusRef: error.statusRef }),
+          // The carrier's body can echo customer details; it stays in the
+          // logs and session metadata outside development.
+          ...(error instanceof ProntoProtocolError &&
+            process.env.NODE_ENV === "development" && {
+              rawBody: error.rawBody,
+            }),
+        },
+      },
+      { status },
+    );
+  }
+
   return NextResponse.json(
     {
       success: false,
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import handleError from "../../../helpers/handleError";
+import { listWebhookEvents } from "@/lib/repositories/webhookEvents";
+
+const ListWebhookEventsSchema = z.object({
+  sessionId: z.string().min(1).optional(),
+  outcome: z
+    .enum(["PROCESSING", "PROCESSED", "DUPLICATE", "REJECTED", "FAILED"])
+    .optional(),
+});
+
+/**
+ * @route GET /api/ipg/webhook/events
+ * @desc Lists stored webhook deliveries (headers, raw body, outcome).
+ *       Optional filters: sessionId, outcome, limit (max 200).
+ * @access Private
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filter = ListWebhookEventsSchema.parse({
+      sessionId: searchParams.get("sessionId") ?? undefined,
+      outcome: searchParams.get("outcome") ?? undefined,
+    });
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam
+      ? Math.max(1, Math.min(parseInt(limitParam, 10) || 50, 200))
+      : 50;
+
+    const events = await listWebhookEvents({ ...filter, limit });
+
+    return NextResponse.json({
+      success: true,
+      data: events,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to list webhook events");
+  }
+}
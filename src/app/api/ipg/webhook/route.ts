@@ -1,11 +1,19 @@
-import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { after, NextRequest, NextResponse } from "next/server";
 import { apiStatus } from "../../helpers/apiStatus";
 import handleError from "../../helpers/handleError";
 import {
   getPaymentSession,
   updatePaymentSession,
 } from "@/lib/repositories/paymentSessions";
-import { createShipmentForSession } from "@/lib/prontoOrderService";
+import { syncOrderTransactions } from "@/lib/paymentOrderService";
+import { createMpgsApiService } from "@/lib/mpgsApiService";
+import { verifyGatewayOrder } from "@/lib/paymentVerification";
+import { enqueueShipmentJob, runShipmentJob } from "@/lib/shipmentJobs";
+import {
+  completeWebhookEvent,
+  recordWebhookEvent,
+} from "@/lib/repositories/webhookEvents";
 
 type WebhookPayload = Record<string, unknown>;
 
@@ -44,6 +52,92 @@ function extractSessionId(payload: WebhookPayload): string | null {
   return null;
 }
 
+function extractOrderId(payload: WebhookPayload): string | null {
+  const direct = getString(payload.orderId);
+  if (direct) {
+    return direct;
+  }
+
+  const order = payload.order;
+  if (order && typeof order === "object") {
+    return getString((order as { id?: unknown }).id);
+  }
+
+  return null;
+}
+
+function extractTransactionId(payload: WebhookPayload): string | null {
+  const transaction = payload.transaction;
+  if (transaction && typeof transaction === "object") {
+    return getString((transaction as { id?: unknown }).id);
+  }
+  return getString(payload.transactionId);
+}
+
+function extractTransactionType(payload: WebhookPayload): string | null {
+  const transaction = payload.transaction;
+  if (transaction && typeof transaction === "object") {
+    const type = getString((transaction as { type?: unknown }).type);
+    return type ? type.toUpperCase() : null;
+  }
+  return null;
+}
+
+// MPGS notifies every transaction on an order, but only a payment or an
+// authorization says whether the customer paid. Notifications without a
+// transaction type are treated as payment claims.
+const PAYMENT_TRANSACTION_TYPES = new Set(["PAYMENT", "AUTHORIZATION"]);
+
+const REDACTED_HEADERS = new Set([
+  "x-notification-secret",
+  "authorization",
+  "cookie",
+]);
+
+function captureHeaders(request: NextRequest): Record<string, string> {
+  const headers: Record<string, string> = {};
+  request.headers.forEach((value, key) => {
+    headers[key] = REDACTED_HEADERS.has(key.toLowerCase())
+      ? "[REDACTED]"
+      : value;
+  });
+  return headers;
+}
+
+function parsePayload(rawBody: string): WebhookPayload {
+  try {
+    const parsed = rawBody ? JSON.parse(rawBody) : {};
+    return parsed && typeof parsed === "object"
+      ? (parsed as WebhookPayload)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * MPGS retries a notification with the same X-Notification-Id; without one we
+ * fall back to the gateway order + transaction pair, and failing that to the
+ * body itself, since a retried delivery repeats it byte for byte.
+ */
+function buildDedupeKey(
+  notificationId: string | null,
+  orderId: string | null,
+  transactionId: string | null,
+  rawBody: string
+): string | null {
+  if (notificationId) {
+    return `notification:${notificationId}`;
+  }
+  if (orderId && transactionId) {
+    return `transaction:${orderId}:${transactionId}`;
+  }
+  if (rawBody) {
+    return `body:${crypto.createHash("sha256").update(rawBody).digest("hex")}`;
+  }
+  return null;
+}
+
 function isPaymentSuccessful(payload: WebhookPayload): boolean {
   const candidates: Array<unknown> = [
     payload.result,
@@ -67,9 +161,34 @@ function isPaymentSuccessful(payload: WebhookPayload): boolean {
 async function processWebhook(request: NextRequest) {
   console.log("🔔 IPG Webhook: Received payment webhook request");
   try {
+    const rawBody = await request.text().catch(() => "");
+    const payload = parsePayload(rawBody);
+    const notificationId = request.headers.get("x-notification-id");
+    const orderId = extractOrderId(payload);
+    const transactionId = extractTransactionId(payload);
+    const eventInput = {
+      dedupeKey: buildDedupeKey(
+        notificationId,
+        orderId,
+        transactionId,
+        rawBody
+      ),
+      notificationId,
+      transactionId,
+      sessionId: extractSessionId(payload),
+      orderId,
+      headers: captureHeaders(request),
+      rawBody,
+    };
+
     const secret = request.headers.get("x-notification-secret");
     if (!secret || secret !== process.env.IPG_WEBHOOK_SECRET) {
       console.log("❌ IPG Webhook: Invalid webhook secret");
+      await recordWebhookEvent({
+        ...eventInput,
+        outcome: "REJECTED",
+        outcomeDetail: "UNAUTHORIZED",
+      });
       return NextResponse.json(
         {
           success: false,
@@ -84,9 +203,55 @@ async function processWebhook(request: NextRequest) {
 
     console.log("✅ IPG Webhook: Secret validated successfully");
 
-    const payload: WebhookPayload = await request
+    const event = await recordWebhookEvent(eventInput);
+    if (event.outcome === "DUPLICATE") {
+      console.log("🔁 IPG Webhook: Duplicate delivery ignored", {
+        eventId: event.eventId,
+        duplicateOf: event.duplicateOf,
+      });
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            eventId: event.eventId,
+            duplicate: true,
+            duplicateOf: event.duplicateOf,
+            sessionId: event.sessionId,
+          },
+        },
+        { status: apiStatus.OK }
+      );
+    }
+
+    const response = await handlePaymentNotification(payload, event.eventId);
+
+    const responseBody = await response
+      .clone()
       .json()
-      .catch(() => ({} as WebhookPayload));
+      .catch(() => null);
+    const detail =
+      responseBody?.data?.paymentStatus ?? responseBody?.error?.code ?? null;
+    await completeWebhookEvent(
+      event.eventId,
+      response.ok
+        ? "PROCESSED"
+        : response.status < 500
+        ? "REJECTED"
+        : "FAILED",
+      detail
+    );
+
+    return response;
+  } catch (error) {
+    return handleError(error, "Failed to process payment webhook");
+  }
+}
+
+async function handlePaymentNotification(
+  payload: WebhookPayload,
+  eventId: string
+) {
+  try {
     const sessionId = extractSessionId(payload);
 
     if (!sessionId) {
@@ -116,15 +281,106 @@ async function processWebhook(request: NextRequest) {
       );
     }
 
-    const success = isPaymentSuccessful(payload);
+    // The webhook body is only a hint: the MPGS order is the source of truth.
+    const order = await createMpgsApiService().retrieveOrder(session.orderId);
+    await syncOrderTransactions(session, order);
+
+    // Captures, refunds and voids are already reflected by our own
+    // operations; they are recorded but never change the session status.
+    const transactionType = extractTransactionType(payload);
+    if (transactionType && !PAYMENT_TRANSACTION_TYPES.has(transactionType)) {
+      await updatePaymentSession(sessionId, {
+        metadata: {
+          ...(session.metadata || {}),
+          lastWebhookAt: new Date().toISOString(),
+          lastWebhookEventId: eventId,
+          lastWebhookPayload: payload,
+        },
+      });
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            sessionId,
+            orderId: session.orderId,
+            paymentStatus: session.status,
+            transactionType,
+          },
+        },
+        { status: apiStatus.OK }
+      );
+    }
+
+    const claimedSuccess = isPaymentSuccessful(payload);
+    const verification = verifyGatewayOrder(session, order);
+
+    const payloadOrderId = extractOrderId(payload);
+    if (payloadOrderId && payloadOrderId !== session.orderId) {
+      verification.mismatches.push(
+        `Webhook order ID ${payloadOrderId} does not belong to session ${sessionId}`
+      );
+    }
+    if (claimedSuccess && verification.verdict !== "PAID") {
+      verification.mismatches.push(
+        `Webhook reported success but gateway order status is ${verification.gatewayStatus}`
+      );
+    }
+    if (!claimedSuccess && verification.verdict === "PAID") {
+      verification.mismatches.push(
+        `Webhook reported failure but gateway order status is ${verification.gatewayStatus}`
+      );
+    }
+
     const metadata = {
       ...(session.metadata || {}),
       lastWebhookAt: new Date().toISOString(),
+      lastWebhookEventId: eventId,
       lastWebhookPayload: payload,
+      gatewayVerification: verification,
     };
 
+    if (verification.mismatches.length > 0) {
+      console.warn("⚠️ IPG Webhook: Payment flagged for review", {
+        sessionId,
+        mismatches: verification.mismatches,
+      });
+      await updatePaymentSession(sessionId, { status: "REVIEW", metadata });
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            sessionId,
+            orderId: session.orderId,
+            paymentStatus: "REVIEW",
+            mismatches: verification.mismatches,
+          },
+        },
+        { status: apiStatus.OK }
+      );
+    }
+
+    if (verification.verdict === "IN_PROGRESS") {
+      await updatePaymentSession(sessionId, { metadata });
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            sessionId,
+            orderId: session.orderId,
+            paymentStatus: session.status,
+            gatewayStatus: verification.gatewayStatus,
+          },
+        },
+        { status: apiStatus.OK }
+      );
+    }
+
+    const success = verification.verdict === "PAID";
+    // AUTHORIZE-mode payments stay PROCESSING until the shipment is captured.
+    const paidStatus =
+      session.paymentMode === "AUTHORIZE" ? "PROCESSING" : "COMPLETED";
     await updatePaymentSession(sessionId, {
-      status: success ? "COMPLETED" : "FAILED",
+      status: success ? paidStatus : "FAILED",
       metadata,
     });
 
@@ -142,23 +398,16 @@ async function processWebhook(request: NextRequest) {
       );
     }
 
-    let shipment;
-    try {
-      shipment = await createShipmentForSession(sessionId);
-    } catch (shipmentError) {
-      console.error("❌ IPG Webhook: Shipment creation failed", shipmentError);
-      await updatePaymentSession(sessionId, {
-        prontoStatus: "FAILED",
-        metadata: {
-          ...metadata,
-          lastShipmentError:
-            shipmentError instanceof Error
-              ? shipmentError.message
-              : String(shipmentError),
-        },
-      });
-      throw shipmentError;
-    }
+    // The payment is recorded; shipping happens in the job queue so that a
+    // Pronto outage is retried instead of failing the webhook.
+    const shipmentJob = await enqueueShipmentJob(sessionId);
+    after(async () => {
+      try {
+        await runShipmentJob(shipmentJob.jobId);
+      } catch (error) {
+        console.error("❌ IPG Webhook: Shipment job attempt failed", error);
+      }
+    });
 
     return NextResponse.json(
       {
@@ -166,8 +415,11 @@ async function processWebhook(request: NextRequest) {
         data: {
           sessionId,
           orderId: session.orderId,
-          paymentStatus: "COMPLETED",
-          shipment,
+          paymentStatus: paidStatus,
+          shipmentJob: {
+            jobId: shipmentJob.jobId,
+            status: shipmentJob.status,
+          },
         },
       },
       { status: apiStatus.OK }
@@ -0,0 +1,376 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { apiStatus } from "../../helpers/apiStatus";
+import {
+  createSession,
+  DEFAULT_MOCK_CARD,
+  getSession,
+  isMockMpgsEnabled,
+  MOCK_MPGS_AMOUNTS,
+  MOCK_MPGS_CARDS,
+  MockMpgsError,
+  payWithCard,
+  retrieveOrder,
+  retrieveTransaction,
+  submitTransaction,
+  type MockPaymentResult,
+} from "@/lib/mockMpgsGateway";
+
+type Params = { path: string[] } | Promise<{ path: string[] }>;
+
+interface RouteContext {
+  params: Params;
+}
+
+function gatewayError(error: MockMpgsError) {
+  return NextResponse.json(error.toResponseBody(), {
+    status: error.httpStatus,
+  });
+}
+
+function mockBaseUrl(request: NextRequest) {
+  return `${request.nextUrl.origin}/api/mock-mpgs`;
+}
+
+/**
+ * Same credential check as MPGS: Basic auth as `merchant.<id>:<password>`
+ * where <id> matches the merchant in the URL.
+ */
+function isAuthorized(request: NextRequest, merchantId: string) {
+  const header = request.headers.get("authorization") ?? "";
+  if (!header.startsWith("Basic ")) {
+    return false;
+  }
+  const [user, password] = Buffer.from(header.slice(6), "base64")
+    .toString("utf8")
+    .split(":");
+  if (user !== `merchant.${merchantId}`) {
+    return false;
+  }
+  const expected = process.env.MPGS_API_PASSWORD;
+  return !expected || password === expected;
+}
+
+/**
+ * Deliver the payment notification the way MPGS does: the transaction
+ * response plus the checkout session, signed with the notification secret.
+ */
+async function deliverNotification(result: MockPaymentResult) {
+  if (result.scenario.skipWebhook) {
+    console.log("🧪 Mock MPGS: webhook skipped by scenario");
+    return;
+  }
+
+  const url =
+    process.env.MPGS_MOCK_WEBHOOK_URL ||
+    `${process.env.BASE_URL}/api/ipg/webhook`;
+  const notificationId = crypto.randomUUID();
+  const body = JSON.stringify({
+    ...result.transaction,
+    order: result.order,
+    session: { id: result.session.id },
+  });
+  const deliveries = result.scenario.duplicateWebhook ? 2 : 1;
+
+  for (let attempt = 1; attempt <= deliveries; attempt += 1) {
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Notification-Id": notificationId,
+          "X-Notification-Secret": process.env.IPG_WEBHOOK_SECRET ?? "",
+        },
+        body,
+      });
+      console.log(`🧪 Mock MPGS: webhook delivery ${attempt}`, {
+        url,
+        status: response.status,
+      });
+    } catch (error) {
+      console.error("🧪 Mock MPGS: webhook delivery failed", error);
+    }
+  }
+}
+
+function escapeHtml(value: unknown) {
+  return String(value ?? "").replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[
+        char
+      ] as string
+  );
+}
+
+function checkoutScript(baseUrl: string) {
+  return `/* Mock MPGS checkout.js - local testing only */
+(function () {
+  var script = document.currentScript;
+  var config = null;
+
+  function callback(name, value) {
+    var fnName = script && script.getAttribute("data-" + name);
+    if (fnName && typeof window[fnName] === "function") {
+      window[fnName](value);
+    }
+  }
+
+  function showPaymentPage() {
+    if (!config || !config.session || !config.session.id) {
+      callback("error", { cause: "INVALID_REQUEST", explanation: "Checkout.configure() was not called with a session" });
+      return;
+    }
+    window.location.href = ${JSON.stringify(
+      `${baseUrl}/checkout/pay/`
+    )} + encodeURIComponent(config.session.id);
+  }
+
+  window.Checkout = {
+    version: "mock",
+    configure: function (value) {
+      config = value;
+    },
+    showPaymentPage: showPaymentPage,
+    showLightbox: showPaymentPage,
+  };
+})();
+`;
+}
+
+function paymentPage(sessionId: string, error?: string) {
+  const session = getSession(sessionId);
+  const scenarios = [
+    ...Object.entries(MOCK_MPGS_CARDS).map(
+      ([card, scenario]) => `<li><code>${card}</code> – ${scenario.description}</li>`
+    ),
+    ...Object.entries(MOCK_MPGS_AMOUNTS).map(
+      ([cents, scenario]) =>
+        `<li>Amount ending in <code>.${cents}</code> – ${scenario.description}</li>`
+    ),
+  ].join("");
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Mock MPGS Checkout</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f3f4f6; margin: 0; padding: 40px 16px; }
+    main { max-width: 480px; margin: 0 auto; background: #fff; border-radius: 16px; padding: 24px; box-shadow: 0 1px 3px rgba(0,0,0,.1); }
+    input { width: 100%; box-sizing: border-box; padding: 10px; margin: 4px 0 12px; border: 1px solid #d1d5db; border-radius: 8px; font-family: monospace; }
+    button { padding: 10px 16px; border-radius: 8px; border: 0; background: #2563eb; color: #fff; font-weight: 600; cursor: pointer; }
+    .secondary { background: #e5e7eb; color: #111827; margin-left: 8px; }
+    .error { background: #fef2f2; color: #b91c1c; padding: 10px; border-radius: 8px; }
+    ul { font-size: 13px; color: #4b5563; padding-left: 18px; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>Mock MPGS Checkout</h1>
+    <p>Order <strong>${escapeHtml(session.order.id)}</strong> – ${escapeHtml(
+    session.order.amount
+  )} ${escapeHtml(session.order.currency)} (${escapeHtml(
+    session.interaction.operation
+  )})</p>
+    <p>${escapeHtml(session.order.description)}</p>
+    ${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+    <form method="post">
+      <label>Card number<input name="cardNumber" value="${DEFAULT_MOCK_CARD}" autocomplete="off" /></label>
+      <label>Expiry<input name="expiry" value="12/30" /></label>
+      <label>CVV<input name="cvv" value="123" /></label>
+      <button type="submit">Pay</button>
+      <button type="button" class="secondary" onclick="history.back()">Cancel</button>
+    </form>
+    <h2>Test scenarios</h2>
+    <ul>${scenarios}</ul>
+  </main>
+</body>
+</html>`;
+}
+
+function htmlResponse(html: string, status: number = apiStatus.OK) {
+  return new NextResponse(html, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+async function handlePayment(request: NextRequest, sessionId: string) {
+  const isJson = request.headers
+    .get("content-type")
+    ?.includes("application/json");
+  let cardNumber = DEFAULT_MOCK_CARD;
+  if (isJson) {
+    const body = await request.json().catch(() => ({}));
+    cardNumber = String(body.cardNumber ?? DEFAULT_MOCK_CARD);
+  } else {
+    const form = await request.formData();
+    cardNumber = String(form.get("cardNumber") ?? DEFAULT_MOCK_CARD);
+  }
+
+  let result: MockPaymentResult;
+  try {
+    result = payWithCard(sessionId, cardNumber);
+  } catch (error) {
+    if (error instanceof MockMpgsError && !isJson) {
+      return htmlResponse(paymentPage(sessionId, error.message), 400);
+    }
+    throw error;
+  }
+
+  // Like MPGS, the notification is sent before the browser is redirected.
+  await deliverNotification(result);
+
+  const returnUrl = result.session.interaction.returnUrl;
+  const redirectUrl = returnUrl ? new URL(returnUrl) : null;
+  redirectUrl?.searchParams.set("resultIndicator", result.resultIndicator);
+  redirectUrl?.searchParams.set("sessionVersion", result.session.version);
+
+  if (isJson || !redirectUrl) {
+    return NextResponse.json({
+      result: result.transaction.result,
+      gatewayCode: result.scenario.gatewayCode,
+      scenario: result.scenario.description,
+      order: result.order,
+      resultIndicator: result.resultIndicator,
+      redirectUrl: redirectUrl?.toString() ?? null,
+    });
+  }
+
+  return NextResponse.redirect(redirectUrl, 303);
+}
+
+/**
+ * Dispatch on the MPGS URL layout:
+ *   /checkout/version/{v}/checkout.js
+ *   /checkout/pay/{sessionId}
+ *   /api/rest/version/{v}/merchant/{merchantId}/session[/{id}]
+ *   /api/rest/version/{v}/merchant/{merchantId}/order/{id}[/transaction/{id}]
+ */
+async function handle(request: NextRequest, context: RouteContext) {
+  if (!isMockMpgsEnabled()) {
+    return NextResponse.json(
+      { result: "ERROR", error: { explanation: "Mock MPGS is disabled" } },
+      { status: apiStatus.NOT_FOUND }
+    );
+  }
+
+  const { path } = await Promise.resolve(context.params);
+  const method = request.method;
+
+  try {
+    if (path[0] === "checkout") {
+      if (path[1] === "version" && path[3] === "checkout.js") {
+        return new NextResponse(checkoutScript(mockBaseUrl(request)), {
+          headers: { "Content-Type": "application/javascript" },
+        });
+      }
+      if (path[1] === "pay" && path[2]) {
+        return method === "POST"
+          ? await handlePayment(request, path[2])
+          : htmlResponse(paymentPage(path[2]));
+      }
+    }
+
+    if (path[0] === "scenarios") {
+      return NextResponse.json({
+        cards: MOCK_MPGS_CARDS,
+        amounts: MOCK_MPGS_AMOUNTS,
+      });
+    }
+
+    if (path[0] === "api" && path[1] === "rest" && path[4] === "merchant") {
+      const merchantId = path[5];
+      const [resource, id, sub, subId] = path.slice(6);
+
+      if (!isAuthorized(request, merchantId)) {
+        return NextResponse.json(
+          {
+            result: "ERROR",
+            error: {
+              cause: "INVALID_REQUEST",
+              explanation: "Invalid credentials.",
+            },
+          },
+          { status: apiStatus.UNAUTHORIZED }
+        );
+      }
+
+      if (resource === "session" && !id && method === "POST") {
+        const session = createSession(await request.json());
+        return NextResponse.json({
+          merchant: merchantId,
+          result: "SUCCESS",
+          session: {
+            id: session.id,
+            updateStatus: "SUCCESS",
+            version: session.version,
+          },
+          successIndicator: session.successIndicator,
+        });
+      }
+
+      if (resource === "session" && id && method === "GET") {
+        const session = getSession(id);
+        return NextResponse.json({
+          merchant: merchantId,
+          session: {
+            id: session.id,
+            updateStatus: "SUCCESS",
+            version: session.version,
+          },
+          order: session.order,
+          interaction: session.interaction,
+        });
+      }
+
+      if (resource === "order" && id && !sub && method === "GET") {
+        return NextResponse.json(retrieveOrder(id));
+      }
+
+      if (resource === "order" && id && sub === "transaction" && subId) {
+        if (method === "GET") {
+          return NextResponse.json(retrieveTransaction(id, subId));
+        }
+        if (method === "PUT") {
+          return NextResponse.json(
+            submitTransaction(id, subId, await request.json())
+          );
+        }
+      }
+    }
+
+    throw new MockMpgsError(
+      404,
+      `Mock MPGS does not implement ${method} /${path.join("/")}`
+    );
+  } catch (error) {
+    if (error instanceof MockMpgsError) {
+      return gatewayError(error);
+    }
+    console.error("🧪 Mock MPGS: unexpected error", error);
+    return NextResponse.json(
+      {
+        result: "ERROR",
+        error: {
+          cause: "SERVER_FAILED",
+          explanation: error instanceof Error ? error.message : String(error),
+        },
+      },
+      { status: apiStatus.INTERNAL_SERVER_ERROR }
+    );
+  }
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return handle(request, context);
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  return handle(request, context);
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  return handle(request, context);
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { apiStatus } from "../../helpers/apiStatus";
+import handleError from "../../helpers/handleError";
+import {
+  clearFailures,
+  injectFailure,
+  isMockProntoEnabled,
+  listFailures,
+  MOCK_PRONTO_FAILURE_MODES,
+  MOCK_PRONTO_METHODS,
+} from "@/lib/mockProntoApi";
+
+const InjectFailureSchema = z.object({
+  method: z.enum(MOCK_PRONTO_METHODS),
+  mode: z.enum(MOCK_PRONTO_FAILURE_MODES).default("ERROR"),
+  count: z.number().int().positive().max(100).default(1),
+  statusRef: z.string().optional(),
+  delayMs: z.number().int().nonnegative().max(120000).optional(),
+});
+
+function disabled() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: { code: "NOT_FOUND", message: "Mock Pronto is disabled" },
+    },
+    { status: apiStatus.NOT_FOUND }
+  );
+}
+
+/**
+ * @route GET /api/mock-pronto/failures
+ * @desc Lists queued mock Pronto failures
+ * @access Development only
+ */
+export async function GET() {
+  if (!isMockProntoEnabled()) {
+    return disabled();
+  }
+  return NextResponse.json({ success: true, data: listFailures() });
+}
+
+/**
+ * @route POST /api/mock-pronto/failures
+ * @desc Queues a failure for the next `count` calls of a Pronto method
+ * @access Development only
+ */
+export async function POST(request: NextRequest) {
+  if (!isMockProntoEnabled()) {
+    return disabled();
+  }
+  try {
+    const failure = InjectFailureSchema.parse(await request.json());
+    const entry = injectFailure(failure);
+    return NextResponse.json(
+      { success: true, data: entry },
+      { status: apiStatus.CREATED }
+    );
+  } catch (error) {
+    return handleError(error, "Failed to inject mock Pronto failure");
+  }
+}
+
+/**
+ * @route DELETE /api/mock-pronto/failures
+ * @desc Clears every queued mock Pronto failure
+ * @access Development only
+ */
+export async function DELETE() {
+  if (!isMockProntoEnabled()) {
+    return disabled();
+  }
+  clearFailures();
+  return NextResponse.json({ success: true, data: [] });
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiStatus } from "../helpers/apiStatus";
+import {
+  handleProntoRequest,
+  isMockProntoEnabled,
+} from "@/lib/mockProntoApi";
+
+function isAuthorized(request: NextRequest) {
+  const header = request.headers.get("authorization") ?? "";
+  if (!header.startsWith("Basic ")) {
+    return false;
+  }
+  const expected = `${process.env.PRONTO_API_USERNAME || "apiuatuser"}:${
+    process.env.PRONTO_API_PASSWORD || "a7xJ#uj."
+  }`;
+  return Buffer.from(header.slice(6), "base64").toString("utf8") === expected;
+}
+
+/**
+ * @route POST /api/mock-pronto?method=<calc.method|pkg.amount|tno.request|tno.insert|tno.detail>
+ * @desc Local stand-in for Pronto's PR_API.aspx (set PRONTO_API_BASE_URL to
+ *       this route). Body: `{ "request": <method>, "data": { ... } }`
+ * @access Development only
+ */
+export async function POST(request: NextRequest) {
+  if (!isMockProntoEnabled()) {
+    return NextResponse.json(
+      { status: "0", status_ref: "Mock Pronto is disabled" },
+      { status: apiStatus.NOT_FOUND }
+    );
+  }
+
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { status: "0", status_ref: "Unauthorized" },
+      { status: apiStatus.UNAUTHORIZED }
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const method =
+    request.nextUrl.searchParams.get("method") ?? body?.request ?? "";
+  const data =
+    body?.data && typeof body.data === "object"
+      ? (body.data as Record<string, unknown>)
+      : {};
+
+  const result = handleProntoRequest(method, data);
+  console.log(`🧪 Mock Pronto: ${method}`, {
+    httpStatus: result.httpStatus,
+    body: result.body,
+  });
+
+  if (result.delayMs) {
+    await new Promise((resolve) => setTimeout(resolve, result.delayMs));
+  }
+
+  if (typeof result.body === "string") {
+    return new NextResponse(result.body, {
+      status: result.httpStatus,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  }
+
+  return NextResponse.json(result.body, { status: result.httpStatus });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { apiStatus } from "../../helpers/apiStatus";
+import { isMockProntoEnabled, listShipments } from "@/lib/mockProntoApi";
+
+/**
+ * @route GET /api/mock-pronto/shipments
+ * @desc Lists tracking numbers issued by the mock with their current
+ *       status history
+ * @access Development only
+ */
+export async function GET() {
+  if (!isMockProntoEnabled()) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: "NOT_FOUND", message: "Mock Pronto is disabled" },
+      },
+      { status: apiStatus.NOT_FOUND }
+    );
+  }
+  return NextResponse.json({ success: true, data: listShipments() });
+}
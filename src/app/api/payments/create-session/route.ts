@@ -6,9 +6,11 @@ import { apiStatus } from "../../helpers/apiStatus";
 import { CreatePaymentSessionSchema } from "@/schemas/payment.schema";
 import { createPaymentSession } from "@/lib/repositories/paymentSessions";
 import {
-  createProntoApiService,
-  getAreaCodeForLocation,
-} from "@/lib/prontoApiService";
+  issueShippingQuote,
+  redeemShippingQuote,
+} from "@/lib/shippingQuotes";
+import { createMpgsApiService } from "@/lib/mpgsApiService";
+import { resolvePaymentMode } from "@/lib/paymentOrderService";
 
 /**
  * @route POST /api/payments/create-session
@@ -18,28 +20,11 @@ import {
 export async function POST(request: NextRequest) {
   try {
     // --- 1. Environment Variable Checks ---
-    const {
-      MPGS_MERCHANT_ID,
-      MPGS_API_PASSWORD,
-      MPGS_API_BASE_URL,
-      BASE_URL,
-      MPGS_CURRENCY,
-    } = process.env;
-
-    const MPGS_API_VERSION = process.env.MPGS_API_VERSION || "70";
-
-    const requiredEnvVars = {
-      MPGS_MERCHANT_ID,
-      MPGS_API_PASSWORD,
-      MPGS_API_BASE_URL,
-      BASE_URL,
-    };
-
-    for (const [key, value] of Object.entries(requiredEnvVars)) {
-      if (!value) {
-        throw new Error(`Configuration error: Missing ${key}`);
-      }
+    const { BASE_URL, MPGS_CURRENCY } = process.env;
+    if (!BASE_URL) {
+      throw new Error("Configuration error: Missing BASE_URL");
     }
+    const mpgsApi = createMpgsApiService();
 
     // --- 2. Input Processing and Validation ---
     const body = await request.json();
@@ -68,6 +53,7 @@ export async function POST(request: NextRequest) {
       shipment,
     } = validatedData;
     const orderId = validatedData.orderId || crypto.randomUUID();
+    const paymentMode = resolvePaymentMode(validatedData.paymentMode);
     const currency = validatedData.currency || MPGS_CURRENCY;
 
     if (!currency) {
@@ -76,61 +62,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // --- 3. Calculate delivery charges via Pronto ---
-    const prontoCustomerCode =
-      shipment.customerCode ||
-      process.env.PRONTO_CUSTOMER_CODE ||
-      "A001";
-    const prontoAreaCode = getAreaCodeForLocation(shipment.location);
-    const prontoApi = createProntoApiService();
-
-    const shippingQuote = await prontoApi
-      .calculateShippingCost({
-        customerCode: prontoCustomerCode,
-        pkgWeight: shipment.weight,
-        prontoAc: prontoAreaCode,
-      })
-      .catch((shippingError) => {
-        console.error(
-          "Failed to retrieve Pronto delivery charges",
-          shippingError,
-        );
-        throw new Error(
-          "Unable to calculate delivery charges for this location. Please verify the destination and try again.",
-        );
-      });
-
-    const rawDeliveryCharge = shippingQuote?.live_amount?.amount;
-    const parsedDeliveryCharge = Number.parseFloat(
-      typeof rawDeliveryCharge === "string" ? rawDeliveryCharge : "",
-    );
-    if (!Number.isFinite(parsedDeliveryCharge)) {
-      throw new Error(
-        "Pronto did not return a valid delivery charge for this request.",
-      );
-    }
-
-    const deliveryCharge = Number(parsedDeliveryCharge.toFixed(2));
+    // --- 3. Delivery charge: the quote shown to the customer, or a new one ---
+    // Pronto failures are mapped by handleError, e.g. a location Pronto
+    // rejects becomes 422 SHIPPING_VALIDATION_FAILED. Without a quote the
+    // customer never confirmed a fuzzy location match, so one is refused
+    // (422 AMBIGUOUS_LOCATION) rather than charged.
+    const quoteRequest = {
+      customerCode: shipment.customerCode,
+      location: shipment.location,
+      weight: shipment.weight,
+    };
+    const shippingQuote = validatedData.quoteId
+      ? await redeemShippingQuote(validatedData.quoteId, quoteRequest)
+      : await issueShippingQuote(quoteRequest, {
+          requireConfidentMatch: true,
+        });
+    const prontoCustomerCode = shippingQuote.customerCode;
+    const prontoAreaCode = shippingQuote.areaCode;
+
+    const deliveryCharge = shippingQuote.amount;
     const totalAmount = Number((baseAmount + deliveryCharge).toFixed(2));
     const pricingBreakdown = {
       itemAmount: baseAmount,
       deliveryCharge,
+      deliveryChargeSource: shippingQuote.source,
       totalAmount,
       currency,
     };
 
-    // --- 4. Construct API URL ---
-    const apiUrl = `${MPGS_API_BASE_URL}/api/rest/version/${MPGS_API_VERSION}/merchant/${MPGS_MERCHANT_ID}/session`;
-
-    // --- 5. Prepare Authentication Header ---
-    const username = `merchant.${MPGS_MERCHANT_ID}`;
-    const authHeader = `Basic ${Buffer.from(`${username}:${MPGS_API_PASSWORD}`).toString("base64")}`;
-
-    // --- 6. Prepare Request Body ---
-    const requestBody = {
-      apiOperation: "CREATE_CHECKOUT_SESSION",
+    // --- 4. Create the MPGS checkout session ---
+    const responseData = await mpgsApi.createCheckoutSession({
       interaction: {
-        operation: "PURCHASE",
+        operation: paymentMode,
         merchant: {
           name: "Kifgo",
         },
@@ -143,41 +106,8 @@ export async function POST(request: NextRequest) {
         description: description.substring(0, 127),
         customerOrderDate: format(new Date(), "yyyy-MM-dd"),
       },
-    };
-
-    // --- 7. Make the API Call ---
-
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: authHeader,
-      },
-      body: JSON.stringify(requestBody),
     });
 
-    const responseData = await response.json();
-
-    if (!response.ok) {
-      console.error("Failed to create MPGS session:", responseData);
-      const errorMessage =
-        responseData.error?.explanation ||
-        responseData.error?.cause ||
-        "Gateway error during session creation.";
-      throw new Error(errorMessage);
-    }
-
-    if (responseData.result !== "SUCCESS" || !responseData.session?.id) {
-      console.error(
-        "MPGS session creation indicated failure despite HTTP OK:",
-        responseData,
-      );
-      throw new Error(
-        responseData.error?.explanation ||
-          "Gateway returned non-SUCCESS result for session creation.",
-      );
-    }
-
     await createPaymentSession({
       sessionId: responseData.session.id,
       orderId,
@@ -199,13 +129,10 @@ export async function POST(request: NextRequest) {
       prontoCustomerCode,
       prontoAreaCode,
       prontoCost: deliveryCharge,
+      paymentMode,
       metadata: {
         pricing: pricingBreakdown,
-        shippingQuote: {
-          areaCode: prontoAreaCode,
-          customerCode: prontoCustomerCode,
-          response: shippingQuote,
-        },
+        shippingQuote,
         gatewayResponse: responseData,
       },
     });
@@ -219,7 +146,9 @@ export async function POST(request: NextRequest) {
           sessionId: responseData.session.id,
           amount: totalAmount,
           currency,
+          paymentMode,
           deliveryCharge,
+          quoteId: shippingQuote.quoteId,
           pricing: pricingBreakdown,
           gatewayResponse: responseData,
           shipping: {
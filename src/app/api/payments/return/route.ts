@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { z } from "zod";
+import handleError from "../../helpers/handleError";
+import { apiStatus } from "../../helpers/apiStatus";
+import { getPaymentSessionByOrderId } from "@/lib/repositories/paymentSessions";
+import { createMpgsApiService, MpgsApiError } from "@/lib/mpgsApiService";
+import {
+  verifyGatewayOrder,
+  type GatewayVerification,
+} from "@/lib/paymentVerification";
+
+const PaymentReturnSchema = z.object({
+  orderId: z.string().min(1, "orderId is required"),
+  resultIndicator: z.string().optional(),
+});
+
+function indicatorsMatch(expected: unknown, received?: string): boolean {
+  if (typeof expected !== "string" || !expected || !received) {
+    return false;
+  }
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+}
+
+/**
+ * @route GET /api/payments/return?orderId=&resultIndicator=
+ * @desc Resolves the MPGS hosted checkout redirect: checks the result
+ *       indicator against the stored successIndicator and reports the real
+ *       payment + shipment state from MPGS and the local session.
+ * @access Public
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { orderId, resultIndicator } = PaymentReturnSchema.parse({
+      orderId: searchParams.get("orderId") ?? undefined,
+      resultIndicator: searchParams.get("resultIndicator") ?? undefined,
+    });
+
+    const session = await getPaymentSessionByOrderId(orderId);
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "ORDER_NOT_FOUND",
+            message: `No payment session for order ${orderId}`,
+          },
+        },
+        { status: apiStatus.NOT_FOUND }
+      );
+    }
+
+    const gatewayResponse = session.metadata?.gatewayResponse as
+      | { successIndicator?: unknown }
+      | undefined;
+    const indicatorMatches = indicatorsMatch(
+      gatewayResponse?.successIndicator,
+      resultIndicator
+    );
+
+    // The customer still deserves an answer when MPGS is unreachable, so a
+    // gateway failure is reported alongside the local state instead of a 5xx.
+    let verification: GatewayVerification | null = null;
+    let gatewayError: string | null = null;
+    try {
+      const order = await createMpgsApiService().retrieveOrder(orderId);
+      verification = verifyGatewayOrder(session, order);
+    } catch (error) {
+      if (!(error instanceof MpgsApiError)) {
+        throw error;
+      }
+      console.error("Failed to retrieve MPGS order on return", error);
+      gatewayError = error.message;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        orderId,
+        sessionId: session.sessionId,
+        amount: session.amount,
+        currency: session.currency,
+        description: session.description,
+        indicatorMatches,
+        paymentStatus: session.status,
+        gateway: verification,
+        gatewayError,
+        shipment: {
+          trackingNumber: session.prontoTrackingNumber ?? null,
+          status: session.prontoStatus ?? null,
+          cost: session.prontoCost ?? null,
+        },
+      },
+    });
+  } catch (error) {
+    return handleError(error, "Failed to verify payment result");
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import handleError from "../../../../helpers/handleError";
+import { apiStatus } from "../../../../helpers/apiStatus";
+import { getPaymentSession } from "@/lib/repositories/paymentSessions";
+import { listRefundsForSession } from "@/lib/repositories/paymentRefunds";
+import { refundPaymentSession } from "@/lib/paymentOrderService";
+import { RefundPaymentSchema } from "@/schemas/payment.schema";
+
+type Params =
+  | { sessionId: string }
+  | Promise<{ sessionId: string }>;
+
+interface RouteContext {
+  params: Params;
+}
+
+function sessionNotFound() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "SESSION_NOT_FOUND",
+        message: "Payment session not found",
+      },
+    },
+    { status: apiStatus.NOT_FOUND }
+  );
+}
+
+/**
+ * @route GET /api/payments/sessions/:sessionId/refund
+ * @desc Lists every refund attempt recorded for the session
+ * @access Private
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const params = await Promise.resolve(context.params);
+    const session = await getPaymentSession(params.sessionId);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    const refunds = await listRefundsForSession(params.sessionId);
+    return NextResponse.json({
+      success: true,
+      data: refunds,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to list refunds");
+  }
+}
+
+/**
+ * @route POST /api/payments/sessions/:sessionId/refund
+ * @desc Refunds a completed payment through MPGS (full when amount is omitted)
+ * @access Private
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const params = await Promise.resolve(context.params);
+    const body = await request.json();
+    const { amount, reason } = RefundPaymentSchema.parse(body);
+
+    const session = await getPaymentSession(params.sessionId);
+    if (!session) {
+      return sessionNotFound();
+    }
+
+    const result = await refundPaymentSession(params.sessionId, {
+      amount,
+      reason,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Refund processed successfully.",
+        data: result,
+      },
+      { status: apiStatus.CREATED }
+    );
+  } catch (error) {
+    return handleError(error, "Failed to refund payment session");
+  }
+}
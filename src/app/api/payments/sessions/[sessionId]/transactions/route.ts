@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import handleError from "../../../../helpers/handleError";
+import { apiStatus } from "../../../../helpers/apiStatus";
+import { getPaymentSession } from "@/lib/repositories/paymentSessions";
+import { listTransactionsForOrder } from "@/lib/repositories/paymentTransactions";
+
+type Params =
+  | { sessionId: string }
+  | Promise<{ sessionId: string }>;
+
+interface RouteContext {
+  params: Params;
+}
+
+/**
+ * @route GET /api/payments/sessions/:sessionId/transactions
+ * @desc Lists the gateway transactions (authorizations, payments, captures,
+ *       refunds, voids) recorded for the session's order
+ * @access Private
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const params = await Promise.resolve(context.params);
+    const session = await getPaymentSession(params.sessionId);
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "SESSION_NOT_FOUND",
+            message: "Payment session not found",
+          },
+        },
+        { status: apiStatus.NOT_FOUND }
+      );
+    }
+
+    const transactions = await listTransactionsForOrder(session.orderId);
+    return NextResponse.json({
+      success: true,
+      data: transactions,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to list payment transactions");
+  }
+}
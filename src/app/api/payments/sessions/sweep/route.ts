@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import handleError from "../../../helpers/handleError";
+import { sweepStalePaymentSessions } from "@/lib/paymentSessionSweeper";
+
+const SweepRequestSchema = z.object({
+  ttlMinutes: z.number().positive().optional(),
+  limit: z.number().int().positive().max(500).optional(),
+});
+
+/**
+ * @route POST /api/payments/sessions/sweep
+ * @desc Expires or reconciles PENDING sessions older than the TTL
+ *       (PAYMENT_SESSION_TTL_MINUTES unless `ttlMinutes` is given)
+ * @access Private
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const options = SweepRequestSchema.parse(body);
+    const summary = await sweepStalePaymentSessions(options);
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to sweep payment sessions");
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import handleError from "../../helpers/handleError";
+import {
+  buildReconciliationReport,
+  reconciliationReportToCsv,
+} from "@/lib/reconciliationService";
+
+const ReconciliationQuerySchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "date must be in YYYY-MM-DD format")
+    .refine((value) => {
+      // Date rolls 2024-02-30 over to March, so compare the round trip.
+      const day = new Date(`${value}T00:00:00Z`);
+      return (
+        !Number.isNaN(day.getTime()) &&
+        day.toISOString().slice(0, 10) === value
+      );
+    }, "date is not a valid calendar day")
+    .optional(),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+/**
+ * @route GET /api/reports/reconciliation?date=YYYY-MM-DD&format=json|csv
+ * @desc Compares the day's payment sessions (UTC, default today) with their
+ *       MPGS orders and flags paid-but-pending, completed-but-not-captured,
+ *       amount mismatches and missing shipments
+ * @access Private
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { date, format } = ReconciliationQuerySchema.parse({
+      date: searchParams.get("date") ?? undefined,
+      format: searchParams.get("format") ?? undefined,
+    });
+
+    const day = date ?? new Date().toISOString().slice(0, 10);
+    const report = await buildReconciliationReport(day);
+
+    if (format === "csv") {
+      return new NextResponse(reconciliationReportToCsv(report), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="reconciliation-${day}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to build reconciliation report");
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import handleError from "../../../helpers/handleError";
+import { apiStatus } from "../../../helpers/apiStatus";
+import { getLocationKey } from "@/lib/areaOverrides";
+import {
+  deleteAreaOverride,
+  getAreaOverride,
+  listAreaOverrideAudit,
+  saveAreaOverride,
+} from "@/lib/repositories/prontoAreaOverrides";
+import {
+  AreaOverrideDeleteSchema,
+  AreaOverrideUpdateSchema,
+} from "@/schemas/pronto.schema";
+
+type Params =
+  | { location: string }
+  | Promise<{ location: string }>;
+
+interface RouteContext {
+  params: Params;
+}
+
+function overrideNotFound(location: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "AREA_OVERRIDE_NOT_FOUND",
+        message: `No area override exists for "${location}"`,
+      },
+    },
+    { status: apiStatus.NOT_FOUND }
+  );
+}
+
+/**
+ * @route GET /api/shipping/areas/:location
+ * @desc Returns the override for a location with its change history
+ * @access Private
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const { location } = await Promise.resolve(context.params);
+    const locationKey = getLocationKey(location);
+    const override = await getAreaOverride(locationKey);
+    if (!override) {
+      return overrideNotFound(location);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...override,
+        audit: await listAreaOverrideAudit(locationKey),
+      },
+    });
+  } catch (error) {
+    return handleError(error, "Failed to load area override");
+  }
+}
+
+/**
+ * @route PUT /api/shipping/areas/:location
+ * @desc Changes the area code of an existing override
+ * @access Private
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { location } = await Promise.resolve(context.params);
+    const body = await request.json();
+    const { areaCode, changedBy, note } = AreaOverrideUpdateSchema.parse(body);
+
+    const locationKey = getLocationKey(location);
+    const existing = await getAreaOverride(locationKey);
+    if (!existing) {
+      return overrideNotFound(location);
+    }
+
+    const override = await saveAreaOverride({
+      locationKey,
+      location: existing.location,
+      areaCode,
+      note,
+      changedBy,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: override,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to update area override");
+  }
+}
+
+/**
+ * @route DELETE /api/shipping/areas/:location
+ * @desc Removes an override; the location falls back to the gazetteer
+ * @access Private
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { location } = await Promise.resolve(context.params);
+    const body = await request.json().catch(() => ({}));
+    const { changedBy, note } = AreaOverrideDeleteSchema.parse(body);
+
+    const removed = await deleteAreaOverride(
+      getLocationKey(location),
+      changedBy,
+      note
+    );
+    if (!removed) {
+      return overrideNotFound(location);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: removed,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to delete area override");
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import handleError from "../../../helpers/handleError";
+import { getLocationKey } from "@/lib/areaOverrides";
+import { listAreaOverrideAudit } from "@/lib/repositories/prontoAreaOverrides";
+
+/**
+ * @route GET /api/shipping/areas/audit?location=&limit=
+ * @desc Lists who changed which area override and when, newest first
+ * @access Private
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const location = request.nextUrl.searchParams.get("location");
+    const limit = Number(request.nextUrl.searchParams.get("limit"));
+
+    const entries = await listAreaOverrideAudit(
+      location ? getLocationKey(location) : undefined,
+      Number.isInteger(limit) && limit > 0 ? Math.min(limit, 500) : 100
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to list area override audit");
+  }
+}
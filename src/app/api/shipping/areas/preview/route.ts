@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import handleError from "../../../helpers/handleError";
+import { previewAreaRecoding } from "@/lib/areaOverrides";
+import { AreaOverridePreviewSchema } from "@/schemas/pronto.schema";
+
+/**
+ * @route POST /api/shipping/areas/preview
+ * @desc Shows how the `location` of existing sessions would be coded with
+ *       the stored overrides plus the proposed `overrides` (areaCode null
+ *       removes one). Nothing is saved and sessions are not changed.
+ * @access Private
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { overrides } = AreaOverridePreviewSchema.parse(body);
+
+    const locations = await previewAreaRecoding(overrides);
+    const changed = locations.filter((entry) => entry.changed);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        summary: {
+          locations: locations.length,
+          sessions: locations.reduce((sum, entry) => sum + entry.sessions, 0),
+          changedLocations: changed.length,
+          changedSessions: changed.reduce(
+            (sum, entry) => sum + entry.sessions,
+            0
+          ),
+          unresolved: locations.filter(
+            (entry) => entry.proposedAreaCode === null
+          ).length,
+        },
+        locations,
+      },
+    });
+  } catch (error) {
+    return handleError(error, "Failed to preview area recoding");
+  }
+}
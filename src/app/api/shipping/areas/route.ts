@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import handleError from "../../helpers/handleError";
+import { apiStatus } from "../../helpers/apiStatus";
+import { getLocationKey } from "@/lib/areaOverrides";
+import { resolveLocation } from "@/lib/gazetteer";
+import {
+  getAreaOverride,
+  listAreaOverrides,
+  saveAreaOverride,
+} from "@/lib/repositories/prontoAreaOverrides";
+import { AreaOverrideSchema } from "@/schemas/pronto.schema";
+
+/**
+ * @route GET /api/shipping/areas
+ * @desc Lists the area code overrides with the code the gazetteer would
+ *       use without them
+ * @access Private
+ */
+export async function GET() {
+  try {
+    const overrides = await listAreaOverrides();
+
+    return NextResponse.json({
+      success: true,
+      data: overrides.map((override) => ({
+        ...override,
+        builtInAreaCode: resolveLocation(override.location)?.areaCode ?? null,
+      })),
+    });
+  } catch (error) {
+    return handleError(error, "Failed to list area overrides");
+  }
+}
+
+/**
+ * @route POST /api/shipping/areas
+ * @desc Adds an area code override for a location; checked before the
+ *       gazetteer from the next quote on
+ * @access Private
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { location, areaCode, changedBy, note } =
+      AreaOverrideSchema.parse(body);
+
+    const locationKey = getLocationKey(location);
+    if (await getAreaOverride(locationKey)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "AREA_OVERRIDE_EXISTS",
+            message: `An override for "${location}" already exists; update it with PUT /api/shipping/areas/${encodeURIComponent(
+              location
+            )}`,
+          },
+        },
+        { status: apiStatus.CONFLICT }
+      );
+    }
+
+    const override = await saveAreaOverride({
+      locationKey,
+      location,
+      areaCode,
+      note,
+      changedBy,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: override,
+      },
+      { status: apiStatus.CREATED }
+    );
+  } catch (error) {
+    return handleError(error, "Failed to create area override");
+  }
+}
@@ -5,11 +5,19 @@ import {
   createProntoShipment,
   createShipmentForSession,
 } from "@/lib/prontoOrderService";
+import handleError from "../../helpers/handleError";
 
 const CreateShipmentRequestSchema = z.union([
-  z.object({
-    sessionId: z.string().min(1),
-  }),
+  z
+    .object({
+      sessionId: z.string().min(1),
+      force: z.boolean().optional(),
+      reason: z.string().trim().min(1).max(500).optional(),
+    })
+    .refine((value) => !value.force || Boolean(value.reason), {
+      message: "reason is required when force is true",
+      path: ["reason"],
+    }),
   ProntoCreateShipmentSchema,
 ]);
 
@@ -18,6 +26,12 @@ const CreateShipmentRequestSchema = z.union([
  * /api/shipping/create-shipment:
  *   post:
  *     summary: Create a shipment with Pronto Lanka
+ *     description: |
+ *       Pass `sessionId` to ship a stored payment session. A session ships
+ *       once; repeating the call returns the existing shipment with
+ *       `existing: true`. Set `force` with a `reason` to create a
+ *       replacement consignment (the previous one is kept in the session
+ *       metadata and must be cancelled with Pronto separately).
  *     tags: [Shipping]
  *     security:
  *       - bearerAuth: []
@@ -40,6 +54,17 @@ const CreateShipmentRequestSchema = z.union([
  *                 type: string
  *                 description: Order ID for tracking
  *                 example: "ORD-2024-001"
+ *               sessionId:
+ *                 type: string
+ *                 description: Ship a stored payment session instead of raw data
+ *               force:
+ *                 type: boolean
+ *                 description: With sessionId, replace an existing shipment
+ *                 default: false
+ *               reason:
+ *                 type: string
+ *                 description: Why the shipment is replaced (required with force)
+ *                 example: "Receiver address corrected"
  *               senderName:
  *                 type: string
  *                 description: Sender name (optional, uses default if not provided)
@@ -126,6 +151,9 @@ const CreateShipmentRequestSchema = z.union([
  *                       type: number
  *                       description: Shipping cost in LKR
  *                       example: 450.00
+ *                     existing:
+ *                       type: boolean
+ *                       description: True when the session already had this shipment
  *       400:
  *         description: Invalid request data
  *         content:
@@ -138,6 +166,12 @@ const CreateShipmentRequestSchema = z.union([
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: The payment session cannot move to the requested status, or a shipment operation is not allowed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       500:
  *         description: Internal server error
  *         content:
@@ -151,7 +185,10 @@ export async function POST(request: NextRequest) {
     const payload = CreateShipmentRequestSchema.parse(body);
 
     if ("sessionId" in payload) {
-      const result = await createShipmentForSession(payload.sessionId);
+      const result = await createShipmentForSession(payload.sessionId, {
+        force: payload.force,
+        reason: payload.reason,
+      });
       return NextResponse.json({
         success: true,
         data: {
@@ -162,6 +199,7 @@ export async function POST(request: NextRequest) {
           areaCode: result.areaCode,
           currency: "LKR",
           sessionId: result.sessionId,
+          existing: result.existing,
         },
       });
     }
@@ -180,31 +218,6 @@ export async function POST(request: NextRequest) {
       },
     });
   } catch (error) {
-    console.error("Shipment creation error:", error);
-
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "VALIDATION_ERROR",
-            message: "Invalid request data",
-            details: error.issues,
-          },
-        },
-        { status: 400 }
-      );
-    }
-
-    return NextResponse.json(
-      {
-        success: false,
-        error: {
-          code: "SHIPMENT_CREATION_FAILED",
-          message: error instanceof Error ? error.message : "Failed to create shipment. Please try again later.",
-        },
-      },
-      { status: 500 }
-    );
+    return handleError(error, "Failed to create shipment");
   }
 }
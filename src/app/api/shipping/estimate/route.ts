@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createProntoApiService, getAreaCodeForLocation } from "@/lib/prontoApiService";
+import { issueShippingQuote } from "@/lib/shippingQuotes";
 import { z } from "zod";
+import handleError from "../../helpers/handleError";
 
 const EstimateShippingSchema = z.object({
   weight: z.number().min(0.1).max(100), // Weight in kg
-  location: z.string().min(1), // Delivery location
+  location: z.string().min(1).max(200), // Delivery location
   customerCode: z.string().optional(), // Optional customer code override
 });
 
@@ -32,8 +33,9 @@ const EstimateShippingSchema = z.object({
  *                 example: 2.5
  *               location:
  *                 type: string
- *                 description: Delivery location (city/district)
- *                 example: "Colombo"
+ *                 maxLength: 200
+ *                 description: Delivery location (town, district, postal code or address; English, Sinhala or Tamil)
+ *                 example: "Colombo 07"
  *               customerCode:
  *                 type: string
  *                 description: Optional customer code override
@@ -52,6 +54,12 @@ const EstimateShippingSchema = z.object({
  *                 data:
  *                   type: object
  *                   properties:
+ *                     quoteId:
+ *                       type: string
+ *                       description: Pass to /api/payments/create-session to be charged this exact cost
+ *                     expiresAt:
+ *                       type: string
+ *                       description: When the quote stops being accepted (SHIPPING_QUOTE_TTL_MINUTES)
  *                     cost:
  *                       type: number
  *                       description: Estimated shipping cost in LKR
@@ -72,12 +80,53 @@ const EstimateShippingSchema = z.object({
  *                       type: string
  *                       description: Currency code
  *                       example: "LKR"
+ *                     source:
+ *                       type: string
+ *                       enum: [RATE_CARD, LIVE]
+ *                       description: What priced the quote; always a live pkg.amount call until rate card pricing is confirmed
+ *                       example: "LIVE"
+ *                     rateCardFetchedAt:
+ *                       type: string
+ *                       nullable: true
+ *                       description: When the rate card compared against (or found stale) was fetched
+ *                     resolvedLocation:
+ *                       type: object
+ *                       description: Gazetteer place the location was matched to
+ *                       properties:
+ *                         name:
+ *                           type: string
+ *                           example: "Colombo 07"
+ *                         kind:
+ *                           type: string
+ *                           enum: [DISTRICT, DS_DIVISION, TOWN, SPECIAL_AREA]
+ *                         district:
+ *                           type: string
+ *                           nullable: true
+ *                         zone:
+ *                           type: string
+ *                           example: "CITY"
+ *                         confidence:
+ *                           type: number
+ *                           example: 1
+ *                         lowConfidence:
+ *                           type: boolean
+ *                           description: The match is a guess; ask the customer to confirm the location
+ *                         override:
+ *                           type: object
+ *                           nullable: true
+ *                           description: Admin override (/api/shipping/areas) that set the area code, with the gazetteer's own code
  *       400:
  *         description: Invalid request data
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       422:
+ *         description: Location could not be matched to any place (UNKNOWN_LOCATION)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       500:
  *         description: Internal server error
  *         content:
@@ -90,58 +139,35 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { weight, location, customerCode } = EstimateShippingSchema.parse(body);
 
-    // Get area code for the location
-    const areaCode = getAreaCodeForLocation(location);
-
-    // Create Pronto API service
-    const prontoApi = createProntoApiService();
-
-    // Calculate shipping cost
-    const response = await prontoApi.calculateShippingCost({
-      customerCode: customerCode || process.env.PRONTO_CUSTOMER_CODE || 'A001',
-      pkgWeight: weight,
-      prontoAc: areaCode
-    });
-
-    const cost = parseFloat(response.live_amount.amount);
+    // Priced live by pkg.amount. The quote can be passed to create-session
+    // as `quoteId`.
+    const quote = await issueShippingQuote({ customerCode, location, weight });
 
     return NextResponse.json({
       success: true,
       data: {
-        cost,
+        quoteId: quote.quoteId,
+        expiresAt: quote.expiresAt,
+        cost: quote.amount,
         weight,
         location,
-        areaCode,
-        currency: 'LKR'
+        areaCode: quote.areaCode,
+        currency: quote.currency,
+        source: quote.source,
+        rateCardFetchedAt: quote.rateCardFetchedAt,
+        resolvedLocation: quote.locationMatch && {
+          name: quote.locationMatch.place.name,
+          kind: quote.locationMatch.place.kind,
+          district: quote.locationMatch.place.district,
+          zone: quote.locationMatch.zone,
+          confidence: quote.locationMatch.confidence,
+          lowConfidence: quote.locationMatch.lowConfidence,
+          override: quote.locationMatch.override ?? null
+        }
       }
     });
 
   } catch (error) {
-    console.error('Shipping estimation error:', error);
-
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "VALIDATION_ERROR",
-            message: "Invalid request data",
-            details: error.issues
-          }
-        },
-        { status: 400 }
-      );
-    }
-
-    return NextResponse.json(
-      {
-        success: false,
-        error: {
-          code: "SHIPPING_ESTIMATION_FAILED",
-          message: "Failed to estimate shipping cost. Please try again later."
-        }
-      },
-      { status: 500 }
-    );
+    return handleError(error, "Failed to estimate shipping cost");
   }
 }
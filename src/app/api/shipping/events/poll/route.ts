@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import handleError from "../../../helpers/handleError";
+import { pollShipmentTracking } from "@/lib/shipmentTracking";
+
+const PollRequestSchema = z.object({
+  limit: z.number().int().positive().max(500).optional(),
+});
+
+/**
+ * @route POST /api/shipping/events/poll
+ * @desc Fetches tno.detail for undelivered shipments not polled within
+ *       TRACKING_MIN_POLL_INTERVAL_MINUTES and stores new events
+ * @access Private
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const options = PollRequestSchema.parse(body);
+    const summary = await pollShipmentTracking(options);
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to poll shipment tracking");
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import handleError from "../../helpers/handleError";
+import { listShipmentEvents } from "@/lib/repositories/shipmentEvents";
+import { TRACKING_STATUS_DESCRIPTIONS } from "@/lib/shipmentTracking";
+
+const ListShipmentEventsSchema = z
+  .object({
+    trackingNumber: z.string().min(1).optional(),
+    sessionId: z.string().min(1).optional(),
+  })
+  .refine((value) => value.trackingNumber || value.sessionId, {
+    message: "trackingNumber or sessionId is required",
+    path: ["trackingNumber"],
+  });
+
+/**
+ * @route GET /api/shipping/events?trackingNumber=|sessionId=
+ * @desc Lists the stored Pronto tracking events, oldest first
+ * @access Private
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const filter = ListShipmentEventsSchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    const events = await listShipmentEvents(filter);
+
+    return NextResponse.json({
+      success: true,
+      data: events.map((event) => ({
+        ...event,
+        statusDescription:
+          TRACKING_STATUS_DESCRIPTIONS[event.status] || event.status,
+      })),
+    });
+  } catch (error) {
+    return handleError(error, "Failed to list shipment events");
+  }
+}
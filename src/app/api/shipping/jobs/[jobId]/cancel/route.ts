@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import handleError from "../../../../helpers/handleError";
+import { apiStatus } from "../../../../helpers/apiStatus";
+import { cancelShipmentJob } from "@/lib/shipmentJobs";
+
+const CancelShipmentJobSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+type Params = { jobId: string } | Promise<{ jobId: string }>;
+
+interface RouteContext {
+  params: Params;
+}
+
+/**
+ * @route POST /api/shipping/jobs/:jobId/cancel
+ * @desc Stops a queued shipment job, or closes a dead one, with a reason.
+ *       The payment is left as it is.
+ * @access Private
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const params = await Promise.resolve(context.params);
+    const { reason } = CancelShipmentJobSchema.parse(await request.json());
+    const job = await cancelShipmentJob(params.jobId, reason);
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "SHIPMENT_JOB_NOT_FOUND",
+            message: "Shipment job not found",
+          },
+        },
+        { status: apiStatus.NOT_FOUND }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to cancel shipment job");
+  }
+}
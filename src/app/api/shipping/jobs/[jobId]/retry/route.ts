@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import handleError from "../../../../helpers/handleError";
+import { apiStatus } from "../../../../helpers/apiStatus";
+import { retryShipmentJob } from "@/lib/shipmentJobs";
+
+type Params = { jobId: string } | Promise<{ jobId: string }>;
+
+interface RouteContext {
+  params: Params;
+}
+
+/**
+ * @route POST /api/shipping/jobs/:jobId/retry
+ * @desc Re-queues a dead or cancelled shipment job with fresh attempts and
+ *       runs it now
+ * @access Private
+ */
+export async function POST(_request: NextRequest, context: RouteContext) {
+  try {
+    const params = await Promise.resolve(context.params);
+    const job = await retryShipmentJob(params.jobId);
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "SHIPMENT_JOB_NOT_FOUND",
+            message: "Shipment job not found",
+          },
+        },
+        { status: apiStatus.NOT_FOUND }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to retry shipment job");
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import handleError from "../../helpers/handleError";
+import { listShipmentJobs } from "@/lib/repositories/shipmentJobs";
+
+const ListShipmentJobsSchema = z.object({
+  status: z
+    .enum(["QUEUED", "RUNNING", "SUCCEEDED", "DEAD", "CANCELLED"])
+    .optional(),
+  sessionId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(500).default(100),
+});
+
+/**
+ * @route GET /api/shipping/jobs?status=&sessionId=&limit=
+ * @desc Lists shipment creation jobs, newest first
+ * @access Private
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const filter = ListShipmentJobsSchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    const jobs = await listShipmentJobs(filter);
+
+    return NextResponse.json({
+      success: true,
+      data: jobs,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to list shipment jobs");
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import handleError from "../../../helpers/handleError";
+import { processDueShipmentJobs } from "@/lib/shipmentJobs";
+
+const RunShipmentJobsSchema = z.object({
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+/**
+ * @route POST /api/shipping/jobs/run
+ * @desc Makes the next attempt for every shipment job that is due
+ * @access Private
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { limit } = RunShipmentJobsSchema.parse(body);
+    const summary = await processDueShipmentJobs(limit);
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to run shipment jobs");
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import handleError from "../../helpers/handleError";
+import { searchDeliveryAreas } from "@/lib/areaOverrides";
+import { getShippingQuote } from "@/lib/prontoRateCards";
+
+const LocationSearchSchema = z.object({
+  // Fuzzy matching costs grow with the input; no place name is this long.
+  q: z.string().trim().min(1, "q is required").max(200),
+  weight: z.coerce.number().min(0.1).max(100).optional(),
+  customerCode: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(25).default(10),
+});
+
+/**
+ * Delivery charge per area code for the suggestions. A failed price leaves
+ * the charge empty rather than failing the lookup.
+ */
+async function chargesByAreaCode(
+  areaCodes: string[],
+  weight: number,
+  customerCode?: string
+): Promise<Map<string, number | null>> {
+  const entries = await Promise.all(
+    [...new Set(areaCodes)].map(async (areaCode) => {
+      try {
+        const quote = await getShippingQuote({ customerCode, areaCode, weight });
+        return [areaCode, quote.amount] as const;
+      } catch (error) {
+        console.error(`❌ Delivery charge for area ${areaCode} failed`, error);
+        return [areaCode, null] as const;
+      }
+    })
+  );
+  return new Map(entries);
+}
+
+/**
+ * @route GET /api/shipping/locations?q=&weight=&customerCode=&limit=
+ * @desc Autocomplete for delivery locations: matching towns, DS divisions,
+ *       districts and postal codes with their Pronto area code and zone.
+ *       With `weight`, each suggestion carries its delivery charge.
+ * @access Private
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const { q, weight, customerCode, limit } = LocationSearchSchema.parse({
+      q: searchParams.get("q") ?? "",
+      weight: searchParams.get("weight") || undefined,
+      customerCode: searchParams.get("customerCode") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    });
+
+    const matches = await searchDeliveryAreas(q, limit);
+    const charges =
+      weight === undefined
+        ? null
+        : await chargesByAreaCode(
+            matches.map((match) => match.areaCode),
+            weight,
+            customerCode
+          );
+
+    return NextResponse.json({
+      success: true,
+      data: matches.map((match) => ({
+        name: match.place.name,
+        kind: match.place.kind,
+        district: match.place.district,
+        province: match.place.province,
+        postalCode: match.place.postalCode,
+        areaCode: match.areaCode,
+        zone: match.zone,
+        confidence: match.confidence,
+        matchedOn: match.matchedOn,
+        override: match.override ?? null,
+        ...(charges && {
+          deliveryCharge: charges.get(match.areaCode) ?? null,
+          currency: "LKR",
+        }),
+      })),
+    });
+  } catch (error) {
+    return handleError(error, "Failed to search delivery locations");
+  }
+}
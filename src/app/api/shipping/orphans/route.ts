@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import handleError from "../../helpers/handleError";
+import { listOrphanedShipments } from "@/lib/repositories/prontoShipments";
+
+// Younger reservations are usually a shipment still in progress.
+const DEFAULT_MIN_AGE_MINUTES = 15;
+
+/**
+ * @route GET /api/shipping/orphans?minAgeMinutes=
+ * @desc Lists tracking numbers reserved with Pronto but never inserted, oldest first
+ * @access Private
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const minAge = Number(request.nextUrl.searchParams.get("minAgeMinutes"));
+    const minAgeMinutes =
+      request.nextUrl.searchParams.has("minAgeMinutes") &&
+      Number.isFinite(minAge) &&
+      minAge >= 0
+        ? minAge
+        : DEFAULT_MIN_AGE_MINUTES;
+    const reservedBefore = new Date(
+      Date.now() - minAgeMinutes * 60_000
+    ).toISOString();
+
+    const shipments = await listOrphanedShipments(reservedBefore);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        minAgeMinutes,
+        total: shipments.length,
+        // Abandoned numbers will never be used; the rest are resumed by
+        // the next shipment attempt for their order.
+        abandoned: shipments.filter((s) => s.status === "ABANDONED").length,
+        shipments: shipments.map((shipment) => ({
+          trackingNumber: shipment.trackingNumber,
+          orderId: shipment.orderId,
+          sessionId: shipment.sessionId,
+          customerCode: shipment.customerCode,
+          status: shipment.status,
+          attempts: shipment.attempts,
+          lastError: shipment.lastError,
+          reservedAt: shipment.reservedAt,
+          insertAttemptedAt: shipment.insertAttemptedAt,
+        })),
+      },
+    });
+  } catch (error) {
+    return handleError(error, "Failed to list orphaned tracking numbers");
+  }
+}
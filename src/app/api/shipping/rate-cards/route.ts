@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import handleError from "../../helpers/handleError";
+import {
+  getRateCardMaxAgeMinutes,
+  isRateCardFresh,
+  refreshRateCard,
+} from "@/lib/prontoRateCards";
+import { listRateCards } from "@/lib/repositories/prontoRateCards";
+
+const RefreshRateCardSchema = z.object({
+  customerCode: z.string().min(1).optional(),
+});
+
+/**
+ * @route GET /api/shipping/rate-cards
+ * @desc Lists the stored Pronto rate cards and whether each is still fresh
+ * @access Private
+ */
+export async function GET() {
+  try {
+    const cards = await listRateCards();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        maxAgeMinutes: getRateCardMaxAgeMinutes(),
+        cards: cards.map((card) => ({
+          ...card,
+          fresh: isRateCardFresh(card),
+        })),
+      },
+    });
+  } catch (error) {
+    return handleError(error, "Failed to list Pronto rate cards");
+  }
+}
+
+/**
+ * @route POST /api/shipping/rate-cards
+ * @desc Fetches calc.method now and stores the parsed rate card
+ *       (PRONTO_CUSTOMER_CODE unless `customerCode` is given)
+ * @access Private
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { customerCode } = RefreshRateCardSchema.parse(body);
+    const card = await refreshRateCard(customerCode);
+
+    return NextResponse.json({
+      success: true,
+      data: card,
+    });
+  } catch (error) {
+    return handleError(error, "Failed to refresh Pronto rate card");
+  }
+}
@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createProntoApiService } from "@/lib/prontoApiService";
+import {
+  createProntoApiService,
+  ProntoApiError,
+} from "@/lib/prontoApiService";
+import {
+  latestTrackingEntry,
+  recordTrackingEvents,
+  TRACKING_STATUS_DESCRIPTIONS,
+} from "@/lib/shipmentTracking";
 import { z } from "zod";
+import handleError from "../../helpers/handleError";
 
 const TrackShipmentSchema = z.object({
   trackingNumber: z.string().min(1),
@@ -12,6 +21,9 @@ const TrackShipmentSchema = z.object({
  * /api/shipping/track:
  *   post:
  *     summary: Track a shipment using Pronto tracking number
+ *     description: |
+ *       Calls Pronto live. New status entries are also stored in
+ *       shipment_events and update the owning payment session.
  *     tags: [Shipping]
  *     requestBody:
  *       required: true
@@ -106,38 +118,25 @@ export async function POST(request: NextRequest) {
       tno: trackingNumber
     });
 
-    // Map status codes to descriptions
-    const statusDescriptions: Record<string, string> = {
-      'A': 'Accepted by Pronto Branch',
-      'I': 'Data Entry to System',
-      'S': 'Scanned Out to Delivery Route',
-      'C': 'Consignment Delivery Complete',
-      'M': 'Interbranch Transit',
-      'Delivered': 'Consignment Delivered',
-      'Reject': 'Consignment Rejected',
-      'Return': 'Consignment Returned'
-    };
+    // Keep what Pronto reported so the history survives beyond this call
+    await recordTrackingEvents(trackingNumber, response.tracking_no);
 
-    type ProntoTrackingEntry = {
-      status: string;
-      date: string;
-      time: string;
-      location?: string;
-      remarks?: string;
-    };
-
-    // Process tracking history
-    const trackingHistory = response.emp_tracking.map((entry: ProntoTrackingEntry) => ({
-      status: entry.status,
-      statusDescription: statusDescriptions[entry.status] || entry.status,
-      date: entry.date,
-      time: entry.time,
-      location: entry.location || '',
-      remarks: entry.remarks || ''
-    }));
+    // STATUS_DATE is local time without a zone, e.g. 2019-11-08T15:28:22.987
+    const trackingHistory = response.tracking_no.map((entry) => {
+      const [date, time = ''] = entry.STATUS_DATE.split('T');
+      return {
+        status: entry.STATUS,
+        statusDescription: TRACKING_STATUS_DESCRIPTIONS[entry.STATUS] || entry.STATUS,
+        date,
+        time: time.split('.')[0],
+        location: entry.PRONTO_HUB || '',
+        remarks: ''
+      };
+    });
 
-    // Get current status (latest entry)
-    const currentStatus = trackingHistory.length > 0 ? trackingHistory[trackingHistory.length - 1] : null;
+    // Get current status (entry with the newest STATUS_DATE)
+    const latest = latestTrackingEntry(response.tracking_no);
+    const currentStatus = latest ? trackingHistory[response.tracking_no.indexOf(latest)] : null;
 
     return NextResponse.json({
       success: true,
@@ -166,6 +165,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof ProntoApiError) {
+      return handleError(error, "Failed to track shipment");
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -13,6 +13,33 @@ interface SessionRecord {
   createdAt: string;
 }
 
+interface DeliveryQuote {
+  quoteId: string;
+  cost: number;
+  currency: string;
+  expiresAt: string;
+  source: "RATE_CARD" | "LIVE";
+  resolvedLocation: {
+    name: string;
+    district: string | null;
+    zone: string;
+    lowConfidence: boolean;
+  } | null;
+}
+
+interface LocationSuggestion {
+  name: string;
+  kind: string;
+  district: string | null;
+  areaCode: string;
+  zone: string;
+  deliveryCharge?: number | null;
+  currency?: string;
+}
+
+// Fields a quote is priced from; editing one discards the quote.
+const QUOTED_FIELDS = ["location", "weight", "customerCode"];
+
 const DEFAULT_CURRENCY =
   process.env.NEXT_PUBLIC_MPGS_CURRENCY || process.env.MPGS_CURRENCY || "LKR";
 
@@ -21,6 +48,7 @@ const initialFormState = {
   currency: DEFAULT_CURRENCY,
   description: "Test order from playground",
   orderId: "",
+  paymentMode: "",
   senderName: "Kifgo Test Warehouse",
   senderPhone: "0112345678",
   senderAddress: "Kifgo HQ, Colombo",
@@ -42,6 +70,10 @@ export default function Home() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [quote, setQuote] = useState<DeliveryQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [suggestions, setSuggestions] = useState<LocationSuggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
 
   const isSubmitDisabled = useMemo(() => {
     return (
@@ -75,6 +107,49 @@ export default function Home() {
     loadSessions();
   }, []);
 
+  // Location suggestions with zone and delivery charge, refreshed shortly
+  // after the location, weight or customer code changes.
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      if (!form.location.trim()) {
+        setSuggestions([]);
+        return;
+      }
+      const params = new URLSearchParams({ q: form.location, limit: "8" });
+      if (Number(form.weight) > 0) {
+        params.set("weight", form.weight);
+      }
+      if (form.customerCode) {
+        params.set("customerCode", form.customerCode);
+      }
+      try {
+        const response = await fetch(`/api/shipping/locations?${params}`, {
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        setSuggestions(data.success ? data.data : []);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to fetch location suggestions", err);
+        }
+      }
+    }, 250);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [form.location, form.weight, form.customerCode]);
+
+  const selectedLocation = useMemo(
+    () =>
+      suggestions.find(
+        (suggestion) =>
+          suggestion.name.toLowerCase() === form.location.trim().toLowerCase()
+      ) ?? null,
+    [suggestions, form.location]
+  );
+
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setLoading(true);
@@ -86,6 +161,8 @@ export default function Home() {
       currency: form.currency,
       description: form.description,
       orderId: form.orderId || undefined,
+      paymentMode: form.paymentMode || undefined,
+      quoteId: quote?.quoteId,
       sender: {
         name: form.senderName,
         phone: form.senderPhone,
@@ -130,6 +207,7 @@ export default function Home() {
         ...prev,
         orderId: "",
       }));
+      setQuote(null);
       await loadSessions();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unexpected error");
@@ -138,16 +216,64 @@ export default function Home() {
     }
   };
 
+  const requestQuote = async () => {
+    setQuoteLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/shipping/estimate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          location: form.location,
+          weight: parseFloat(form.weight),
+          customerCode: form.customerCode || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data?.error?.message || "Unable to get a quote");
+      }
+      setQuote(data.data);
+    } catch (err) {
+      setQuote(null);
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setQuoteLoading(false);
+    }
+  };
+
   const handleInputChange = (
-    event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    event: ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
   ) => {
     const { name, value, type, checked } = event.target as HTMLInputElement;
+    if (QUOTED_FIELDS.includes(name)) {
+      setQuote(null);
+    }
     setForm((prev) => ({
       ...prev,
       [name]: type === "checkbox" ? checked : value,
     }));
   };
 
+  const selectLocation = (suggestion: LocationSuggestion) => {
+    setQuote(null);
+    setShowSuggestions(false);
+    setForm((prev) => ({ ...prev, location: suggestion.name }));
+  };
+
+  const formatSuggestion = (suggestion: LocationSuggestion) => {
+    const charge =
+      suggestion.deliveryCharge != null
+        ? ` · ${suggestion.currency ?? DEFAULT_CURRENCY} ${suggestion.deliveryCharge.toFixed(2)}`
+        : "";
+    return `${suggestion.zone} (area ${suggestion.areaCode})${charge}`;
+  };
+
   const copySessionId = async (sessionId: string) => {
     try {
       await navigator.clipboard.writeText(sessionId);
@@ -170,7 +296,7 @@ export default function Home() {
           </p>
 
           <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-            <div className="grid gap-6 md:grid-cols-2">
+            <div className="grid gap-6 md:grid-cols-3">
               <div>
                 <label className="text-sm font-medium text-gray-700">
                   Amount (LKR)
@@ -197,6 +323,23 @@ export default function Home() {
                   className="mt-1 w-full rounded-lg border border-gray-200 p-2 uppercase"
                 />
               </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">
+                  Payment Mode
+                </label>
+                <select
+                  name="paymentMode"
+                  value={form.paymentMode}
+                  onChange={handleInputChange}
+                  className="mt-1 w-full rounded-lg border border-gray-200 p-2"
+                >
+                  <option value="">Default (MPGS_PAYMENT_MODE)</option>
+                  <option value="PURCHASE">Purchase (charge now)</option>
+                  <option value="AUTHORIZE">
+                    Authorize (capture after shipment)
+                  </option>
+                </select>
+              </div>
             </div>
 
             <div>
@@ -292,7 +435,7 @@ export default function Home() {
             </div>
 
             <div className="grid gap-6 md:grid-cols-3">
-              <div>
+              <div className="relative">
                 <label className="text-sm font-medium text-gray-700">
                   Delivery City / Location
                 </label>
@@ -300,9 +443,60 @@ export default function Home() {
                   type="text"
                   name="location"
                   value={form.location}
-                  onChange={handleInputChange}
+                  onChange={(event) => {
+                    handleInputChange(event);
+                    setShowSuggestions(true);
+                  }}
+                  onFocus={() => setShowSuggestions(true)}
+                  onBlur={() => setShowSuggestions(false)}
+                  autoComplete="off"
                   className="mt-1 w-full rounded-lg border border-gray-200 p-2"
                 />
+                {showSuggestions && suggestions.length > 0 && (
+                  <ul className="absolute z-10 mt-1 max-h-64 w-full overflow-auto rounded-lg border border-gray-200 bg-white shadow">
+                    {suggestions.map((suggestion) => (
+                      <li
+                        key={`${suggestion.name}-${suggestion.district}-${suggestion.kind}`}
+                        // mousedown fires before the input's blur hides the list
+                        onMouseDown={(event) => {
+                          event.preventDefault();
+                          selectLocation(suggestion);
+                        }}
+                        className="cursor-pointer px-3 py-2 text-sm hover:bg-slate-50"
+                      >
+                        <span className="font-medium text-gray-900">
+                          {suggestion.name}
+                        </span>
+                        {suggestion.kind === "DISTRICT" ? (
+                          <span className="text-gray-500"> district</span>
+                        ) : (
+                          suggestion.district &&
+                          suggestion.district !== suggestion.name && (
+                            <span className="text-gray-500">
+                              , {suggestion.district}
+                            </span>
+                          )
+                        )}
+                        <span className="block text-xs text-gray-500">
+                          {formatSuggestion(suggestion)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p
+                  className={`mt-1 text-xs ${
+                    selectedLocation || !form.location
+                      ? "text-gray-500"
+                      : "text-amber-700"
+                  }`}
+                >
+                  {selectedLocation
+                    ? formatSuggestion(selectedLocation)
+                    : form.location
+                      ? "Pick a suggestion so the delivery zone is known"
+                      : ""}
+                </p>
               </div>
               <div>
                 <label className="text-sm font-medium text-gray-700">
@@ -332,6 +526,47 @@ export default function Home() {
               </div>
             </div>
 
+            <div className="flex flex-col gap-2 md:flex-row md:items-center">
+              <button
+                type="button"
+                onClick={requestQuote}
+                disabled={quoteLoading || !form.location || !form.weight}
+                className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {quoteLoading ? "Getting quote..." : "Get Delivery Quote"}
+              </button>
+              <p className="text-sm text-gray-600">
+                {quote
+                  ? `Delivery ${quote.currency} ${quote.cost.toFixed(2)} (${
+                      quote.source === "RATE_CARD" ? "rate card" : "live"
+                    }), valid until ${new Date(
+                      quote.expiresAt
+                    ).toLocaleTimeString()}. This fee is charged on the session.`
+                  : "Without a quote the delivery fee is priced when the session is created."}
+              </p>
+            </div>
+            {quote?.resolvedLocation && (
+              <p
+                className={`text-sm ${
+                  quote.resolvedLocation.lowConfidence
+                    ? "text-amber-700"
+                    : "text-gray-600"
+                }`}
+              >
+                {quote.resolvedLocation.lowConfidence
+                  ? "Not sure about this location: "
+                  : "Delivering to "}
+                {quote.resolvedLocation.name}
+                {quote.resolvedLocation.district &&
+                quote.resolvedLocation.district !== quote.resolvedLocation.name
+                  ? `, ${quote.resolvedLocation.district} district`
+                  : ""}{" "}
+                ({quote.resolvedLocation.zone})
+                {quote.resolvedLocation.lowConfidence &&
+                  ". Check the spelling or enter a nearby town."}
+              </p>
+            )}
+
             <div className="grid gap-6 md:grid-cols-3">
               <label className="flex items-center space-x-2 text-sm text-gray-700">
                 <input
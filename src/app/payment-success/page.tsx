@@ -0,0 +1,220 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { Suspense, useCallback, useEffect, useState } from "react";
+
+interface PaymentResult {
+  orderId: string;
+  sessionId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  indicatorMatches: boolean;
+  paymentStatus: string;
+  gateway: {
+    verdict: "PAID" | "NOT_PAID" | "IN_PROGRESS";
+    gatewayStatus: string | null;
+    gatewayAmount: number | null;
+    gatewayCurrency: string | null;
+    mismatches: string[];
+  } | null;
+  gatewayError: string | null;
+  shipment: {
+    trackingNumber: string | null;
+    status: string | null;
+    cost: number | null;
+  };
+}
+
+function describeOutcome(result: PaymentResult) {
+  if (result.gateway?.mismatches.length) {
+    return {
+      title: "Payment under review",
+      tone: "amber",
+      message:
+        "We received your payment but some details did not match. Our team will review the order shortly.",
+    };
+  }
+  if (result.gateway?.verdict === "PAID") {
+    return {
+      title: "Payment successful",
+      tone: "green",
+      message: "Thank you! Your payment has been confirmed.",
+    };
+  }
+  if (result.gateway?.verdict === "IN_PROGRESS" || !result.gateway) {
+    return {
+      title: "Payment pending",
+      tone: "amber",
+      message:
+        "We have not received a final answer from the payment gateway yet. Refresh in a moment.",
+    };
+  }
+  return {
+    title: "Payment not completed",
+    tone: "red",
+    message:
+      "The payment was not approved. No money has been taken for this order.",
+  };
+}
+
+const toneClasses: Record<string, string> = {
+  green: "border-green-200 bg-green-50 text-green-700",
+  amber: "border-amber-200 bg-amber-50 text-amber-800",
+  red: "border-red-200 bg-red-50 text-red-700",
+};
+
+const PaymentSuccessContent = () => {
+  const searchParams = useSearchParams();
+  const orderId = searchParams.get("orderId") || "";
+  const resultIndicator = searchParams.get("resultIndicator") || "";
+
+  const [result, setResult] = useState<PaymentResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadResult = useCallback(async () => {
+    if (!orderId) {
+      setError("Missing orderId in the return URL.");
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ orderId });
+      if (resultIndicator) {
+        params.set("resultIndicator", resultIndicator);
+      }
+      const response = await fetch(`/api/payments/return?${params}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(
+          data?.error?.message || "Unable to verify the payment result"
+        );
+      }
+      setResult(data.data);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId, resultIndicator]);
+
+  useEffect(() => {
+    loadResult();
+  }, [loadResult]);
+
+  const outcome = result ? describeOutcome(result) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10">
+      <div className="mx-auto max-w-3xl space-y-6 px-4">
+        <section className="rounded-2xl bg-white p-6 shadow">
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-semibold text-gray-900">
+              {outcome ? outcome.title : "Checking payment..."}
+            </h1>
+            <button
+              onClick={loadResult}
+              disabled={loading}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {loading ? "Refreshing..." : "Refresh"}
+            </button>
+          </div>
+          <p className="mt-2 text-sm text-gray-600">Order {orderId || "—"}</p>
+
+          {error && (
+            <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+          {outcome && (
+            <div
+              className={`mt-4 rounded-lg border p-3 text-sm ${toneClasses[outcome.tone]}`}
+            >
+              {outcome.message}
+            </div>
+          )}
+          {result && !result.indicatorMatches && (
+            <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              The result indicator returned by the gateway does not match this
+              order. The status below comes directly from MPGS.
+            </div>
+          )}
+          {result?.gatewayError && (
+            <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              Could not reach the payment gateway: {result.gatewayError}
+            </div>
+          )}
+        </section>
+
+        {result && (
+          <section className="rounded-2xl bg-white p-6 shadow">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Order Details
+            </h2>
+            <div className="mt-4 grid gap-4 text-sm text-gray-700 sm:grid-cols-2">
+              <div>
+                <p className="text-xs uppercase text-gray-500">
+                  Amount / Currency
+                </p>
+                <p className="font-medium">
+                  {result.amount} {result.currency}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500">Description</p>
+                <p className="font-medium">{result.description}</p>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500">
+                  Payment Status
+                </p>
+                <p className="font-medium">{result.paymentStatus}</p>
+                {result.gateway?.gatewayStatus ? (
+                  <p className="text-xs text-gray-500">
+                    Gateway: {result.gateway.gatewayStatus}
+                  </p>
+                ) : null}
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500">Shipment</p>
+                <p className="font-medium">
+                  {result.shipment.trackingNumber || "Not created yet"}
+                </p>
+                {result.shipment.status ? (
+                  <p className="text-xs text-gray-500">
+                    {result.shipment.status}
+                  </p>
+                ) : null}
+              </div>
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const PaymentSuccessPage = () => {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-gray-50 py-10">
+          <div className="mx-auto max-w-2xl rounded-2xl bg-white p-8 shadow">
+            <h1 className="text-xl font-semibold text-gray-900">Loading...</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              Verifying your payment.
+            </p>
+          </div>
+        </div>
+      }
+    >
+      <PaymentSuccessContent />
+    </Suspense>
+  );
+};
+
+export default PaymentSuccessPage;
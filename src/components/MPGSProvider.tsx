@@ -29,6 +29,11 @@ interface MPGSContextType {
   showPaymentPage: () => void;
 }
 
+// Point at /api/mock-mpgs/checkout/version/61/checkout.js to test offline.
+const MPGS_CHECKOUT_SRC =
+  process.env.NEXT_PUBLIC_MPGS_CHECKOUT_SRC ||
+  "https://cbcmpgs.gateway.mastercard.com/checkout/version/61/checkout.js";
+
 const MPGSContext = createContext<MPGSContextType | null>(null);
 
 export const useMPGS = () => {
@@ -124,7 +129,7 @@ export const MPGSProvider = ({ children }: MPGSProviderProps) => {
   return (
     <MPGSContext.Provider value={contextValue}>
       <Script
-        src="https://cbcmpgs.gateway.mastercard.com/checkout/version/61/checkout.js"
+        src={MPGS_CHECKOUT_SRC}
         data-error="errorCallback"
         data-cancel="cancelCallback"
         onLoad={handleScriptLoad}
@@ -0,0 +1,28 @@
+/**
+ * Next.js instrumentation hook: starts background jobs in the Node.js
+ * runtime during local development.
+ */
+export async function register() {
+  if (
+    process.env.NEXT_RUNTIME !== "nodejs" ||
+    process.env.NODE_ENV !== "development"
+  ) {
+    return;
+  }
+
+  const { startPaymentSessionSweeper } = await import(
+    "@/lib/paymentSessionSweeper"
+  );
+  startPaymentSessionSweeper();
+
+  const { startShipmentJobWorker } = await import("@/lib/shipmentJobs");
+  startShipmentJobWorker();
+
+  const { startShipmentTrackingPoller } = await import(
+    "@/lib/shipmentTracking"
+  );
+  startShipmentTrackingPoller();
+
+  const { startRateCardRefresher } = await import("@/lib/prontoRateCards");
+  startRateCardRefresher();
+}
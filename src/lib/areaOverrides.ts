@@ -0,0 +1,190 @@
+import {
+  normalizeLocation,
+  PRONTO_ZONES,
+  resolveLocation,
+  searchLocations,
+  UnknownLocationError,
+  type LocationMatch,
+} from "@/lib/gazetteer";
+import {
+  listAreaOverrides,
+  type ProntoAreaOverrideRecord,
+} from "@/lib/repositories/prontoAreaOverrides";
+import { listSessionLocations } from "@/lib/repositories/paymentSessions";
+
+/**
+ * Admin-managed area codes, checked before the gazetteer so that a suburb
+ * Pronto reclassifies can be re-coded without a deploy.
+ *
+ * An override applies when the location text is the overridden location,
+ * or when the gazetteer resolves the location to the overridden place
+ * ("12 Temple Rd, Malabe" follows an override for "Malabe").
+ */
+
+export type AreaOverrideMap = Map<string, Pick<
+  ProntoAreaOverrideRecord,
+  "location" | "areaCode"
+>>;
+
+export interface AreaOverrideDraft {
+  location: string;
+  areaCode: string | null;
+}
+
+export interface AreaRecodingPreview {
+  location: string;
+  sessions: number;
+  currentAreaCode: string | null;
+  proposedAreaCode: string | null;
+  proposedZone: string | null;
+  matchedPlace: string | null;
+  override: string | null;
+  changed: boolean;
+}
+
+export function getLocationKey(location: string): string {
+  return normalizeLocation(location);
+}
+
+export async function loadAreaOverrides(): Promise<AreaOverrideMap> {
+  const overrides = await listAreaOverrides();
+  return new Map(
+    overrides.map((override) => [override.locationKey, override])
+  );
+}
+
+/**
+ * Gazetteer match for a location with overrides applied, or null when
+ * neither knows the location.
+ */
+export function applyAreaOverrides(
+  location: string,
+  overrides: AreaOverrideMap
+): LocationMatch | null {
+  const match = resolveLocation(location);
+  const exact = overrides.get(getLocationKey(location));
+  if (exact) {
+    return {
+      query: location,
+      place: match?.place ?? {
+        name: exact.location,
+        kind: "CUSTOM",
+        district: null,
+        province: null,
+        postalCode: null,
+        areaCode: exact.areaCode,
+      },
+      areaCode: exact.areaCode,
+      zone: PRONTO_ZONES[exact.areaCode] ?? "UNKNOWN",
+      confidence: 1,
+      matchedOn: { type: "OVERRIDE", term: exact.location },
+      lowConfidence: false,
+      override: {
+        location: exact.location,
+        builtInAreaCode: match?.place.areaCode ?? null,
+      },
+    };
+  }
+
+  return match && applyPlaceOverride(match, overrides);
+}
+
+// Re-code a gazetteer match when its place has an override.
+function applyPlaceOverride(
+  match: LocationMatch,
+  overrides: AreaOverrideMap
+): LocationMatch {
+  const override = overrides.get(getLocationKey(match.place.name));
+  if (!override) {
+    return match;
+  }
+  return {
+    ...match,
+    areaCode: override.areaCode,
+    zone: PRONTO_ZONES[override.areaCode] ?? "UNKNOWN",
+    override: {
+      location: override.location,
+      builtInAreaCode: match.place.areaCode,
+    },
+  };
+}
+
+/**
+ * Resolve a delivery location against the stored overrides and then the
+ * gazetteer. Throws UnknownLocationError when nothing matches.
+ */
+export async function resolveDeliveryArea(
+  location: string
+): Promise<LocationMatch> {
+  const match = applyAreaOverrides(location, await loadAreaOverrides());
+  if (!match) {
+    throw new UnknownLocationError(location);
+  }
+  return match;
+}
+
+/**
+ * Autocomplete suggestions with overrides applied. Overridden locations
+ * that start with the query are suggested first.
+ */
+export async function searchDeliveryAreas(
+  query: string,
+  limit = 10
+): Promise<LocationMatch[]> {
+  const overrides = await loadAreaOverrides();
+  const queryKey = getLocationKey(query);
+  const overridden = [...overrides.entries()]
+    .filter(([key]) => queryKey && key.startsWith(queryKey))
+    .map(([, override]) => applyAreaOverrides(override.location, overrides));
+  const suggestions = searchLocations(query, limit).map((match) =>
+    applyPlaceOverride(match, overrides)
+  );
+
+  const seen = new Set<string>();
+  return [...overridden, ...suggestions]
+    .filter((match): match is LocationMatch => {
+      const key =
+        match &&
+        `${match.place.name}|${match.place.district}|${match.areaCode}`;
+      if (!key || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+}
+
+/**
+ * How the `location` of every existing session would be coded with the
+ * stored overrides plus `drafts` (an `areaCode` of null removes that
+ * override). Nothing is saved.
+ */
+export async function previewAreaRecoding(
+  drafts: AreaOverrideDraft[] = []
+): Promise<AreaRecodingPreview[]> {
+  const overrides = await loadAreaOverrides();
+  for (const draft of drafts) {
+    const key = getLocationKey(draft.location);
+    if (draft.areaCode) {
+      overrides.set(key, { location: draft.location, areaCode: draft.areaCode });
+    } else {
+      overrides.delete(key);
+    }
+  }
+
+  const locations = await listSessionLocations();
+  return locations.map((entry) => {
+    const match = applyAreaOverrides(entry.location, overrides);
+    return {
+      location: entry.location,
+      sessions: entry.sessions,
+      currentAreaCode: entry.areaCode,
+      proposedAreaCode: match?.areaCode ?? null,
+      proposedZone: match?.zone ?? null,
+      matchedPlace: match?.place.name ?? null,
+      override: match?.override?.location ?? null,
+      changed: (match?.areaCode ?? null) !== entry.areaCode,
+    };
+  });
+}
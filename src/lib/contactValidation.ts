@@ -0,0 +1,179 @@
+/**
+ * Sri Lankan phone number and address checks for shipment parties.
+ *
+ * Pronto rejects malformed contact details only when the shipment is
+ * inserted, which happens after payment. These checks run in the request
+ * schemas so bad input is refused when the session is created.
+ */
+
+export type PhoneNumberType = "MOBILE" | "LANDLINE";
+
+export interface NormalizedPhoneNumber {
+  // Local 10-digit form, e.g. 0771234567
+  national: string;
+  // E.164 form, e.g. +94771234567
+  international: string;
+  type: PhoneNumberType;
+  // Mobile operator prefix (77) or landline area code (11)
+  prefix: string;
+}
+
+export type PhoneValidationResult =
+  | { valid: true; phone: NormalizedPhoneNumber }
+  | { valid: false; reason: string };
+
+export type AddressValidationResult =
+  | { valid: true; address: string }
+  | { valid: false; reason: string };
+
+// 07X prefixes in use by Sri Lankan mobile operators.
+const MOBILE_PREFIXES = new Set(["70", "71", "72", "74", "75", "76", "77", "78"]);
+
+// Fixed-line area codes (0XX) by exchange region.
+const LANDLINE_AREA_CODES = new Set([
+  "11", // Colombo
+  "21", // Jaffna
+  "23", // Mannar
+  "24", // Vavuniya
+  "25", // Anuradhapura
+  "26", // Trincomalee
+  "27", // Polonnaruwa
+  "31", // Negombo
+  "32", // Chilaw
+  "33", // Gampaha
+  "34", // Kalutara
+  "35", // Kegalle
+  "36", // Avissawella
+  "37", // Kurunegala
+  "38", // Panadura
+  "41", // Matara
+  "45", // Ratnapura
+  "47", // Hambantota
+  "51", // Hatton
+  "52", // Nuwara Eliya
+  "54", // Nawalapitiya
+  "55", // Badulla
+  "57", // Bandarawela
+  "63", // Ampara
+  "65", // Batticaloa
+  "66", // Matale
+  "67", // Kalmunai
+  "81", // Kandy
+  "91", // Galle
+]);
+
+const ADDRESS_MIN_LENGTH = 5;
+const ADDRESS_MAX_LENGTH = 255;
+const PLACEHOLDER_ADDRESS =
+  /^(n\/?a|none|nil|null|test|same|address|unknown|-+|\.+|x+)$/i;
+
+/**
+ * Normalize 07X, 0XX, +94, 0094 and 94 forms, with any spaces, dashes,
+ * dots or brackets, to the local 10-digit number and classify it.
+ */
+export function normalizeSriLankanPhone(input: string): PhoneValidationResult {
+  const compact = input.trim().replace(/[\s\-.()/]/g, "");
+  if (!/^\+?\d+$/.test(compact)) {
+    return {
+      valid: false,
+      reason: "Phone number may only contain digits, spaces, dashes and a leading +",
+    };
+  }
+
+  const digits = compact.replace(/^\+/, "");
+  let subscriber: string | null = null;
+  if (compact.startsWith("+")) {
+    subscriber = digits.startsWith("94") ? digits.slice(2) : null;
+  } else if (digits.startsWith("0094")) {
+    subscriber = digits.slice(4);
+  } else if (digits.startsWith("94") && digits.length === 11) {
+    subscriber = digits.slice(2);
+  } else if (digits.startsWith("0")) {
+    subscriber = digits.slice(1);
+  } else if (digits.length === 9) {
+    subscriber = digits;
+  }
+
+  if (subscriber === null) {
+    return {
+      valid: false,
+      reason: "Phone number must be a Sri Lankan number (07X..., 0XX... or +94...)",
+    };
+  }
+  if (subscriber.length !== 9) {
+    return {
+      valid: false,
+      reason: `Phone number must have 10 digits including the leading 0 (got ${
+        subscriber.length + 1
+      })`,
+    };
+  }
+
+  const prefix = subscriber.slice(0, 2);
+  const type: PhoneNumberType | null = MOBILE_PREFIXES.has(prefix)
+    ? "MOBILE"
+    : LANDLINE_AREA_CODES.has(prefix)
+      ? "LANDLINE"
+      : null;
+  if (!type) {
+    return {
+      valid: false,
+      reason: `0${prefix} is not a Sri Lankan mobile prefix or landline area code`,
+    };
+  }
+
+  return {
+    valid: true,
+    phone: {
+      national: `0${subscriber}`,
+      international: `+94${subscriber}`,
+      type,
+      prefix,
+    },
+  };
+}
+
+/**
+ * Tidy an address (whitespace, repeated separators) and check it has
+ * something a courier can use: at least two parts, one of them a word of
+ * three or more letters, and not a placeholder such as "N/A".
+ */
+export function normalizeAddress(input: string): AddressValidationResult {
+  const address = input
+    .replace(/\s*[\r\n]+\s*/g, ", ")
+    .replace(/\s+/g, " ")
+    .replace(/\s*,[\s,]*/g, ", ")
+    .replace(/^[,\s]+|[,\s]+$/g, "");
+
+  if (PLACEHOLDER_ADDRESS.test(address)) {
+    return { valid: false, reason: "Address is a placeholder, not an address" };
+  }
+  if (address.length < ADDRESS_MIN_LENGTH) {
+    return {
+      valid: false,
+      reason: `Address must be at least ${ADDRESS_MIN_LENGTH} characters`,
+    };
+  }
+  if (address.length > ADDRESS_MAX_LENGTH) {
+    return {
+      valid: false,
+      reason: `Address must be at most ${ADDRESS_MAX_LENGTH} characters`,
+    };
+  }
+
+  const parts = address.split(/[\s,]+/).filter(Boolean);
+  if (parts.length < 2) {
+    return {
+      valid: false,
+      reason: "Address needs more than one part (e.g. street and town)",
+    };
+  }
+  if (!parts.some((part) => /(?:\p{L}\p{M}*){3,}/u.test(part))) {
+    return {
+      valid: false,
+      reason: "Address must include a street, village or town name",
+    };
+  }
+
+  return { valid: true, address };
+}
@@ -62,6 +62,23 @@ function resolveDatabaseFile(): string {
 
 const DATABASE_FILE = resolveDatabaseFile();
 
+/**
+ * Add a column to an existing table when it is missing. `CREATE TABLE IF NOT
+ * EXISTS` never touches tables created by older versions of this file.
+ */
+function ensureColumn(
+  db: Database,
+  table: string,
+  column: string,
+  definition: string,
+) {
+  const info = db.exec(`PRAGMA table_info(${table})`);
+  const exists = info[0]?.values.some((row) => row[1] === column);
+  if (!exists) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 async function bootstrapDatabase(): Promise<SqliteContext> {
   const SQL = await initSqlJs({
     locateFile: (file) =>
@@ -108,16 +125,233 @@ async function bootstrapDatabase(): Promise<SqliteContext> {
       pronto_cost REAL,
       pronto_payload TEXT,
       pronto_response TEXT,
+      payment_mode TEXT NOT NULL DEFAULT 'PURCHASE',
+      tracking_polled_at TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
     );
   `);
 
+  ensureColumn(
+    db,
+    "payment_sessions",
+    "payment_mode",
+    "TEXT NOT NULL DEFAULT 'PURCHASE'",
+  );
+  ensureColumn(db, "payment_sessions", "tracking_polled_at", "TEXT");
+
   db.run(`
     CREATE INDEX IF NOT EXISTS idx_payment_sessions_order
     ON payment_sessions(order_id);
   `);
 
+  db.run(`
+    CREATE TABLE IF NOT EXISTS payment_refunds (
+      refund_id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      order_id TEXT NOT NULL,
+      amount REAL NOT NULL,
+      currency TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      status TEXT NOT NULL,
+      gateway_response TEXT,
+      created_at TEXT NOT NULL
+    );
+  `);
+
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_payment_refunds_session
+    ON payment_refunds(session_id);
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS webhook_events (
+      event_id TEXT PRIMARY KEY,
+      dedupe_key TEXT,
+      notification_id TEXT,
+      transaction_id TEXT,
+      session_id TEXT,
+      order_id TEXT,
+      headers TEXT NOT NULL,
+      raw_body TEXT NOT NULL,
+      outcome TEXT NOT NULL,
+      outcome_detail TEXT,
+      duplicate_of TEXT,
+      received_at TEXT NOT NULL,
+      processed_at TEXT
+    );
+  `);
+
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_webhook_events_dedupe
+    ON webhook_events(dedupe_key);
+  `);
+
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_webhook_events_session
+    ON webhook_events(session_id);
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS payment_transactions (
+      id TEXT PRIMARY KEY,
+      order_id TEXT NOT NULL,
+      session_id TEXT,
+      gateway_transaction_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      amount REAL NOT NULL,
+      currency TEXT NOT NULL,
+      status TEXT NOT NULL,
+      method TEXT NOT NULL,
+      card_brand TEXT,
+      card_last4 TEXT,
+      gateway_response TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE (order_id, gateway_transaction_id)
+    );
+  `);
+
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_payment_transactions_order
+    ON payment_transactions(order_id);
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS pronto_rate_cards (
+      customer_code TEXT PRIMARY KEY,
+      rates TEXT NOT NULL,
+      raw_structure TEXT NOT NULL,
+      fetched_at TEXT NOT NULL
+    );
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS shipping_quotes (
+      quote_id TEXT PRIMARY KEY,
+      customer_code TEXT NOT NULL,
+      location TEXT NOT NULL,
+      area_code TEXT NOT NULL,
+      weight REAL NOT NULL,
+      amount REAL NOT NULL,
+      currency TEXT NOT NULL,
+      source TEXT NOT NULL,
+      rate_card_fetched_at TEXT,
+      location_match TEXT,
+      created_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    );
+  `);
+
+  ensureColumn(db, "shipping_quotes", "location_match", "TEXT");
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS pronto_area_overrides (
+      location_key TEXT PRIMARY KEY,
+      location TEXT NOT NULL,
+      area_code TEXT NOT NULL,
+      note TEXT,
+      updated_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS pronto_area_override_audit (
+      audit_id TEXT PRIMARY KEY,
+      location_key TEXT NOT NULL,
+      location TEXT NOT NULL,
+      action TEXT NOT NULL,
+      previous_area_code TEXT,
+      area_code TEXT,
+      changed_by TEXT NOT NULL,
+      note TEXT,
+      changed_at TEXT NOT NULL
+    );
+  `);
+
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_pronto_area_override_audit_location
+    ON pronto_area_override_audit(location_key);
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS pronto_shipments (
+      shipment_id TEXT PRIMARY KEY,
+      order_id TEXT NOT NULL,
+      session_id TEXT,
+      customer_code TEXT NOT NULL,
+      tno_code TEXT NOT NULL,
+      tracking_number TEXT NOT NULL UNIQUE,
+      status TEXT NOT NULL,
+      area_code TEXT,
+      weight REAL,
+      cost REAL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      payload TEXT,
+      response TEXT,
+      reserved_at TEXT NOT NULL,
+      quoted_at TEXT,
+      insert_attempted_at TEXT,
+      inserted_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+  `);
+
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_pronto_shipments_order
+    ON pronto_shipments(order_id);
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS shipment_jobs (
+      job_id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL,
+      next_run_at TEXT NOT NULL,
+      last_error TEXT,
+      result TEXT,
+      cancel_reason TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      finished_at TEXT
+    );
+  `);
+
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_shipment_jobs_due
+    ON shipment_jobs(status, next_run_at);
+  `);
+
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_shipment_jobs_session
+    ON shipment_jobs(session_id);
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS shipment_events (
+      event_id TEXT PRIMARY KEY,
+      tracking_number TEXT NOT NULL,
+      session_id TEXT,
+      status TEXT NOT NULL,
+      status_date TEXT NOT NULL,
+      hub TEXT,
+      raw TEXT,
+      recorded_at TEXT NOT NULL,
+      UNIQUE (tracking_number, status, status_date)
+    );
+  `);
+
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_shipment_events_session
+    ON shipment_events(session_id);
+  `);
+
   return { SQL, db, filePath: DATABASE_FILE };
 }
 
@@ -149,6 +383,16 @@ export async function runWrite<T>(fn: (db: Database) => T): Promise<T> {
 
 export async function resetDatabase(): Promise<void> {
   const ctx = await getContext();
+  ctx.db.run("DELETE FROM shipment_events");
+  ctx.db.run("DELETE FROM shipment_jobs");
+  ctx.db.run("DELETE FROM pronto_shipments");
+  ctx.db.run("DELETE FROM pronto_area_override_audit");
+  ctx.db.run("DELETE FROM pronto_area_overrides");
+  ctx.db.run("DELETE FROM shipping_quotes");
+  ctx.db.run("DELETE FROM pronto_rate_cards");
+  ctx.db.run("DELETE FROM payment_transactions");
+  ctx.db.run("DELETE FROM webhook_events");
+  ctx.db.run("DELETE FROM payment_refunds");
   ctx.db.run("DELETE FROM payment_sessions");
   persist(ctx);
 }
@@ -0,0 +1,574 @@
+import {
+  GAZETTEER_DISTRICTS,
+  GAZETTEER_SPECIAL_AREAS,
+  type GazetteerPlaceInput,
+} from "@/lib/gazetteerData";
+
+/**
+ * Resolves free-text delivery locations to Pronto area codes.
+ *
+ * A location can be a town, DS division, district, postal code or a full
+ * address, in English, Sinhala or Tamil. Exact names score 1, aliases 0.95
+ * and misspellings are matched on a phonetic key with an edit-distance
+ * score. Anything below LOW_CONFIDENCE_THRESHOLD is returned with
+ * `lowConfidence: true` so callers can ask the customer to confirm instead
+ * of guessing an area.
+ */
+
+export const PRONTO_ZONES: Record<string, string> = {
+  "1": "CITY",
+  "2": "GREATER CITY",
+  "3": "OUTSTATION",
+  "4": "HIGH SECURITY",
+  "5": "SPECIAL AREA",
+};
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.85;
+
+// CUSTOM places exist only as admin area overrides (see areaOverrides.ts).
+export type PlaceKind =
+  | "DISTRICT"
+  | "DS_DIVISION"
+  | "TOWN"
+  | "SPECIAL_AREA"
+  | "CUSTOM";
+
+export type LocationMatchType =
+  | "POSTAL_CODE"
+  | "POSTAL_PREFIX"
+  | "NAME"
+  | "ALIAS"
+  | "NATIVE_NAME"
+  | "FUZZY"
+  | "OVERRIDE";
+
+export interface GazetteerPlace {
+  name: string;
+  kind: PlaceKind;
+  district: string | null;
+  province: string | null;
+  postalCode: string | null;
+  areaCode: string;
+}
+
+export interface LocationMatch {
+  query: string;
+  place: GazetteerPlace;
+  areaCode: string;
+  zone: string;
+  confidence: number;
+  matchedOn: { type: LocationMatchType; term: string };
+  lowConfidence: boolean;
+  // Set when an admin override replaced the gazetteer's area code
+  override?: { location: string; builtInAreaCode: string | null } | null;
+}
+
+/**
+ * Raised when a location does not match any place in the gazetteer.
+ */
+export class UnknownLocationError extends Error {
+  readonly location: string;
+
+  constructor(location: string) {
+    super(
+      `Could not resolve "${location}" to a Sri Lankan town, district or postal code`
+    );
+    this.name = "UnknownLocationError";
+    this.location = location;
+  }
+}
+
+/**
+ * Raised when a location only matched with low confidence and the caller
+ * cannot ask the customer to confirm it. `candidates` are the best
+ * suggestions for the customer to pick from.
+ */
+export class AmbiguousLocationError extends Error {
+  readonly location: string;
+  readonly candidates: LocationMatch[];
+
+  constructor(location: string, candidates: LocationMatch[]) {
+    super(
+      `"${location}" could not be matched with confidence; choose one of the suggested locations`
+    );
+    this.name = "AmbiguousLocationError";
+    this.location = location;
+    this.candidates = candidates;
+  }
+}
+
+interface IndexEntry {
+  key: string;
+  fuzzyKey: string;
+  place: GazetteerPlace;
+  type: "NAME" | "ALIAS" | "NATIVE_NAME";
+  term: string;
+}
+
+interface Candidate {
+  entry: IndexEntry;
+  phrase: string;
+  words: number;
+  confidence: number;
+  type: LocationMatchType;
+}
+
+const MATCH_TYPE_CONFIDENCE = { NAME: 1, ALIAS: 0.95, NATIVE_NAME: 1 };
+// Applied when the place is only part of a longer address
+const PARTIAL_MATCH_FACTOR = 0.9;
+const FUZZY_MATCH_FACTOR = 0.9;
+const MIN_FUZZY_SIMILARITY = 0.75;
+const MIN_FUZZY_LENGTH = 4;
+const MAX_PHRASE_WORDS = 4;
+const POSTAL_PREFIX_CONFIDENCE = 0.7;
+const POSTAL_NEAREST_CONFIDENCE = 0.8;
+
+const KIND_RANK: Record<PlaceKind, number> = {
+  CUSTOM: 4,
+  SPECIAL_AREA: 3,
+  TOWN: 2,
+  DS_DIVISION: 1,
+  DISTRICT: 0,
+};
+
+// "Kandy Road, Kadawatha" is in Kadawatha, not Kandy.
+const STREET_WORDS = new Set([
+  "road",
+  "rd",
+  "street",
+  "st",
+  "mawatha",
+  "mw",
+  "lane",
+  "avenue",
+  "ave",
+  "place",
+  "pl",
+  "junction",
+]);
+
+/**
+ * Lowercase, strip Latin accents, punctuation and zero-width joiners, split
+ * letters from digits and drop leading zeros ("Colombo-07" -> "colombo 7").
+ */
+export function normalizeLocation(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f\u200c\u200d]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+    .replace(/(\p{L})(\d)/gu, "$1 $2")
+    .replace(/(\d)(\p{L})/gu, "$1 $2")
+    .replace(/\b0+(\d)/g, "$1")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+// Spelling-insensitive key: common romanisation variants collapse together
+// ("Thissamaharama"/"Tissamaharama", "Wellawatte"/"Vellavatte").
+function fuzzyKey(normalized: string): string {
+  return normalized
+    .replace(/\s+/g, "")
+    .replace(/th/g, "t")
+    .replace(/dh/g, "d")
+    .replace(/w/g, "v")
+    .replace(/y/g, "i")
+    .replace(/ee/g, "i")
+    .replace(/oo/g, "u")
+    .replace(/(.)\1+/gu, "$1");
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+function roundConfidence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+interface Gazetteer {
+  entries: IndexEntry[];
+  byKey: Map<string, IndexEntry[]>;
+  byPostalCode: Map<string, GazetteerPlace>;
+  byPostalPrefix: Map<string, GazetteerPlace>;
+}
+
+let gazetteer: Gazetteer | null = null;
+
+function buildGazetteer(): Gazetteer {
+  const entries: IndexEntry[] = [];
+  const byKey = new Map<string, IndexEntry[]>();
+  const byPostalCode = new Map<string, GazetteerPlace>();
+  const byPostalPrefix = new Map<string, GazetteerPlace>();
+
+  const addTerm = (
+    place: GazetteerPlace,
+    term: string | undefined,
+    type: IndexEntry["type"]
+  ) => {
+    const key = term ? normalizeLocation(term) : "";
+    if (!key) {
+      return;
+    }
+    const existing = byKey.get(key) ?? [];
+    if (existing.some((entry) => entry.place === place)) {
+      return;
+    }
+    const entry = { key, fuzzyKey: fuzzyKey(key), place, type, term: term! };
+    existing.push(entry);
+    byKey.set(key, existing);
+    entries.push(entry);
+  };
+
+  const addPlace = (
+    input: GazetteerPlaceInput,
+    kind: PlaceKind,
+    district: string | null,
+    province: string | null,
+    defaultAreaCode: string
+  ) => {
+    const place: GazetteerPlace = {
+      name: input.name,
+      kind,
+      district,
+      province,
+      postalCode: input.postalCode ?? null,
+      areaCode: input.areaCode ?? defaultAreaCode,
+    };
+    addTerm(place, input.name, "NAME");
+    input.aliases?.forEach((alias) => addTerm(place, alias, "ALIAS"));
+    addTerm(place, input.sinhala, "NATIVE_NAME");
+    addTerm(place, input.tamil, "NATIVE_NAME");
+    if (input.postalCode) {
+      byPostalCode.set(input.postalCode, place);
+    }
+    return place;
+  };
+
+  for (const district of GAZETTEER_DISTRICTS) {
+    const districtPlace = addPlace(
+      {
+        name: district.name,
+        aliases: district.aliases,
+        sinhala: district.sinhala,
+        tamil: district.tamil,
+      },
+      "DISTRICT",
+      district.name,
+      district.province,
+      district.areaCode
+    );
+    district.postalPrefixes.forEach((prefix) =>
+      byPostalPrefix.set(prefix, districtPlace)
+    );
+    for (const division of district.dsDivisions) {
+      addPlace(
+        typeof division === "string" ? { name: division } : division,
+        "DS_DIVISION",
+        district.name,
+        district.province,
+        district.areaCode
+      );
+    }
+    for (const town of district.towns) {
+      addPlace(town, "TOWN", district.name, district.province, district.areaCode);
+    }
+  }
+
+  for (const area of GAZETTEER_SPECIAL_AREAS) {
+    addPlace(area, "SPECIAL_AREA", null, null, area.areaCode ?? "5");
+  }
+
+  return { entries, byKey, byPostalCode, byPostalPrefix };
+}
+
+function getGazetteer(): Gazetteer {
+  gazetteer ??= buildGazetteer();
+  return gazetteer;
+}
+
+function toMatch(
+  query: string,
+  place: GazetteerPlace,
+  confidence: number,
+  type: LocationMatchType,
+  term: string
+): LocationMatch {
+  const rounded = roundConfidence(confidence);
+  return {
+    query,
+    place,
+    areaCode: place.areaCode,
+    zone: PRONTO_ZONES[place.areaCode] ?? "UNKNOWN",
+    confidence: rounded,
+    matchedOn: { type, term },
+    lowConfidence: rounded < LOW_CONFIDENCE_THRESHOLD,
+  };
+}
+
+/**
+ * Five-digit postal codes: an exact code, else the known code sharing the
+ * longest prefix (at least three digits), else the district by its first
+ * two digits.
+ */
+function matchPostalCode(query: string): LocationMatch | null {
+  const code = query.match(/\b\d{5}\b/)?.[0];
+  if (!code) {
+    return null;
+  }
+  const { byPostalCode, byPostalPrefix } = getGazetteer();
+
+  const exact = byPostalCode.get(code);
+  if (exact) {
+    return toMatch(query, exact, 1, "POSTAL_CODE", code);
+  }
+
+  for (let length = 4; length >= 3; length--) {
+    const prefix = code.slice(0, length);
+    for (const [known, place] of byPostalCode) {
+      if (known.startsWith(prefix)) {
+        return toMatch(
+          query,
+          place,
+          POSTAL_NEAREST_CONFIDENCE,
+          "POSTAL_PREFIX",
+          known
+        );
+      }
+    }
+  }
+
+  const district = byPostalPrefix.get(code.slice(0, 2));
+  return district
+    ? toMatch(query, district, POSTAL_PREFIX_CONFIDENCE, "POSTAL_PREFIX", code)
+    : null;
+}
+
+// Every run of up to MAX_PHRASE_WORDS words that is not a street name and
+// is not just a number.
+function phrases(normalized: string): Array<{ text: string; words: number }> {
+  const words = normalized.split(" ").filter(Boolean);
+  const result: Array<{ text: string; words: number }> = [];
+  for (let start = 0; start < words.length; start++) {
+    for (
+      let end = start + 1;
+      end <= Math.min(words.length, start + MAX_PHRASE_WORDS);
+      end++
+    ) {
+      const slice = words.slice(start, end);
+      if (slice.every((word) => /^\d+$/.test(word))) {
+        continue;
+      }
+      if (STREET_WORDS.has(words[end] ?? "")) {
+        continue;
+      }
+      result.push({ text: slice.join(" "), words: slice.length });
+    }
+  }
+  return result;
+}
+
+function findCandidates(normalized: string): Candidate[] {
+  const { byKey, entries } = getGazetteer();
+  const candidates: Candidate[] = [];
+
+  for (const phrase of phrases(normalized)) {
+    const whole = phrase.text === normalized ? 1 : PARTIAL_MATCH_FACTOR;
+    const exact = byKey.get(phrase.text);
+    if (exact) {
+      exact.forEach((entry) =>
+        candidates.push({
+          entry,
+          phrase: phrase.text,
+          words: phrase.words,
+          confidence: MATCH_TYPE_CONFIDENCE[entry.type] * whole,
+          type: entry.type,
+        })
+      );
+      continue;
+    }
+
+    const phraseKey = fuzzyKey(phrase.text);
+    if (phraseKey.length < MIN_FUZZY_LENGTH) {
+      continue;
+    }
+    for (const entry of entries) {
+      if (Math.abs(entry.fuzzyKey.length - phraseKey.length) > 2) {
+        continue;
+      }
+      const score = similarity(phraseKey, entry.fuzzyKey);
+      if (score >= MIN_FUZZY_SIMILARITY) {
+        candidates.push({
+          entry,
+          phrase: phrase.text,
+          words: phrase.words,
+          confidence: score * FUZZY_MATCH_FACTOR * whole,
+          type: "FUZZY",
+        });
+      }
+    }
+  }
+
+  return candidates;
+}
+
+// Higher confidence first; then the longer phrase ("Colombo 7" over
+// "Colombo"), the more specific place, and a locality over a place named
+// after its district ("Nugegoda, Colombo" is Nugegoda).
+function compareCandidates(a: Candidate, b: Candidate): number {
+  return (
+    b.confidence - a.confidence ||
+    b.words - a.words ||
+    KIND_RANK[b.entry.place.kind] - KIND_RANK[a.entry.place.kind] ||
+    Number(a.entry.place.name === a.entry.place.district) -
+      Number(b.entry.place.name === b.entry.place.district)
+  );
+}
+
+function rankCandidates(normalized: string): Candidate[] {
+  const best = new Map<GazetteerPlace, Candidate>();
+  for (const candidate of findCandidates(normalized)) {
+    const current = best.get(candidate.entry.place);
+    if (!current || compareCandidates(candidate, current) < 0) {
+      best.set(candidate.entry.place, candidate);
+    }
+  }
+  return [...best.values()].sort(compareCandidates);
+}
+
+/**
+ * Best gazetteer match for a location, or null when nothing is close.
+ * Postal codes take precedence over names. When two matches that nothing
+ * tells apart disagree on the area code the result is flagged as low
+ * confidence.
+ */
+export function resolveLocation(query: string): LocationMatch | null {
+  const postal = matchPostalCode(query);
+  if (postal && !postal.lowConfidence) {
+    return postal;
+  }
+
+  const normalized = normalizeLocation(query);
+  const [best, runnerUp] = normalized ? rankCandidates(normalized) : [];
+  if (!best) {
+    return postal;
+  }
+
+  let confidence = best.confidence;
+  if (
+    runnerUp &&
+    runnerUp.entry.place.areaCode !== best.entry.place.areaCode &&
+    compareCandidates(best, runnerUp) === 0
+  ) {
+    confidence *= PARTIAL_MATCH_FACTOR;
+  }
+
+  if (postal && postal.confidence > confidence) {
+    return postal;
+  }
+  return toMatch(
+    query,
+    best.entry.place,
+    confidence,
+    best.type,
+    best.entry.term
+  );
+}
+
+/**
+ * Places whose name, alias or postal code starts with the query, plus
+ * fuzzy matches for misspellings, best first. Used for autocomplete, so a
+ * place appears once even when several of its names match.
+ */
+export function searchLocations(query: string, limit = 10): LocationMatch[] {
+  const normalized = normalizeLocation(query);
+  if (!normalized) {
+    return [];
+  }
+  const { entries, byPostalCode } = getGazetteer();
+  const results = new Map<GazetteerPlace, LocationMatch>();
+  const add = (
+    place: GazetteerPlace,
+    confidence: number,
+    type: LocationMatchType,
+    term: string
+  ) => {
+    const current = results.get(place);
+    if (!current || confidence > current.confidence) {
+      results.set(place, toMatch(query, place, confidence, type, term));
+    }
+  };
+
+  const digits = query.trim();
+  if (/^\d{2,5}$/.test(digits)) {
+    for (const [code, place] of byPostalCode) {
+      if (code.startsWith(digits)) {
+        add(place, 0.6 + 0.08 * digits.length, "POSTAL_CODE", code);
+      }
+    }
+  }
+
+  for (const entry of entries) {
+    const wordStart = entry.key.startsWith(normalized)
+      ? 1
+      : entry.key.includes(` ${normalized}`)
+        ? PARTIAL_MATCH_FACTOR
+        : 0;
+    if (wordStart > 0) {
+      const coverage = normalized.length / entry.key.length;
+      add(
+        entry.place,
+        MATCH_TYPE_CONFIDENCE[entry.type] * wordStart * (0.6 + 0.4 * coverage),
+        entry.type,
+        entry.term
+      );
+    }
+  }
+
+  for (const candidate of rankCandidates(normalized)) {
+    add(
+      candidate.entry.place,
+      candidate.confidence,
+      candidate.type,
+      candidate.entry.term
+    );
+  }
+
+  // A town and the DS division of the same name are one suggestion.
+  const seen = new Set<string>();
+  return [...results.values()]
+    .sort(
+      (a, b) =>
+        b.confidence - a.confidence ||
+        KIND_RANK[b.place.kind] - KIND_RANK[a.place.kind] ||
+        a.place.name.localeCompare(b.place.name)
+    )
+    .filter((match) => {
+      const key = `${match.place.name}|${match.place.district}|${match.areaCode}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+}
@@ -0,0 +1,1113 @@
+/**
+ * Sri Lankan places used to resolve delivery locations to Pronto area
+ * codes: the 25 districts with their Divisional Secretariat (DS) divisions
+ * and major towns. Postal codes are those of the main post office.
+ *
+ * A place inherits the area code of its district unless it sets its own:
+ * Colombo, Gampaha and Kalutara are GREATER CITY (2), the Colombo
+ * municipal area is CITY (1) and everything else is OUTSTATION (3).
+ */
+
+export interface GazetteerPlaceInput {
+  name: string;
+  postalCode?: string;
+  areaCode?: string;
+  aliases?: string[];
+  sinhala?: string;
+  tamil?: string;
+}
+
+export interface GazetteerDistrictInput {
+  name: string;
+  province: string;
+  areaCode: string;
+  sinhala: string;
+  tamil: string;
+  aliases?: string[];
+  // First two digits of the district's postal codes
+  postalPrefixes: string[];
+  dsDivisions: Array<string | GazetteerPlaceInput>;
+  towns: GazetteerPlaceInput[];
+}
+
+const CITY = "1";
+const GREATER_CITY = "2";
+const OUTSTATION = "3";
+
+export const GAZETTEER_DISTRICTS: GazetteerDistrictInput[] = [
+  {
+    name: "Colombo",
+    province: "Western",
+    areaCode: GREATER_CITY,
+    sinhala: "කොළඹ",
+    tamil: "கொழும்பு",
+    aliases: ["Kolamba", "Kolombo", "CMB"],
+    postalPrefixes: ["00", "01", "10"],
+    dsDivisions: [
+      { name: "Colombo", areaCode: CITY },
+      { name: "Thimbirigasyaya", areaCode: CITY, aliases: ["Timbirigasyaya"] },
+      { name: "Dehiwala", aliases: ["Dehiwala-Mount Lavinia"] },
+      "Homagama",
+      "Kaduwela",
+      "Kesbewa",
+      "Kolonnawa",
+      "Maharagama",
+      "Moratuwa",
+      "Padukka",
+      "Ratmalana",
+      { name: "Seethawaka", aliases: ["Sitawaka"] },
+      {
+        name: "Sri Jayawardenepura Kotte",
+        aliases: ["Kotte", "Sri Jayewardenepura Kotte"],
+        sinhala: "කෝට්ටේ",
+        tamil: "கோட்டை",
+      },
+    ],
+    towns: [
+      {
+        name: "Colombo",
+        areaCode: CITY,
+        sinhala: "කොළඹ",
+        tamil: "கொழும்பு",
+      },
+      {
+        name: "Colombo 01",
+        postalCode: "00100",
+        areaCode: CITY,
+        aliases: ["Fort", "Colombo Fort"],
+      },
+      {
+        name: "Colombo 02",
+        postalCode: "00200",
+        areaCode: CITY,
+        aliases: ["Slave Island", "Union Place"],
+      },
+      {
+        name: "Colombo 03",
+        postalCode: "00300",
+        areaCode: CITY,
+        aliases: ["Kollupitiya", "Kollupitiya Junction"],
+      },
+      {
+        name: "Colombo 04",
+        postalCode: "00400",
+        areaCode: CITY,
+        aliases: ["Bambalapitiya"],
+      },
+      {
+        name: "Colombo 05",
+        postalCode: "00500",
+        areaCode: CITY,
+        aliases: ["Havelock Town", "Narahenpita", "Kirulapone"],
+      },
+      {
+        name: "Colombo 06",
+        postalCode: "00600",
+        areaCode: CITY,
+        aliases: ["Wellawatte", "Wellawatta", "Pamankada"],
+      },
+      {
+        name: "Colombo 07",
+        postalCode: "00700",
+        areaCode: CITY,
+        aliases: ["Cinnamon Gardens", "Kurunduwatte"],
+      },
+      {
+        name: "Colombo 08",
+        postalCode: "00800",
+        areaCode: CITY,
+        aliases: ["Borella"],
+      },
+      {
+        name: "Colombo 09",
+        postalCode: "00900",
+        areaCode: CITY,
+        aliases: ["Dematagoda"],
+      },
+      {
+        name: "Colombo 10",
+        postalCode: "01000",
+        areaCode: CITY,
+        aliases: ["Maradana", "Panchikawatte"],
+      },
+      {
+        name: "Colombo 11",
+        postalCode: "01100",
+        areaCode: CITY,
+        aliases: ["Pettah"],
+      },
+      {
+        name: "Colombo 12",
+        postalCode: "01200",
+        areaCode: CITY,
+        aliases: ["Hulftsdorp", "Aluthkade"],
+      },
+      {
+        name: "Colombo 13",
+        postalCode: "01300",
+        areaCode: CITY,
+        aliases: ["Kotahena", "Kochchikade"],
+      },
+      {
+        name: "Colombo 14",
+        postalCode: "01400",
+        areaCode: CITY,
+        aliases: ["Grandpass"],
+      },
+      {
+        name: "Colombo 15",
+        postalCode: "01500",
+        areaCode: CITY,
+        aliases: ["Mutwal", "Modara", "Mattakkuliya"],
+      },
+      {
+        name: "Dehiwala",
+        postalCode: "10350",
+        aliases: ["Dehiwela"],
+        sinhala: "දෙහිවල",
+        tamil: "தெஹிவளை",
+      },
+      {
+        name: "Mount Lavinia",
+        postalCode: "10370",
+        aliases: ["Galkissa", "Mt Lavinia"],
+        sinhala: "ගල්කිස්ස",
+        tamil: "கல்கிசை",
+      },
+      { name: "Ratmalana", postalCode: "10390" },
+      {
+        name: "Moratuwa",
+        postalCode: "10400",
+        sinhala: "මොරටුව",
+        tamil: "மொரட்டுவை",
+      },
+      {
+        name: "Nugegoda",
+        postalCode: "10250",
+        sinhala: "නුගේගොඩ",
+        tamil: "நுகேகொடை",
+      },
+      { name: "Maharagama", postalCode: "10280", sinhala: "මහරගම" },
+      { name: "Kottawa", postalCode: "10230" },
+      { name: "Piliyandala", postalCode: "10300" },
+      { name: "Boralesgamuwa", postalCode: "10290" },
+      { name: "Homagama", postalCode: "10200", sinhala: "හෝමාගම" },
+      { name: "Kaduwela", postalCode: "10640" },
+      { name: "Malabe", postalCode: "10115" },
+      { name: "Athurugiriya", postalCode: "10150" },
+      {
+        name: "Battaramulla",
+        postalCode: "10120",
+        sinhala: "බත්තරමුල්ල",
+        tamil: "பத்தரமுல்லை",
+      },
+      { name: "Rajagiriya", postalCode: "10107" },
+      { name: "Kolonnawa", postalCode: "10600", aliases: ["Wellampitiya"] },
+      { name: "Avissawella", postalCode: "10700", aliases: ["Avissawela"] },
+      { name: "Padukka", postalCode: "10500" },
+    ],
+  },
+  {
+    name: "Gampaha",
+    province: "Western",
+    areaCode: GREATER_CITY,
+    sinhala: "ගම්පහ",
+    tamil: "கம்பஹா",
+    postalPrefixes: ["11"],
+    dsDivisions: [
+      "Attanagalla",
+      "Biyagama",
+      "Divulapitiya",
+      "Dompe",
+      "Gampaha",
+      { name: "Ja-Ela", aliases: ["Ja Ela", "Jaela"] },
+      "Katana",
+      "Kelaniya",
+      "Mahara",
+      "Minuwangoda",
+      "Mirigama",
+      "Negombo",
+      "Wattala",
+    ],
+    towns: [
+      { name: "Gampaha", postalCode: "11000", sinhala: "ගම්පහ" },
+      {
+        name: "Negombo",
+        postalCode: "11500",
+        aliases: ["Migamuwa"],
+        sinhala: "මීගමුව",
+        tamil: "நீர்கொழும்பு",
+      },
+      {
+        name: "Wattala",
+        postalCode: "11300",
+        sinhala: "වත්තල",
+        tamil: "வத்தளை",
+      },
+      { name: "Ja-Ela", postalCode: "11350", aliases: ["Ja Ela", "Jaela"] },
+      { name: "Kandana", postalCode: "11320" },
+      { name: "Kelaniya", postalCode: "11600", sinhala: "කැලණිය" },
+      { name: "Kiribathgoda" },
+      { name: "Peliyagoda" },
+      { name: "Kadawatha", postalCode: "11850" },
+      { name: "Ragama", postalCode: "11010" },
+      { name: "Minuwangoda", postalCode: "11550" },
+      { name: "Veyangoda", postalCode: "11100" },
+      { name: "Nittambuwa", postalCode: "11880" },
+      { name: "Mirigama", postalCode: "11200" },
+      { name: "Divulapitiya", postalCode: "11250" },
+      { name: "Katunayake", postalCode: "11450" },
+      { name: "Seeduwa", postalCode: "11410" },
+      { name: "Biyagama", postalCode: "11650" },
+      { name: "Delgoda" },
+      { name: "Ganemulla" },
+    ],
+  },
+  {
+    name: "Kalutara",
+    province: "Western",
+    areaCode: GREATER_CITY,
+    sinhala: "කළුතර",
+    tamil: "களுத்துறை",
+    aliases: ["Kaluthara"],
+    postalPrefixes: ["12"],
+    dsDivisions: [
+      "Agalawatta",
+      "Bandaragama",
+      "Beruwala",
+      "Bulathsinhala",
+      "Dodangoda",
+      "Horana",
+      "Ingiriya",
+      "Kalutara",
+      "Madurawela",
+      { name: "Mathugama", aliases: ["Matugama"] },
+      "Millaniya",
+      "Palindanuwara",
+      "Panadura",
+      "Walallavita",
+    ],
+    towns: [
+      { name: "Kalutara", postalCode: "12000", sinhala: "කළුතර" },
+      {
+        name: "Panadura",
+        postalCode: "12500",
+        aliases: ["Panadure"],
+        sinhala: "පානදුර",
+        tamil: "பாணந்துறை",
+      },
+      { name: "Horana", postalCode: "12400", sinhala: "හොරණ" },
+      { name: "Beruwala", postalCode: "12070", aliases: ["Beruwela"] },
+      { name: "Aluthgama", postalCode: "12080", aliases: ["Alutgama"] },
+      { name: "Mathugama", postalCode: "12100", aliases: ["Matugama"] },
+      { name: "Bandaragama", postalCode: "12530" },
+      { name: "Wadduwa", postalCode: "12560" },
+      { name: "Ingiriya", postalCode: "12440" },
+      { name: "Agalawatta", postalCode: "12200" },
+      { name: "Bulathsinhala", postalCode: "12300" },
+    ],
+  },
+  {
+    name: "Kandy",
+    province: "Central",
+    areaCode: OUTSTATION,
+    sinhala: "මහනුවර",
+    tamil: "கண்டி",
+    aliases: ["Mahanuwara", "Senkadagala", "Kandi"],
+    postalPrefixes: ["20"],
+    dsDivisions: [
+      "Akurana",
+      "Delthota",
+      "Doluwa",
+      "Ganga Ihala Korale",
+      "Gangawata Korale",
+      "Harispattuwa",
+      "Hatharaliyadda",
+      "Kundasale",
+      "Medadumbara",
+      "Minipe",
+      "Panvila",
+      "Pasbage Korale",
+      "Pathadumbara",
+      "Pathahewaheta",
+      "Poojapitiya",
+      "Thumpane",
+      "Udadumbara",
+      "Udapalatha",
+      "Udunuwara",
+      "Yatinuwara",
+    ],
+    towns: [
+      {
+        name: "Kandy",
+        postalCode: "20000",
+        aliases: ["Mahanuwara"],
+        sinhala: "මහනුවර",
+        tamil: "கண்டி",
+      },
+      {
+        name: "Peradeniya",
+        postalCode: "20400",
+        sinhala: "පේරාදෙණිය",
+        tamil: "பேராதனை",
+      },
+      { name: "Katugastota", postalCode: "20800" },
+      {
+        name: "Gampola",
+        postalCode: "20500",
+        sinhala: "ගම්පොළ",
+        tamil: "கம்பளை",
+      },
+      { name: "Nawalapitiya", postalCode: "20650" },
+      { name: "Kundasale", postalCode: "20168" },
+      { name: "Akurana", postalCode: "20850" },
+      { name: "Digana", postalCode: "20180" },
+      { name: "Pilimatalawa", postalCode: "20450" },
+      { name: "Kadugannawa", postalCode: "20300" },
+      { name: "Wattegama", postalCode: "20810" },
+      { name: "Galagedara", postalCode: "20100" },
+      { name: "Teldeniya" },
+    ],
+  },
+  {
+    name: "Matale",
+    province: "Central",
+    areaCode: OUTSTATION,
+    sinhala: "මාතලේ",
+    tamil: "மாத்தளை",
+    aliases: ["Mathale"],
+    postalPrefixes: ["21"],
+    dsDivisions: [
+      "Ambanganga Korale",
+      "Dambulla",
+      "Galewela",
+      "Laggala-Pallegama",
+      "Matale",
+      "Naula",
+      "Pallepola",
+      "Rattota",
+      "Ukuwela",
+      "Wilgamuwa",
+      "Yatawatta",
+    ],
+    towns: [
+      { name: "Matale", postalCode: "21000", sinhala: "මාතලේ" },
+      {
+        name: "Dambulla",
+        postalCode: "21100",
+        sinhala: "දඹුල්ල",
+        tamil: "தம்புள்ளை",
+      },
+      { name: "Galewela", postalCode: "21200" },
+      { name: "Ukuwela", postalCode: "21300" },
+      { name: "Rattota", postalCode: "21400" },
+      { name: "Naula", postalCode: "21090" },
+      { name: "Sigiriya" },
+    ],
+  },
+  {
+    name: "Nuwara Eliya",
+    province: "Central",
+    areaCode: OUTSTATION,
+    sinhala: "නුවරඑළිය",
+    tamil: "நுவரெலியா",
+    aliases: ["NuwaraEliya", "Nuwara-Eliya", "Nuwara Elia"],
+    postalPrefixes: ["22"],
+    dsDivisions: [
+      "Ambagamuwa",
+      "Hanguranketha",
+      { name: "Kothmale", aliases: ["Kotmale"] },
+      "Nuwara Eliya",
+      "Walapane",
+    ],
+    towns: [
+      { name: "Nuwara Eliya", postalCode: "22200", sinhala: "නුවරඑළිය" },
+      { name: "Hatton", postalCode: "22000", tamil: "ஹட்டன்" },
+      { name: "Talawakele", postalCode: "22100", aliases: ["Thalawakele"] },
+      { name: "Nanu Oya", postalCode: "22150" },
+      { name: "Maskeliya", postalCode: "22070" },
+      { name: "Walapane", postalCode: "22270" },
+      { name: "Ginigathhena", postalCode: "20680" },
+    ],
+  },
+  {
+    name: "Galle",
+    province: "Southern",
+    areaCode: OUTSTATION,
+    sinhala: "ගාල්ල",
+    tamil: "காலி",
+    aliases: ["Gaalla"],
+    postalPrefixes: ["80"],
+    dsDivisions: [
+      "Akmeemana",
+      "Ambalangoda",
+      "Baddegama",
+      "Balapitiya",
+      { name: "Benthota", aliases: ["Bentota"] },
+      "Bope-Poddala",
+      "Elpitiya",
+      { name: "Galle Four Gravets", aliases: ["Galle"] },
+      "Gonapinuwala",
+      "Habaraduwa",
+      "Hikkaduwa",
+      "Imaduwa",
+      "Karandeniya",
+      "Nagoda",
+      "Neluwa",
+      "Niyagama",
+      "Thawalama",
+      "Welivitiya-Divithura",
+      "Yakkalamulla",
+    ],
+    towns: [
+      { name: "Galle", postalCode: "80000", sinhala: "ගාල්ල", tamil: "காலி" },
+      { name: "Hikkaduwa", postalCode: "80240" },
+      { name: "Ambalangoda", postalCode: "80300" },
+      { name: "Elpitiya", postalCode: "80400" },
+      { name: "Baddegama", postalCode: "80200" },
+      { name: "Unawatuna", postalCode: "80600" },
+      { name: "Habaraduwa", postalCode: "80630" },
+      { name: "Koggala" },
+      { name: "Bentota", postalCode: "80500", aliases: ["Benthota"] },
+      { name: "Balapitiya", postalCode: "80550" },
+      { name: "Karapitiya" },
+    ],
+  },
+  {
+    name: "Matara",
+    province: "Southern",
+    areaCode: OUTSTATION,
+    sinhala: "මාතර",
+    tamil: "மாத்தறை",
+    aliases: ["Mathara"],
+    postalPrefixes: ["81"],
+    dsDivisions: [
+      "Akuressa",
+      "Athuraliya",
+      "Devinuwara",
+      { name: "Dickwella", aliases: ["Dikwella"] },
+      "Hakmana",
+      "Kamburupitiya",
+      "Kirinda Puhulwella",
+      "Kotapola",
+      "Malimbada",
+      { name: "Matara Four Gravets", aliases: ["Matara"] },
+      "Mulatiyana",
+      "Pasgoda",
+      "Pitabeddara",
+      "Thihagoda",
+      "Weligama",
+      "Welipitiya",
+    ],
+    towns: [
+      { name: "Matara", postalCode: "81000", sinhala: "මාතර" },
+      { name: "Weligama", postalCode: "81700", sinhala: "වැලිගම" },
+      { name: "Akuressa", postalCode: "81400" },
+      { name: "Dickwella", postalCode: "81200", aliases: ["Dikwella"] },
+      { name: "Hakmana", postalCode: "81300" },
+      { name: "Kamburupitiya", postalCode: "81100" },
+      { name: "Deniyaya", postalCode: "81500" },
+      { name: "Mirissa", postalCode: "81740" },
+      { name: "Dondra", aliases: ["Devinuwara"] },
+    ],
+  },
+  {
+    name: "Hambantota",
+    province: "Southern",
+    areaCode: OUTSTATION,
+    sinhala: "හම්බන්තොට",
+    tamil: "அம்பாந்தோட்டை",
+    aliases: ["Hambanthota"],
+    postalPrefixes: ["82"],
+    dsDivisions: [
+      "Ambalantota",
+      "Angunakolapelessa",
+      "Beliatta",
+      "Hambantota",
+      "Katuwana",
+      "Lunugamvehera",
+      "Okewela",
+      "Sooriyawewa",
+      "Tangalle",
+      { name: "Thissamaharama", aliases: ["Tissamaharama", "Tissa"] },
+      "Walasmulla",
+      "Weeraketiya",
+    ],
+    towns: [
+      { name: "Hambantota", postalCode: "82000", sinhala: "හම්බන්තොට" },
+      {
+        name: "Tangalle",
+        postalCode: "82200",
+        aliases: ["Tangalla"],
+        sinhala: "තංගල්ල",
+      },
+      {
+        name: "Tissamaharama",
+        postalCode: "82600",
+        aliases: ["Tissa", "Thissamaharama"],
+      },
+      { name: "Ambalantota", postalCode: "82100" },
+      { name: "Beliatta", postalCode: "82400" },
+    ],
+  },
+  {
+    name: "Jaffna",
+    province: "Northern",
+    areaCode: OUTSTATION,
+    sinhala: "යාපනය",
+    tamil: "யாழ்ப்பாணம்",
+    aliases: ["Yapanaya", "Yalpanam", "Yarlpanam"],
+    postalPrefixes: ["40"],
+    dsDivisions: [
+      "Chankanai",
+      { name: "Chavakachcheri", aliases: ["Thenmarachchi"] },
+      { name: "Delft", aliases: ["Neduntheevu"] },
+      { name: "Island North", aliases: ["Kayts"] },
+      { name: "Island South", aliases: ["Velanai"] },
+      "Jaffna",
+      "Karainagar",
+      { name: "Karaveddy", aliases: ["Vadamarachchi South West"] },
+      "Kopay",
+      { name: "Maruthankerny", aliases: ["Vadamarachchi East"] },
+      "Nallur",
+      {
+        name: "Point Pedro",
+        aliases: ["Vadamarachchi North", "Paruthithurai"],
+      },
+      "Sandilipay",
+      "Tellippalai",
+      "Uduvil",
+    ],
+    towns: [
+      {
+        name: "Jaffna",
+        postalCode: "40000",
+        sinhala: "යාපනය",
+        tamil: "யாழ்ப்பாணம்",
+      },
+      { name: "Nallur", tamil: "நல்லூர்" },
+      {
+        name: "Chavakachcheri",
+        aliases: ["Chavakacheri"],
+        tamil: "சாவகச்சேரி",
+      },
+      {
+        name: "Point Pedro",
+        postalCode: "40400",
+        aliases: ["Paruthithurai"],
+        tamil: "பருத்தித்துறை",
+      },
+      { name: "Valvettithurai", aliases: ["VVT"] },
+      { name: "Kankesanthurai", aliases: ["KKS"] },
+      { name: "Chunnakam" },
+      { name: "Manipay" },
+    ],
+  },
+  {
+    name: "Kilinochchi",
+    province: "Northern",
+    areaCode: OUTSTATION,
+    sinhala: "කිලිනොච්චි",
+    tamil: "கிளிநொச்சி",
+    aliases: ["Kilinochi"],
+    postalPrefixes: ["44"],
+    dsDivisions: ["Kandavalai", "Karachchi", "Pachchilaipalli", "Poonakary"],
+    towns: [
+      { name: "Kilinochchi", postalCode: "44000", tamil: "கிளிநொச்சி" },
+      { name: "Paranthan" },
+    ],
+  },
+  {
+    name: "Mannar",
+    province: "Northern",
+    areaCode: OUTSTATION,
+    sinhala: "මන්නාරම",
+    tamil: "மன்னார்",
+    aliases: ["Mannarama"],
+    postalPrefixes: ["41"],
+    dsDivisions: [
+      "Madhu",
+      "Manthai West",
+      { name: "Mannar Town", aliases: ["Mannar"] },
+      "Musali",
+      "Nanattan",
+    ],
+    towns: [
+      { name: "Mannar", postalCode: "41000", tamil: "மன்னார்" },
+      { name: "Talaimannar", aliases: ["Thalaimannar"] },
+    ],
+  },
+  {
+    name: "Vavuniya",
+    province: "Northern",
+    areaCode: OUTSTATION,
+    sinhala: "වවුනියාව",
+    tamil: "வவுனியா",
+    aliases: ["Vavunia", "Vavuniyawa"],
+    postalPrefixes: ["43"],
+    dsDivisions: [
+      "Vavuniya",
+      "Vavuniya North",
+      "Vavuniya South",
+      "Vengalacheddikulam",
+    ],
+    towns: [
+      { name: "Vavuniya", postalCode: "43000", tamil: "வவுனியா" },
+      { name: "Nedunkerny" },
+      { name: "Cheddikulam" },
+    ],
+  },
+  {
+    name: "Mullaitivu",
+    province: "Northern",
+    areaCode: OUTSTATION,
+    sinhala: "මුලතිව්",
+    tamil: "முல்லைத்தீவு",
+    aliases: ["Mullaithivu", "Mullativu"],
+    postalPrefixes: ["42"],
+    dsDivisions: [
+      "Maritimepattu",
+      "Manthai East",
+      "Oddusuddan",
+      "Puthukudiyiruppu",
+      "Thunukkai",
+      "Welioya",
+    ],
+    towns: [
+      { name: "Mullaitivu", postalCode: "42000", tamil: "முல்லைத்தீவு" },
+      { name: "Mankulam" },
+    ],
+  },
+  {
+    name: "Batticaloa",
+    province: "Eastern",
+    areaCode: OUTSTATION,
+    sinhala: "මඩකලපුව",
+    tamil: "மட்டக்களப்பு",
+    aliases: ["Madakalapuwa", "Mattakkalappu", "Baticaloa"],
+    postalPrefixes: ["30"],
+    dsDivisions: [
+      "Eravur Pattu",
+      "Eravur Town",
+      { name: "Koralai Pattu", aliases: ["Valaichchenai"] },
+      "Koralai Pattu Central",
+      { name: "Koralai Pattu North", aliases: ["Vaharai"] },
+      { name: "Koralai Pattu South", aliases: ["Kiran"] },
+      { name: "Koralai Pattu West", aliases: ["Oddamavadi"] },
+      "Kattankudy",
+      { name: "Manmunai North", aliases: ["Batticaloa"] },
+      { name: "Manmunai Pattu", aliases: ["Arayampathy"] },
+      {
+        name: "Manmunai South and Eruvil Pattu",
+        aliases: ["Kaluwanchikudy"],
+      },
+      { name: "Manmunai South West", aliases: ["Paddipalai"] },
+      { name: "Manmunai West", aliases: ["Vavunathivu"] },
+      { name: "Porativu Pattu", aliases: ["Vellavely"] },
+    ],
+    towns: [
+      {
+        name: "Batticaloa",
+        postalCode: "30000",
+        sinhala: "මඩකලපුව",
+        tamil: "மட்டக்களப்பு",
+      },
+      {
+        name: "Kattankudy",
+        postalCode: "30100",
+        aliases: ["Kattankudi"],
+        tamil: "காத்தான்குடி",
+      },
+      { name: "Eravur", postalCode: "30300", tamil: "ஏறாவூர்" },
+      { name: "Valaichchenai", postalCode: "30400" },
+    ],
+  },
+  {
+    name: "Ampara",
+    province: "Eastern",
+    areaCode: OUTSTATION,
+    sinhala: "අම්පාර",
+    tamil: "அம்பாறை",
+    aliases: ["Amparai", "Digamadulla"],
+    postalPrefixes: ["32"],
+    dsDivisions: [
+      "Addalachchenai",
+      "Akkaraipattu",
+      "Alayadiwembu",
+      "Ampara",
+      "Damana",
+      "Dehiattakandiya",
+      "Irakkamam",
+      "Kalmunai Muslim",
+      "Kalmunai Tamil",
+      "Karaitivu",
+      "Lahugala",
+      "Mahaoya",
+      "Navithanveli",
+      "Ninthavur",
+      "Padiyathalawa",
+      { name: "Pothuvil", aliases: ["Pottuvil", "Arugam Bay"] },
+      "Sainthamaruthu",
+      "Sammanthurai",
+      "Thirukkovil",
+      "Uhana",
+    ],
+    towns: [
+      { name: "Ampara", postalCode: "32000", sinhala: "අම්පාර" },
+      {
+        name: "Kalmunai",
+        postalCode: "32300",
+        sinhala: "කල්මුණේ",
+        tamil: "கல்முனை",
+      },
+      { name: "Akkaraipattu", postalCode: "32400" },
+      { name: "Sammanthurai", postalCode: "32200" },
+      { name: "Pottuvil", postalCode: "32500", aliases: ["Pothuvil"] },
+      { name: "Arugam Bay" },
+    ],
+  },
+  {
+    name: "Trincomalee",
+    province: "Eastern",
+    areaCode: OUTSTATION,
+    sinhala: "ත්‍රිකුණාමලය",
+    tamil: "திருகோணமலை",
+    aliases: ["Trinco", "Thirukonamalai", "Trikunamalaya"],
+    postalPrefixes: ["31"],
+    dsDivisions: [
+      "Gomarankadawala",
+      { name: "Kantalai", aliases: ["Kantale"] },
+      "Kinniya",
+      { name: "Kuchchaveli", aliases: ["Kuchchaveli"] },
+      "Morawewa",
+      { name: "Muthur", aliases: ["Mutur"] },
+      "Padavi Sri Pura",
+      "Seruvila",
+      "Thambalagamuwa",
+      { name: "Trincomalee Town and Gravets", aliases: ["Trincomalee"] },
+      "Verugal",
+    ],
+    towns: [
+      { name: "Trincomalee", postalCode: "31000", tamil: "திருகோணமலை" },
+      { name: "Kinniya", postalCode: "31100" },
+      { name: "Kantale", postalCode: "31300", aliases: ["Kantalai"] },
+      { name: "Muthur", postalCode: "31200", aliases: ["Mutur"] },
+      { name: "Nilaveli" },
+    ],
+  },
+  {
+    name: "Kurunegala",
+    province: "North Western",
+    areaCode: OUTSTATION,
+    sinhala: "කුරුණෑගල",
+    tamil: "குருநாகல்",
+    aliases: ["Kurunagala", "Kurunegale"],
+    postalPrefixes: ["60"],
+    dsDivisions: [
+      "Alawwa",
+      "Ambanpola",
+      "Bamunakotuwa",
+      "Bingiriya",
+      "Ehetuwewa",
+      "Galgamuwa",
+      "Ganewatta",
+      "Giribawa",
+      "Ibbagamuwa",
+      "Kobeigane",
+      "Kotavehera",
+      "Kuliyapitiya East",
+      "Kuliyapitiya West",
+      "Kurunegala",
+      "Mahawa",
+      "Mallawapitiya",
+      "Maspotha",
+      "Mawathagama",
+      "Narammala",
+      "Nikaweratiya",
+      "Panduwasnuwara East",
+      "Panduwasnuwara West",
+      "Pannala",
+      "Polgahawela",
+      "Polpithigama",
+      "Rasnayakapura",
+      "Rideegama",
+      "Udubaddawa",
+      "Wariyapola",
+      "Weerambugedara",
+    ],
+    towns: [
+      { name: "Kurunegala", postalCode: "60000", sinhala: "කුරුණෑගල" },
+      { name: "Kuliyapitiya", postalCode: "60200" },
+      { name: "Narammala", postalCode: "60100" },
+      { name: "Polgahawela", postalCode: "60300" },
+      { name: "Pannala", postalCode: "60160" },
+      { name: "Mawathagama", postalCode: "60060" },
+      { name: "Wariyapola", postalCode: "60400" },
+      { name: "Nikaweratiya", postalCode: "60470" },
+      { name: "Galgamuwa", postalCode: "60700" },
+      { name: "Alawwa", postalCode: "60280" },
+    ],
+  },
+  {
+    name: "Puttalam",
+    province: "North Western",
+    areaCode: OUTSTATION,
+    sinhala: "පුත්තලම",
+    tamil: "புத்தளம்",
+    aliases: ["Puttalama"],
+    postalPrefixes: ["61"],
+    dsDivisions: [
+      "Anamaduwa",
+      "Arachchikattuwa",
+      "Chilaw",
+      "Dankotuwa",
+      "Kalpitiya",
+      "Karuwalagaswewa",
+      "Madampe",
+      "Mahakumbukkadawala",
+      "Mahawewa",
+      "Mundalama",
+      "Nattandiya",
+      "Nawagattegama",
+      "Pallama",
+      "Puttalam",
+      "Vanathavilluwa",
+      "Wennappuwa",
+    ],
+    towns: [
+      { name: "Puttalam", postalCode: "61300", tamil: "புத்தளம்" },
+      {
+        name: "Chilaw",
+        postalCode: "61000",
+        aliases: ["Halawatha"],
+        sinhala: "හලාවත",
+        tamil: "சிலாபம்",
+      },
+      { name: "Wennappuwa", postalCode: "61170" },
+      { name: "Marawila", postalCode: "61210" },
+      { name: "Nattandiya", postalCode: "61190" },
+      { name: "Kalpitiya", postalCode: "61360" },
+      { name: "Dankotuwa", postalCode: "61130" },
+      { name: "Anamaduwa", postalCode: "61500" },
+    ],
+  },
+  {
+    name: "Anuradhapura",
+    province: "North Central",
+    areaCode: OUTSTATION,
+    sinhala: "අනුරාධපුරය",
+    tamil: "அனுராதபுரம்",
+    aliases: ["Anuradapura"],
+    postalPrefixes: ["50"],
+    dsDivisions: [
+      "Galenbindunuwewa",
+      "Galnewa",
+      "Horowpothana",
+      "Ipalogama",
+      "Kahatagasdigiliya",
+      "Kebithigollewa",
+      "Kekirawa",
+      "Mahavilachchiya",
+      "Medawachchiya",
+      { name: "Mihinthale", aliases: ["Mihintale"] },
+      "Nachchadoowa",
+      "Nochchiyagama",
+      "Nuwaragam Palatha Central",
+      "Nuwaragam Palatha East",
+      "Padaviya",
+      "Palagala",
+      "Palugaswewa",
+      "Rajanganaya",
+      "Rambewa",
+      "Thalawa",
+      "Thambuttegama",
+      "Thirappane",
+    ],
+    towns: [
+      { name: "Anuradhapura", postalCode: "50000", sinhala: "අනුරාධපුරය" },
+      { name: "Kekirawa", postalCode: "50100" },
+      { name: "Medawachchiya", postalCode: "50500" },
+      { name: "Mihintale", postalCode: "50300", aliases: ["Mihinthale"] },
+      { name: "Eppawala", postalCode: "50260" },
+      { name: "Thambuttegama", postalCode: "50240" },
+      { name: "Nochchiyagama", postalCode: "50200" },
+    ],
+  },
+  {
+    name: "Polonnaruwa",
+    province: "North Central",
+    areaCode: OUTSTATION,
+    sinhala: "පොළොන්නරුව",
+    tamil: "பொலன்னறுவை",
+    aliases: ["Polonnaruva"],
+    postalPrefixes: ["51"],
+    dsDivisions: [
+      "Dimbulagala",
+      "Elahera",
+      "Hingurakgoda",
+      "Lankapura",
+      "Medirigiriya",
+      "Thamankaduwa",
+      "Welikanda",
+    ],
+    towns: [
+      { name: "Polonnaruwa", postalCode: "51000", sinhala: "පොළොන්නරුව" },
+      { name: "Kaduruwela" },
+      { name: "Hingurakgoda", postalCode: "51400" },
+      { name: "Medirigiriya", postalCode: "51500" },
+    ],
+  },
+  {
+    name: "Badulla",
+    province: "Uva",
+    areaCode: OUTSTATION,
+    sinhala: "බදුල්ල",
+    tamil: "பதுளை",
+    postalPrefixes: ["90"],
+    dsDivisions: [
+      "Badulla",
+      "Bandarawela",
+      "Ella",
+      "Haldummulla",
+      "Hali-Ela",
+      "Haputale",
+      "Kandaketiya",
+      "Lunugala",
+      "Mahiyanganaya",
+      "Meegahakivula",
+      "Passara",
+      "Rideemaliyadda",
+      "Soranathota",
+      "Uva Paranagama",
+      "Welimada",
+    ],
+    towns: [
+      { name: "Badulla", postalCode: "90000", sinhala: "බදුල්ල" },
+      { name: "Bandarawela", postalCode: "90100", sinhala: "බණ්ඩාරවෙල" },
+      { name: "Haputale", postalCode: "90160" },
+      { name: "Welimada", postalCode: "90200" },
+      { name: "Ella", postalCode: "90090" },
+      { name: "Mahiyanganaya", postalCode: "90700" },
+      { name: "Passara", postalCode: "90500" },
+      { name: "Diyatalawa", postalCode: "90150" },
+    ],
+  },
+  {
+    name: "Monaragala",
+    province: "Uva",
+    areaCode: OUTSTATION,
+    sinhala: "මොණරාගල",
+    tamil: "மொனராகலை",
+    aliases: ["Moneragala"],
+    postalPrefixes: ["91"],
+    dsDivisions: [
+      "Badalkumbura",
+      "Bibile",
+      "Buttala",
+      { name: "Katharagama", aliases: ["Kataragama"] },
+      "Madulla",
+      "Medagama",
+      "Monaragala",
+      "Sevanagala",
+      "Siyambalanduwa",
+      "Thanamalvila",
+      "Wellawaya",
+    ],
+    towns: [
+      { name: "Monaragala", postalCode: "91000", aliases: ["Moneragala"] },
+      { name: "Wellawaya", postalCode: "91200" },
+      { name: "Buttala", postalCode: "91100" },
+      { name: "Bibile", postalCode: "91500" },
+      {
+        name: "Kataragama",
+        postalCode: "91400",
+        aliases: ["Katharagama"],
+        sinhala: "කතරගම",
+        tamil: "கதிர்காமம்",
+      },
+      { name: "Siyambalanduwa", postalCode: "91030" },
+    ],
+  },
+  {
+    name: "Ratnapura",
+    province: "Sabaragamuwa",
+    areaCode: OUTSTATION,
+    sinhala: "රත්නපුර",
+    tamil: "இரத்தினபுரி",
+    aliases: ["Rathnapura"],
+    postalPrefixes: ["70"],
+    dsDivisions: [
+      "Ayagama",
+      "Balangoda",
+      "Eheliyagoda",
+      "Elapatha",
+      "Embilipitiya",
+      "Godakawela",
+      "Imbulpe",
+      "Kahawatta",
+      "Kalawana",
+      "Kiriella",
+      "Kolonna",
+      { name: "Kuruvita", aliases: ["Kuruwita"] },
+      "Nivithigala",
+      "Opanayaka",
+      "Pelmadulla",
+      "Ratnapura",
+      "Weligepola",
+    ],
+    towns: [
+      { name: "Ratnapura", postalCode: "70000", sinhala: "රත්නපුර" },
+      { name: "Balangoda", postalCode: "70100" },
+      { name: "Embilipitiya", postalCode: "70200" },
+      { name: "Pelmadulla", postalCode: "70070" },
+      { name: "Eheliyagoda", postalCode: "70600" },
+      { name: "Kuruwita", postalCode: "70500", aliases: ["Kuruvita"] },
+      { name: "Kalawana", postalCode: "70450" },
+    ],
+  },
+  {
+    name: "Kegalle",
+    province: "Sabaragamuwa",
+    areaCode: OUTSTATION,
+    sinhala: "කෑගල්ල",
+    tamil: "கேகாலை",
+    aliases: ["Kegalla"],
+    postalPrefixes: ["71"],
+    dsDivisions: [
+      { name: "Aranayaka", aliases: ["Aranayake"] },
+      "Bulathkohupitiya",
+      "Dehiovita",
+      "Deraniyagala",
+      "Galigamuwa",
+      "Kegalle",
+      "Mawanella",
+      "Rambukkana",
+      "Ruwanwella",
+      "Warakapola",
+      "Yatiyantota",
+    ],
+    towns: [
+      { name: "Kegalle", postalCode: "71000", sinhala: "කෑගල්ල" },
+      { name: "Mawanella", postalCode: "71500" },
+      { name: "Warakapola", postalCode: "71600" },
+      { name: "Rambukkana", postalCode: "71100" },
+      { name: "Ruwanwella", postalCode: "71300" },
+      { name: "Yatiyantota", postalCode: "71700" },
+      { name: "Deraniyagala", postalCode: "71430" },
+      { name: "Aranayake", postalCode: "71540", aliases: ["Aranayaka"] },
+    ],
+  },
+];
+
+/**
+ * Pronto's HIGH SECURITY and SPECIAL AREA codes are assigned per
+ * consignment, not by geography; these names let callers ask for them.
+ */
+export const GAZETTEER_SPECIAL_AREAS: GazetteerPlaceInput[] = [
+  { name: "High Security Zone", areaCode: "4" },
+  { name: "Military Area", areaCode: "4" },
+  { name: "Restricted Zone", areaCode: "4" },
+  { name: "Special Area", areaCode: "5" },
+  { name: "Remote Area", areaCode: "5" },
+  { name: "Custom Zone", areaCode: "5" },
+];
@@ -0,0 +1,237 @@
+import crypto from "crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Record/replay layer under the Pronto and MPGS clients.
+ *
+ * HTTP_TRANSPORT_MODE selects how outgoing calls are made:
+ * - live (default): call the real host
+ * - record: call the real host and save the request/response pair
+ * - replay: answer from saved pairs only; unmatched requests throw
+ *
+ * Fixtures live in HTTP_FIXTURES_DIR (default ./fixtures), one file per
+ * request key: <service>/<operation>-<hash>.json. The key ignores the host,
+ * so traffic recorded against UAT replays against any base URL. A request
+ * recorded several times (e.g. tno.request) replays its responses in order
+ * and then keeps serving the last one.
+ */
+
+export type TransportMode = "live" | "record" | "replay";
+
+export type TransportService = "pronto" | "mpgs";
+
+export interface TransportRequest {
+  service: TransportService;
+  operation: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string | null;
+}
+
+export interface TransportResponse {
+  status: number;
+  body: string;
+}
+
+interface FixtureExchange {
+  request: TransportRequest;
+  response: TransportResponse;
+  recordedAt: string;
+}
+
+interface FixtureFile {
+  key: string;
+  exchanges: FixtureExchange[];
+}
+
+/**
+ * Raised in replay mode when no fixture matches the outgoing request.
+ */
+export class ReplayMissError extends Error {
+  readonly key: string;
+  readonly fixturePath: string;
+
+  constructor(request: TransportRequest, key: string, fixturePath: string) {
+    super(
+      `No recorded ${request.service} fixture for ${request.method} ${request.url} (expected ${fixturePath})`
+    );
+    this.name = "ReplayMissError";
+    this.key = key;
+    this.fixturePath = fixturePath;
+  }
+}
+
+const REDACTED = "[REDACTED]";
+const SENSITIVE_KEY_PATTERN = /authorization|password|secret|token|cookie/i;
+
+export function getTransportMode(): TransportMode {
+  const mode = process.env.HTTP_TRANSPORT_MODE?.toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "live";
+}
+
+function getFixturesDir(): string {
+  return path.resolve(process.env.HTTP_FIXTURES_DIR || "./fixtures");
+}
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SENSITIVE_KEY_PATTERN.test(key) ? REDACTED : redactValue(entry),
+      ])
+    );
+  }
+  return value;
+}
+
+function redactBody(body: string | null | undefined): string | null {
+  if (!body) {
+    return body ?? null;
+  }
+  try {
+    return JSON.stringify(redactValue(JSON.parse(body)));
+  } catch {
+    return body;
+  }
+}
+
+function redactRequest(request: TransportRequest): TransportRequest {
+  return {
+    ...request,
+    headers: redactValue(request.headers) as Record<string, string>,
+    body: redactBody(request.body),
+  };
+}
+
+// Sorted keys so that property order does not change the fixture key.
+function canonicalBody(body: string | null | undefined): string {
+  if (!body) {
+    return "";
+  }
+  const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(sortKeys);
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+      );
+    }
+    return value;
+  };
+  try {
+    return JSON.stringify(sortKeys(redactValue(JSON.parse(body))));
+  } catch {
+    return body;
+  }
+}
+
+// MPGS transaction IDs are generated per call (capture-<uuid>), so they are
+// left out of the key; the body still tells the operations apart.
+const TRANSACTION_SEGMENT_PATTERN = /(\/transaction\/)[^/]+/;
+
+function fixtureKey(request: TransportRequest): string {
+  const url = new URL(request.url);
+  const pathname = url.pathname.replace(
+    TRANSACTION_SEGMENT_PATTERN,
+    "$1{transactionId}"
+  );
+  const hash = crypto
+    .createHash("sha256")
+    .update(
+      `${request.method.toUpperCase()} ${pathname}${url.search}\n${canonicalBody(
+        request.body
+      )}`
+    )
+    .digest("hex")
+    .slice(0, 16);
+  const operation = request.operation.replace(/[^a-zA-Z0-9_.-]/g, "_");
+  return `${operation}-${hash}`;
+}
+
+function fixturePath(request: TransportRequest, key: string): string {
+  return path.join(getFixturesDir(), request.service, `${key}.json`);
+}
+
+function readFixture(filePath: string): FixtureFile | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as FixtureFile;
+}
+
+// Keys already written by this process: the first recording of a key
+// replaces the old file, later ones are appended.
+const recordedKeys = new Set<string>();
+const replayCursors = new Map<string, number>();
+
+function record(
+  request: TransportRequest,
+  key: string,
+  response: TransportResponse
+) {
+  const filePath = fixturePath(request, key);
+  const existing = recordedKeys.has(key) ? readFixture(filePath) : null;
+  const fixture: FixtureFile = existing ?? { key, exchanges: [] };
+  fixture.exchanges.push({
+    request: redactRequest(request),
+    response: { status: response.status, body: redactBody(response.body) ?? "" },
+    recordedAt: new Date().toISOString(),
+  });
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(fixture, null, 2)}\n`);
+  recordedKeys.add(key);
+  console.log(`📼 Recorded ${request.service} ${request.operation}`, {
+    fixture: filePath,
+  });
+}
+
+function replay(request: TransportRequest, key: string): TransportResponse {
+  const filePath = fixturePath(request, key);
+  const fixture = readFixture(filePath);
+  if (!fixture || fixture.exchanges.length === 0) {
+    throw new ReplayMissError(request, key, filePath);
+  }
+
+  const cursor = replayCursors.get(key) ?? 0;
+  const exchange =
+    fixture.exchanges[Math.min(cursor, fixture.exchanges.length - 1)];
+  replayCursors.set(key, cursor + 1);
+  console.log(`📼 Replayed ${request.service} ${request.operation}`, {
+    fixture: filePath,
+    exchange: Math.min(cursor, fixture.exchanges.length - 1) + 1,
+  });
+  return exchange.response;
+}
+
+/**
+ * Send a request through the configured transport. `live` performs the real
+ * HTTP call and is only invoked in live and record mode.
+ */
+export async function exchange(
+  request: TransportRequest,
+  live: () => Promise<TransportResponse>
+): Promise<TransportResponse> {
+  const mode = getTransportMode();
+  if (mode === "live") {
+    return live();
+  }
+
+  const key = fixtureKey(request);
+  if (mode === "replay") {
+    return replay(request, key);
+  }
+
+  const response = await live();
+  record(request, key, response);
+  return response;
+}
@@ -0,0 +1,567 @@
+import crypto from "crypto";
+import type {
+  CheckoutInteraction,
+  CheckoutOrder,
+  OrderResponse,
+  TransactionResponse,
+} from "@/lib/mpgsApiService";
+
+/**
+ * In-memory stand-in for the MPGS REST API and hosted checkout, used when
+ * MPGS_API_BASE_URL points at /api/mock-mpgs. Nothing here talks to the
+ * real gateway; state lives for the lifetime of the dev server.
+ *
+ * Payment outcomes are scripted by magic card numbers (checked first) and by
+ * the cents of the order amount, see MOCK_MPGS_CARDS / MOCK_MPGS_AMOUNTS.
+ */
+
+export type MockGatewayCode =
+  | "APPROVED"
+  | "DECLINED"
+  | "INSUFFICIENT_FUNDS"
+  | "TIMED_OUT";
+
+export type MockFollowUpOperation = "CAPTURE" | "REFUND" | "VOID";
+
+export interface MockScenario {
+  gatewayCode: MockGatewayCode;
+  description: string;
+  // Skip the webhook so the return page / sweeper have to find the result.
+  skipWebhook?: boolean;
+  // Deliver the same notification twice to exercise webhook dedupe.
+  duplicateWebhook?: boolean;
+  // Charge a different amount than the session asked for (REVIEW path).
+  amountDelta?: number;
+  // Follow-up operations the gateway will decline for this order.
+  declineOperations?: MockFollowUpOperation[];
+}
+
+// Any other card number (e.g. DEFAULT_MOCK_CARD) follows the amount rules.
+export const MOCK_MPGS_CARDS: Record<string, MockScenario> = {
+  "4000000000000002": {
+    gatewayCode: "DECLINED",
+    description: "Declined by issuer",
+  },
+  "4000000000009995": {
+    gatewayCode: "INSUFFICIENT_FUNDS",
+    description: "Insufficient funds",
+  },
+  "4000000000000119": {
+    gatewayCode: "APPROVED",
+    description: "Approved, but no webhook is sent",
+    skipWebhook: true,
+  },
+  "4000000000000135": {
+    gatewayCode: "APPROVED",
+    description: "Approved, webhook delivered twice",
+    duplicateWebhook: true,
+  },
+  "4000000000000127": {
+    gatewayCode: "APPROVED",
+    description: "Approved for 1.00 more than the session amount",
+    amountDelta: 1,
+  },
+};
+
+// Keyed by the two decimal digits of the order amount, e.g. 1500.51.
+export const MOCK_MPGS_AMOUNTS: Record<string, MockScenario> = {
+  "01": { gatewayCode: "DECLINED", description: "Declined by issuer" },
+  "02": {
+    gatewayCode: "APPROVED",
+    description: "Approved, later CAPTURE is declined",
+    declineOperations: ["CAPTURE"],
+  },
+  "03": {
+    gatewayCode: "APPROVED",
+    description: "Approved, later REFUND is declined",
+    declineOperations: ["REFUND"],
+  },
+  "04": {
+    gatewayCode: "APPROVED",
+    description: "Approved, later VOID is declined",
+    declineOperations: ["VOID"],
+  },
+  "51": {
+    gatewayCode: "INSUFFICIENT_FUNDS",
+    description: "Insufficient funds",
+  },
+  "68": { gatewayCode: "TIMED_OUT", description: "Issuer timed out" },
+};
+
+export const DEFAULT_MOCK_CARD = "5123450000000008";
+
+/**
+ * Raised for requests the real gateway would answer with result=ERROR.
+ */
+export class MockMpgsError extends Error {
+  readonly httpStatus: number;
+  readonly field?: string;
+
+  constructor(httpStatus: number, explanation: string, field?: string) {
+    super(explanation);
+    this.name = "MockMpgsError";
+    this.httpStatus = httpStatus;
+    this.field = field;
+  }
+
+  toResponseBody() {
+    return {
+      result: "ERROR",
+      error: {
+        cause: "INVALID_REQUEST",
+        explanation: this.message,
+        ...(this.field && { field: this.field, validationType: "INVALID" }),
+      },
+    };
+  }
+}
+
+export interface MockSession {
+  id: string;
+  version: string;
+  successIndicator: string;
+  interaction: CheckoutInteraction;
+  order: CheckoutOrder;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface MockOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  status: string;
+  scenario: MockScenario;
+  totalAuthorizedAmount: number;
+  totalCapturedAmount: number;
+  totalRefundedAmount: number;
+  creationTime: string;
+  sourceOfFunds?: TransactionResponse["sourceOfFunds"];
+  transactions: TransactionResponse[];
+}
+
+interface MockState {
+  sessions: Map<string, MockSession>;
+  orders: Map<string, MockOrder>;
+}
+
+declare global {
+  var __MOCK_MPGS_STATE__: MockState | undefined;
+}
+
+// Kept on globalThis so hot reloads do not lose sessions mid-checkout.
+function getState(): MockState {
+  if (!globalThis.__MOCK_MPGS_STATE__) {
+    globalThis.__MOCK_MPGS_STATE__ = {
+      sessions: new Map(),
+      orders: new Map(),
+    };
+  }
+  return globalThis.__MOCK_MPGS_STATE__;
+}
+
+export function isMockMpgsEnabled(): boolean {
+  return (
+    process.env.NODE_ENV !== "production" ||
+    process.env.MPGS_MOCK_ENABLED === "true"
+  );
+}
+
+function randomToken(length: number): string {
+  return crypto
+    .randomBytes(length)
+    .toString("hex")
+    .slice(0, length)
+    .toUpperCase();
+}
+
+function round(amount: number): number {
+  return Number(amount.toFixed(2));
+}
+
+export function resolveScenario(
+  cardNumber: string,
+  amount: number
+): MockScenario {
+  const digits = cardNumber.replace(/\D/g, "");
+  if (MOCK_MPGS_CARDS[digits]) {
+    return MOCK_MPGS_CARDS[digits];
+  }
+  return (
+    MOCK_MPGS_AMOUNTS[amount.toFixed(2).slice(-2)] ?? {
+      gatewayCode: "APPROVED",
+      description: "Approved",
+    }
+  );
+}
+
+function cardSource(cardNumber: string): TransactionResponse["sourceOfFunds"] {
+  const digits = cardNumber.replace(/\D/g, "");
+  const brand = digits.startsWith("4")
+    ? "VISA"
+    : digits.startsWith("3")
+    ? "AMEX"
+    : "MASTERCARD";
+  const masked = "x".repeat(Math.max(digits.length - 10, 0));
+  return {
+    type: "CARD",
+    provided: {
+      card: {
+        brand,
+        number: `${digits.slice(0, 6)}${masked}${digits.slice(-4)}`,
+        fundingMethod: "CREDIT",
+      },
+    },
+  };
+}
+
+function orderSummary(order: MockOrder) {
+  return {
+    id: order.id,
+    amount: order.amount,
+    currency: order.currency,
+    status: order.status,
+    totalAuthorizedAmount: order.totalAuthorizedAmount,
+    totalCapturedAmount: order.totalCapturedAmount,
+    totalRefundedAmount: order.totalRefundedAmount,
+    creationTime: order.creationTime,
+  };
+}
+
+function addTransaction(
+  order: MockOrder,
+  transactionId: string,
+  type: string,
+  amount: number,
+  gatewayCode: MockGatewayCode,
+  extra: Record<string, unknown> = {}
+): TransactionResponse {
+  const transaction: TransactionResponse = {
+    result: gatewayCode === "APPROVED" ? "SUCCESS" : "FAILURE",
+    order: orderSummary(order),
+    response: { gatewayCode },
+    transaction: {
+      id: transactionId,
+      type,
+      amount: round(amount),
+      currency: order.currency,
+      ...extra,
+    },
+    ...(order.sourceOfFunds && { sourceOfFunds: order.sourceOfFunds }),
+    timeOfRecord: new Date().toISOString(),
+  };
+  order.transactions.push(transaction);
+  return transaction;
+}
+
+function requireOrder(orderId: string): MockOrder {
+  const order = getState().orders.get(orderId);
+  if (!order) {
+    throw new MockMpgsError(
+      400,
+      "Unable to find order for the given order ID",
+      "orderId"
+    );
+  }
+  return order;
+}
+
+/**
+ * POST /session (CREATE_CHECKOUT_SESSION)
+ */
+export function createSession(body: {
+  interaction?: CheckoutInteraction;
+  order?: CheckoutOrder;
+}): MockSession {
+  if (!body.order?.id || !body.order.amount || !body.order.currency) {
+    throw new MockMpgsError(
+      400,
+      "Value for order.id, order.amount and order.currency is required",
+      "order"
+    );
+  }
+  if (!body.interaction?.operation) {
+    throw new MockMpgsError(
+      400,
+      "Value for interaction.operation is required",
+      "interaction.operation"
+    );
+  }
+
+  const now = new Date().toISOString();
+  const session: MockSession = {
+    id: `SESSION0002${randomToken(20)}`,
+    version: randomToken(10).toLowerCase(),
+    successIndicator: randomToken(16).toLowerCase(),
+    interaction: body.interaction,
+    order: body.order,
+    createdAt: now,
+    updatedAt: now,
+  };
+  getState().sessions.set(session.id, session);
+  console.log("🧪 Mock MPGS: session created", {
+    sessionId: session.id,
+    orderId: session.order.id,
+  });
+
+  return session;
+}
+
+export function getSession(sessionId: string): MockSession {
+  const session = getState().sessions.get(sessionId);
+  if (!session) {
+    throw new MockMpgsError(400, "Session not found or expired", "session.id");
+  }
+  return session;
+}
+
+const SETTLED_ORDER_STATUSES = new Set([
+  "AUTHORIZED",
+  "CAPTURED",
+  "PARTIALLY_CAPTURED",
+  "PARTIALLY_REFUNDED",
+  "REFUNDED",
+  "CANCELLED",
+]);
+
+export function retrieveOrder(orderId: string): OrderResponse {
+  const order = requireOrder(orderId);
+  return {
+    ...orderSummary(order),
+    result: SETTLED_ORDER_STATUSES.has(order.status) ? "SUCCESS" : "FAILURE",
+    description: order.description,
+    transaction: order.transactions,
+  };
+}
+
+export function retrieveTransaction(
+  orderId: string,
+  transactionId: string
+): TransactionResponse {
+  const transaction = requireOrder(orderId).transactions.find(
+    (entry) => entry.transaction.id === transactionId
+  );
+  if (!transaction) {
+    throw new MockMpgsError(
+      400,
+      "Unable to find transaction for the given transaction ID",
+      "transactionId"
+    );
+  }
+  return transaction;
+}
+
+export interface MockPaymentResult {
+  session: MockSession;
+  order: OrderResponse;
+  transaction: TransactionResponse;
+  scenario: MockScenario;
+  resultIndicator: string;
+}
+
+/**
+ * What the hosted payment page does when the customer presses Pay. A failed
+ * order may be paid again from the same session, like the real hosted page.
+ */
+export function payWithCard(
+  sessionId: string,
+  cardNumber: string
+): MockPaymentResult {
+  const session = getSession(sessionId);
+  const state = getState();
+  const sessionAmount = Number(session.order.amount);
+  const scenario = resolveScenario(cardNumber, sessionAmount);
+  const operation = session.interaction.operation;
+
+  const existing = state.orders.get(session.order.id);
+  if (existing && existing.status !== "FAILED") {
+    throw new MockMpgsError(400, "Order has already been paid", "order.id");
+  }
+
+  const order: MockOrder = existing ?? {
+    id: session.order.id,
+    amount: 0,
+    currency: session.order.currency,
+    description: session.order.description,
+    status: "INITIATED",
+    scenario,
+    totalAuthorizedAmount: 0,
+    totalCapturedAmount: 0,
+    totalRefundedAmount: 0,
+    creationTime: new Date().toISOString(),
+    transactions: [],
+  };
+  order.amount = round(sessionAmount + (scenario.amountDelta ?? 0));
+  order.scenario = scenario;
+  order.sourceOfFunds = cardSource(cardNumber);
+  state.orders.set(order.id, order);
+
+  const approved = scenario.gatewayCode === "APPROVED";
+  if (approved) {
+    order.totalAuthorizedAmount = order.amount;
+    order.totalCapturedAmount = operation === "PURCHASE" ? order.amount : 0;
+    order.status = operation === "PURCHASE" ? "CAPTURED" : "AUTHORIZED";
+  } else {
+    order.status = "FAILED";
+  }
+
+  const transaction = addTransaction(
+    order,
+    String(order.transactions.length + 1),
+    operation === "PURCHASE" ? "PAYMENT" : "AUTHORIZATION",
+    order.amount,
+    scenario.gatewayCode
+  );
+
+  session.updatedAt = new Date().toISOString();
+  console.log(`🧪 Mock MPGS: ${operation} ${scenario.gatewayCode}`, {
+    orderId: order.id,
+    scenario: scenario.description,
+  });
+
+  return {
+    session,
+    order: retrieveOrder(order.id),
+    transaction,
+    scenario,
+    // MPGS only hands back the success indicator when the payment succeeded.
+    resultIndicator: approved
+      ? session.successIndicator
+      : randomToken(16).toLowerCase(),
+  };
+}
+
+function declines(order: MockOrder, operation: MockFollowUpOperation) {
+  return order.scenario.declineOperations?.includes(operation) ?? false;
+}
+
+/**
+ * PUT /order/{orderId}/transaction/{transactionId} (CAPTURE, REFUND, VOID)
+ */
+export function submitTransaction(
+  orderId: string,
+  transactionId: string,
+  body: {
+    apiOperation?: string;
+    transaction?: {
+      amount?: string | number;
+      targetTransactionId?: string;
+    };
+  }
+): TransactionResponse {
+  const order = requireOrder(orderId);
+  if (order.transactions.some((entry) => entry.transaction.id === transactionId)) {
+    throw new MockMpgsError(
+      400,
+      "Transaction ID already exists for this order",
+      "transaction.id"
+    );
+  }
+
+  const amount = Number(body.transaction?.amount ?? 0);
+
+  switch (body.apiOperation?.toUpperCase()) {
+    case "CAPTURE": {
+      const capturable = round(
+        order.totalAuthorizedAmount - order.totalCapturedAmount
+      );
+      if (!["AUTHORIZED", "PARTIALLY_CAPTURED"].includes(order.status)) {
+        throw new MockMpgsError(
+          400,
+          `Cannot capture an order in ${order.status} status`
+        );
+      }
+      if (amount <= 0 || amount > capturable + 0.005) {
+        throw new MockMpgsError(
+          400,
+          `Capture amount must be between 0 and ${capturable}`,
+          "transaction.amount"
+        );
+      }
+      const declined = declines(order, "CAPTURE");
+      if (!declined) {
+        order.totalCapturedAmount = round(order.totalCapturedAmount + amount);
+        order.status =
+          order.totalCapturedAmount >= order.totalAuthorizedAmount
+            ? "CAPTURED"
+            : "PARTIALLY_CAPTURED";
+      }
+      return addTransaction(
+        order,
+        transactionId,
+        "CAPTURE",
+        amount,
+        declined ? "DECLINED" : "APPROVED"
+      );
+    }
+    case "REFUND": {
+      const refundable = round(
+        order.totalCapturedAmount - order.totalRefundedAmount
+      );
+      if (amount <= 0 || amount > refundable + 0.005) {
+        throw new MockMpgsError(
+          400,
+          `Refund amount must be between 0 and ${refundable}`,
+          "transaction.amount"
+        );
+      }
+      const declined = declines(order, "REFUND");
+      if (!declined) {
+        order.totalRefundedAmount = round(order.totalRefundedAmount + amount);
+        order.status =
+          order.totalRefundedAmount >= order.totalCapturedAmount
+            ? "REFUNDED"
+            : "PARTIALLY_REFUNDED";
+      }
+      return addTransaction(
+        order,
+        transactionId,
+        "REFUND",
+        amount,
+        declined ? "DECLINED" : "APPROVED"
+      );
+    }
+    case "VOID": {
+      const targetId = body.transaction?.targetTransactionId;
+      const target = order.transactions.find(
+        (entry) => entry.transaction.id === targetId
+      );
+      if (!target) {
+        throw new MockMpgsError(
+          400,
+          "Unable to find the target transaction",
+          "transaction.targetTransactionId"
+        );
+      }
+      if (
+        target.transaction.type !== "AUTHORIZATION" ||
+        order.totalCapturedAmount > 0
+      ) {
+        throw new MockMpgsError(
+          400,
+          "The mock gateway only voids uncaptured authorizations"
+        );
+      }
+      const declined = declines(order, "VOID");
+      if (!declined) {
+        order.totalAuthorizedAmount = 0;
+        order.status = "CANCELLED";
+      }
+      return addTransaction(
+        order,
+        transactionId,
+        "VOID_AUTHORIZATION",
+        target.transaction.amount,
+        declined ? "DECLINED" : "APPROVED",
+        { targetTransactionId: targetId }
+      );
+    }
+    default:
+      throw new MockMpgsError(
+        400,
+        `Unsupported apiOperation ${body.apiOperation}`,
+        "apiOperation"
+      );
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * In-memory stand-in for Pronto's PR_API.aspx, used when PRONTO_API_BASE_URL
+ * points at /api/mock-pronto. Implements calc.method, pkg.amount,
+ * tno.request, tno.insert and tno.detail with the UAT request/response shapes.
+ *
+ * Inserted shipments move I → A → M → S → C on a clock
+ * (PRONTO_MOCK_STATUS_INTERVAL_SECONDS, default 60). A receiver name
+ * containing REJECT or RETURN ends the route with that status instead.
+ * Failures can be queued per method through /api/mock-pronto/failures.
+ */
+
+export const MOCK_PRONTO_METHODS = [
+  "calc.method",
+  "pkg.amount",
+  "tno.request",
+  "tno.insert",
+  "tno.detail",
+] as const;
+
+export type MockProntoMethod = (typeof MOCK_PRONTO_METHODS)[number];
+
+/**
+ * ERROR: 200 with status "0"; HTTP_500: server error; MALFORMED: non-JSON
+ * body; TIMEOUT: respond after delayMs (the client gives up after 45s).
+ */
+export const MOCK_PRONTO_FAILURE_MODES = [
+  "ERROR",
+  "HTTP_500",
+  "MALFORMED",
+  "TIMEOUT",
+] as const;
+
+export type MockProntoFailureMode = (typeof MOCK_PRONTO_FAILURE_MODES)[number];
+
+export interface MockProntoFailure {
+  method: MockProntoMethod;
+  mode: MockProntoFailureMode;
+  remaining: number;
+  statusRef?: string;
+  delayMs?: number;
+}
+
+export interface MockProntoStatusEntry {
+  PRONTO_HUB: string;
+  STATUS_DATE: string;
+  STATUS: string;
+}
+
+export interface MockProntoShipment {
+  tno: string;
+  customerCode: string;
+  cod: boolean;
+  issuedAt: string;
+  insertedAt: string | null;
+  details: Record<string, unknown> | null;
+}
+
+export interface MockProntoResult {
+  httpStatus: number;
+  body: Record<string, unknown> | string;
+  delayMs?: number;
+}
+
+interface MockProntoState {
+  counters: { cod: number; nonCod: number };
+  shipments: Map<string, MockProntoShipment>;
+  failures: MockProntoFailure[];
+}
+
+declare global {
+  var __MOCK_PRONTO_STATE__: MockProntoState | undefined;
+}
+
+// Kept on globalThis so hot reloads keep issued tracking numbers.
+function getState(): MockProntoState {
+  if (!globalThis.__MOCK_PRONTO_STATE__) {
+    globalThis.__MOCK_PRONTO_STATE__ = {
+      counters: { cod: 0, nonCod: 0 },
+      shipments: new Map(),
+      failures: [],
+    };
+  }
+  return globalThis.__MOCK_PRONTO_STATE__;
+}
+
+export function isMockProntoEnabled(): boolean {
+  return (
+    process.env.NODE_ENV !== "production" ||
+    process.env.PRONTO_MOCK_ENABLED === "true"
+  );
+}
+
+// Area label used by calc.method, first-kg charge, charge per extra kg.
+const MOCK_RATES: Record<
+  string,
+  { label: string; base: number; perKg: number }
+> = {
+  "1": { label: "CITY", base: 350, perKg: 50 },
+  "2": { label: "GCT", base: 400, perKg: 60 },
+  "3": { label: "OS", base: 450, perKg: 75 },
+  "4": { label: "HS", base: 500, perKg: 100 },
+  "5": { label: "SPA", base: 600, perKg: 100 },
+};
+
+const STATUS_FLOW = ["I", "A", "M", "S", "C"];
+
+const HUBS: Record<string, string> = {
+  I: "Head Office",
+  A: "Head Office",
+  M: "Interbranch Transit",
+  S: "Delivery Route",
+};
+
+// Only tno.insert carries status/status_ref on success; the other methods
+// answer with their payload alone.
+function ok(body: Record<string, unknown>): MockProntoResult {
+  return { httpStatus: 200, body };
+}
+
+function fail(
+  statusRef: string,
+  body: Record<string, unknown> = {}
+): MockProntoResult {
+  return {
+    httpStatus: 200,
+    body: { ...body, status: "0", status_ref: statusRef },
+  };
+}
+
+function getStatusIntervalMs(): number {
+  const seconds = Number(process.env.PRONTO_MOCK_STATUS_INTERVAL_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : 60) * 1000;
+}
+
+function formatStatusDate(date: Date): string {
+  // Pronto returns local time without a zone, e.g. 2019-11-08T15:28:22.987
+  return date.toISOString().replace("Z", "");
+}
+
+/**
+ * Status history of a shipment as of `now`, oldest first.
+ */
+export function statusHistory(
+  shipment: MockProntoShipment,
+  now = new Date()
+): MockProntoStatusEntry[] {
+  if (!shipment.insertedAt) {
+    return [];
+  }
+
+  const receiver = String(shipment.details?.rec_name ?? "").toUpperCase();
+  const finalStatus = receiver.includes("REJECT")
+    ? "Reject"
+    : receiver.includes("RETURN")
+    ? "Return"
+    : "C";
+  const flow = [...STATUS_FLOW.slice(0, -1), finalStatus];
+
+  const start = new Date(shipment.insertedAt).getTime();
+  const steps = Math.floor((now.getTime() - start) / getStatusIntervalMs());
+  const destinationHub = `Branch ${String(
+    shipment.details?.pronto_lc ?? "0001"
+  )}`;
+
+  return flow
+    .slice(0, Math.min(steps + 1, flow.length))
+    .map((status, index) => ({
+      PRONTO_HUB: HUBS[status] ?? destinationHub,
+      STATUS_DATE: formatStatusDate(
+        new Date(start + index * getStatusIntervalMs())
+      ),
+      STATUS: status,
+    }));
+}
+
+/**
+ * The emp_calc.meth text Pronto returns, including its odd quoting.
+ */
+export function rateStructureText(): string {
+  return Object.values(MOCK_RATES)
+    .flatMap(({ label, base, perKg }) => [
+      `PSL Charge - Area - '${label} From Weight - '0.00' To Weight - '1.00' Charge - ${base.toFixed(2)}'`,
+      `PSL Charge - Area - '${label} From Weight - '1.00' To Weight - '100000.00' Charge - '${perKg.toFixed(2)}'`,
+    ])
+    .join("\n");
+}
+
+function takeFailure(method: MockProntoMethod): MockProntoResult | null {
+  const state = getState();
+  const index = state.failures.findIndex(
+    (failure) => failure.method === method
+  );
+  if (index === -1) {
+    return null;
+  }
+
+  const failure = state.failures[index];
+  failure.remaining -= 1;
+  if (failure.remaining <= 0) {
+    state.failures.splice(index, 1);
+  }
+  console.log(`🧪 Mock Pronto: injected ${failure.mode} for ${method}`);
+
+  switch (failure.mode) {
+    case "HTTP_500":
+      return { httpStatus: 500, body: "Internal Server Error" };
+    case "MALFORMED":
+      return {
+        httpStatus: 200,
+        body: "<html><body>Runtime Error</body></html>",
+      };
+    case "TIMEOUT":
+      return {
+        ...fail(failure.statusRef ?? "Request timed out"),
+        delayMs: failure.delayMs ?? 50000,
+      };
+    default:
+      return fail(failure.statusRef ?? `Injected ${method} failure`);
+  }
+}
+
+export function injectFailure(
+  failure: Omit<MockProntoFailure, "remaining"> & { count?: number }
+): MockProntoFailure {
+  const entry: MockProntoFailure = {
+    method: failure.method,
+    mode: failure.mode,
+    remaining: failure.count ?? 1,
+    statusRef: failure.statusRef,
+    delayMs: failure.delayMs,
+  };
+  getState().failures.push(entry);
+  return entry;
+}
+
+export function listFailures(): MockProntoFailure[] {
+  return [...getState().failures];
+}
+
+export function clearFailures(): void {
+  getState().failures = [];
+}
+
+export function listShipments(): Array<
+  MockProntoShipment & { history: MockProntoStatusEntry[] }
+> {
+  return [...getState().shipments.values()].map((shipment) => ({
+    ...shipment,
+    history: statusHistory(shipment),
+  }));
+}
+
+function requireText(data: Record<string, unknown>, field: string) {
+  const value = data[field];
+  return typeof value === "string" || typeof value === "number"
+    ? String(value).trim()
+    : "";
+}
+
+/**
+ * Handle one PR_API.aspx call: `{ request: <method>, data: {...} }`.
+ */
+export function handleProntoRequest(
+  method: string,
+  data: Record<string, unknown>
+): MockProntoResult {
+  if (!MOCK_PRONTO_METHODS.includes(method as MockProntoMethod)) {
+    return fail(`Invalid request method ${method}`);
+  }
+
+  const injected = takeFailure(method as MockProntoMethod);
+  if (injected) {
+    return injected;
+  }
+
+  const customerCode = requireText(data, "customer_code");
+  const state = getState();
+
+  switch (method as MockProntoMethod) {
+    case "calc.method":
+      if (!customerCode) {
+        return fail("customer_code is required");
+      }
+      return ok({ emp_calc: { meth: rateStructureText() } });
+
+    case "pkg.amount": {
+      const rate = MOCK_RATES[requireText(data, "pronto_ac")];
+      const weight = Number(data.pkg_weight);
+      if (!customerCode || !rate) {
+        return fail("Invalid customer code or area code");
+      }
+      if (!Number.isFinite(weight) || weight <= 0) {
+        return fail("Invalid package weight");
+      }
+      const extraKg = Math.max(Math.ceil(weight) - 1, 0);
+      const amount = rate.base + extraKg * rate.perKg;
+      return ok({ live_amount: { amount: amount.toFixed(2) } });
+    }
+
+    case "tno.request": {
+      const tnoCode = requireText(data, "tno_code");
+      if (!customerCode || (tnoCode !== "1" && tnoCode !== "2")) {
+        return fail("Invalid customer code or tno_code");
+      }
+      const cod = tnoCode === "2";
+      // Like Pronto, a tracking number is never issued twice.
+      const next = cod ? ++state.counters.cod : ++state.counters.nonCod;
+      const tno = `${cod ? "COD" : "NCD"}${String(next).padStart(7, "0")}`;
+      state.shipments.set(tno, {
+        tno,
+        customerCode,
+        cod,
+        issuedAt: new Date().toISOString(),
+        insertedAt: null,
+        details: null,
+      });
+      return ok({ emp_trackingno: { tno } });
+    }
+
+    case "tno.insert": {
+      const shipment = state.shipments.get(requireText(data, "tno"));
+      if (!shipment) {
+        return fail("Invalid tracking number", { insertion_fb: "fail" });
+      }
+      if (shipment.insertedAt) {
+        return fail("Tracking number already used", { insertion_fb: "fail" });
+      }
+      const missing = ["rec_name", "rec_address", "rec_phone"].filter(
+        (field) => !requireText(data, field)
+      );
+      if (missing.length > 0) {
+        return fail(`Missing ${missing.join(", ")}`, {
+          insertion_fb: "fail",
+        });
+      }
+      shipment.insertedAt = new Date().toISOString();
+      shipment.details = data;
+      return ok({ insertion_fb: "success", status: "1", status_ref: "NA" });
+    }
+
+    case "tno.detail": {
+      const shipment = state.shipments.get(requireText(data, "tno"));
+      if (!shipment) {
+        return fail("Invalid tracking number");
+      }
+      return ok({ tracking_no: statusHistory(shipment) });
+    }
+  }
+}
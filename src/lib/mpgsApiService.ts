@@ -0,0 +1,458 @@
+/**
+ * MPGS (Mastercard Payment Gateway Services) API Service
+ *
+ * This service handles all interactions with the MPGS REST API used by the
+ * hosted checkout flow: checkout sessions, orders and transactions.
+ *
+ * Based on the MPGS REST API (version configured via MPGS_API_VERSION)
+ */
+
+import {
+  exchange,
+  ReplayMissError,
+  type TransportResponse,
+} from "@/lib/httpTransport";
+
+interface MpgsApiConfig {
+  baseUrl: string;
+  merchantId: string;
+  apiPassword: string;
+  apiVersion: string;
+  timeoutMs?: number;
+}
+
+type HttpMethod = "GET" | "POST" | "PUT";
+
+export interface TransactionAmount {
+  amount: number;
+  currency: string;
+}
+
+export type MpgsErrorKind =
+  | "GATEWAY_REJECTED" // MPGS answered with an ERROR result or non-2xx status
+  | "INVALID_RESPONSE" // MPGS answered but the body was not what we expected
+  | "TIMEOUT" // No answer within the configured timeout
+  | "NETWORK_ERROR"; // The request never reached MPGS
+
+export interface MpgsGatewayError {
+  cause?: string;
+  explanation?: string;
+  field?: string;
+  supportCode?: string;
+  validationType?: string;
+}
+
+export interface MpgsApiResponse {
+  result?: string;
+  error?: MpgsGatewayError;
+  [key: string]: unknown;
+}
+
+export interface CheckoutInteraction {
+  operation: "PURCHASE" | "AUTHORIZE";
+  merchant: {
+    name: string;
+  };
+  returnUrl?: string;
+  [key: string]: unknown;
+}
+
+export interface CheckoutOrder {
+  id: string;
+  amount: string;
+  currency: string;
+  description?: string;
+  customerOrderDate?: string;
+  [key: string]: unknown;
+}
+
+export interface CreateCheckoutSessionRequest {
+  interaction: CheckoutInteraction;
+  order: CheckoutOrder;
+}
+
+export interface CheckoutSessionResponse extends MpgsApiResponse {
+  merchant: string;
+  session: {
+    id: string;
+    updateStatus?: string;
+    version?: string;
+  };
+  successIndicator?: string;
+}
+
+export interface SessionResponse extends MpgsApiResponse {
+  session: {
+    id: string;
+    updateStatus?: string;
+    version?: string;
+  };
+  order?: Partial<CheckoutOrder>;
+}
+
+export interface TransactionResponse extends MpgsApiResponse {
+  order: {
+    id: string;
+    amount: number;
+    currency: string;
+    status?: string;
+    [key: string]: unknown;
+  };
+  response?: {
+    gatewayCode?: string;
+    acquirerCode?: string;
+    acquirerMessage?: string;
+    [key: string]: unknown;
+  };
+  transaction: {
+    id: string;
+    type: string;
+    amount: number;
+    currency: string;
+    [key: string]: unknown;
+  };
+  sourceOfFunds?: {
+    type?: string;
+    provided?: {
+      card?: {
+        brand?: string;
+        number?: string;
+        fundingMethod?: string;
+        [key: string]: unknown;
+      };
+    };
+  };
+  timeOfRecord?: string;
+}
+
+export interface OrderResponse extends MpgsApiResponse {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  totalAuthorizedAmount?: number;
+  totalCapturedAmount?: number;
+  totalRefundedAmount?: number;
+  creationTime?: string;
+  transaction?: TransactionResponse[];
+}
+
+/**
+ * Error raised for every failed MPGS call. `kind` tells callers whether the
+ * gateway rejected the request or whether it never got a usable answer.
+ */
+export class MpgsApiError extends Error {
+  readonly kind: MpgsErrorKind;
+  readonly operation: string;
+  readonly httpStatus: number | null;
+  readonly gatewayError: MpgsGatewayError | null;
+  readonly responseBody: unknown;
+
+  constructor(options: {
+    kind: MpgsErrorKind;
+    operation: string;
+    message: string;
+    httpStatus?: number | null;
+    gatewayError?: MpgsGatewayError | null;
+    responseBody?: unknown;
+    cause?: unknown;
+  }) {
+    super(options.message, { cause: options.cause });
+    this.name = "MpgsApiError";
+    this.kind = options.kind;
+    this.operation = options.operation;
+    this.httpStatus = options.httpStatus ?? null;
+    this.gatewayError = options.gatewayError ?? null;
+    this.responseBody = options.responseBody;
+  }
+}
+
+/**
+ * True when MPGS answered that the order does not exist, i.e. the customer
+ * never got as far as submitting a payment.
+ */
+export function isOrderNotFoundError(error: unknown): boolean {
+  if (!(error instanceof MpgsApiError) || error.kind !== "GATEWAY_REJECTED") {
+    return false;
+  }
+  if (error.httpStatus === 404) {
+    return true;
+  }
+  const explanation = error.gatewayError?.explanation ?? "";
+  return (
+    error.gatewayError?.field === "orderId" ||
+    /unable to find|no order|not found/i.test(explanation)
+  );
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export class MpgsApiService {
+  private config: MpgsApiConfig;
+  private authHeader: string;
+
+  constructor(config: MpgsApiConfig) {
+    this.config = config;
+    this.authHeader = `Basic ${Buffer.from(
+      `merchant.${config.merchantId}:${config.apiPassword}`
+    ).toString("base64")}`;
+  }
+
+  /**
+   * Create a hosted checkout session
+   */
+  async createCheckoutSession(
+    request: CreateCheckoutSessionRequest
+  ): Promise<CheckoutSessionResponse> {
+    const response = await this.makeRequest<CheckoutSessionResponse>(
+      "CREATE_CHECKOUT_SESSION",
+      "POST",
+      "/session",
+      {
+        apiOperation: "CREATE_CHECKOUT_SESSION",
+        interaction: request.interaction,
+        order: request.order,
+      }
+    );
+
+    if (response.result !== "SUCCESS" || !response.session?.id) {
+      throw new MpgsApiError({
+        kind: "INVALID_RESPONSE",
+        operation: "CREATE_CHECKOUT_SESSION",
+        message:
+          response.error?.explanation ||
+          "Gateway returned non-SUCCESS result for session creation.",
+        gatewayError: response.error ?? null,
+        responseBody: response,
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Retrieve a checkout session
+   */
+  async retrieveSession(sessionId: string): Promise<SessionResponse> {
+    return this.makeRequest<SessionResponse>(
+      "RETRIEVE_SESSION",
+      "GET",
+      `/session/${encodeURIComponent(sessionId)}`
+    );
+  }
+
+  /**
+   * Retrieve an order, including all of its transactions
+   */
+  async retrieveOrder(orderId: string): Promise<OrderResponse> {
+    return this.makeRequest<OrderResponse>(
+      "RETRIEVE_ORDER",
+      "GET",
+      `/order/${encodeURIComponent(orderId)}`
+    );
+  }
+
+  /**
+   * Retrieve a single transaction on an order
+   */
+  async retrieveTransaction(
+    orderId: string,
+    transactionId: string
+  ): Promise<TransactionResponse> {
+    return this.makeRequest<TransactionResponse>(
+      "RETRIEVE_TRANSACTION",
+      "GET",
+      `/order/${encodeURIComponent(orderId)}/transaction/${encodeURIComponent(
+        transactionId
+      )}`
+    );
+  }
+
+  /**
+   * Capture (part of) an authorized order under a new transaction ID
+   */
+  async captureOrder(
+    orderId: string,
+    transactionId: string,
+    request: TransactionAmount
+  ): Promise<TransactionResponse> {
+    return this.submitTransaction("CAPTURE", orderId, transactionId, {
+      amount: request.amount.toFixed(2),
+      currency: request.currency,
+    });
+  }
+
+  /**
+   * Refund (part of) a captured order under a new transaction ID
+   */
+  async refundOrder(
+    orderId: string,
+    transactionId: string,
+    request: TransactionAmount
+  ): Promise<TransactionResponse> {
+    return this.submitTransaction("REFUND", orderId, transactionId, {
+      amount: request.amount.toFixed(2),
+      currency: request.currency,
+    });
+  }
+
+  /**
+   * Void an earlier transaction (e.g. release an authorization)
+   */
+  async voidTransaction(
+    orderId: string,
+    transactionId: string,
+    targetTransactionId: string
+  ): Promise<TransactionResponse> {
+    return this.submitTransaction("VOID", orderId, transactionId, {
+      targetTransactionId,
+    });
+  }
+
+  private async submitTransaction(
+    apiOperation: string,
+    orderId: string,
+    transactionId: string,
+    transaction: Record<string, unknown>
+  ): Promise<TransactionResponse> {
+    return this.makeRequest<TransactionResponse>(
+      apiOperation,
+      "PUT",
+      `/order/${encodeURIComponent(orderId)}/transaction/${encodeURIComponent(
+        transactionId
+      )}`,
+      {
+        apiOperation,
+        transaction,
+      }
+    );
+  }
+
+  /**
+   * Make a request to the MPGS REST API
+   */
+  private async makeRequest<T extends MpgsApiResponse>(
+    operation: string,
+    method: HttpMethod,
+    path: string,
+    body?: Record<string, unknown>
+  ): Promise<T> {
+    const url = `${this.config.baseUrl}/api/rest/version/${this.config.apiVersion}/merchant/${this.config.merchantId}${path}`;
+
+    console.log(`💳 MPGS API Request: ${operation}`, { method, url });
+
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    );
+
+    const headers = {
+      "Content-Type": "application/json",
+      Authorization: this.authHeader,
+    };
+    const requestBody = body ? JSON.stringify(body) : undefined;
+
+    let response: TransportResponse;
+    try {
+      response = await exchange(
+        { service: "mpgs", operation, method, url, headers, body: requestBody },
+        async () => {
+          const httpResponse = await fetch(url, {
+            method,
+            headers,
+            body: requestBody,
+            signal: controller.signal,
+          });
+          return {
+            status: httpResponse.status,
+            body: await httpResponse.text(),
+          };
+        }
+      );
+    } catch (error) {
+      if (error instanceof ReplayMissError) {
+        throw error;
+      }
+      const timedOut = controller.signal.aborted;
+      throw new MpgsApiError({
+        kind: timedOut ? "TIMEOUT" : "NETWORK_ERROR",
+        operation,
+        message: timedOut
+          ? `MPGS ${operation} timed out`
+          : `MPGS ${operation} request failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+        cause: error,
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const raw = response.body;
+    const ok = response.status >= 200 && response.status < 300;
+    let result: T;
+    try {
+      result = (raw ? JSON.parse(raw) : {}) as T;
+    } catch (parseError) {
+      throw new MpgsApiError({
+        kind: "INVALID_RESPONSE",
+        operation,
+        message: `MPGS ${operation} returned a non-JSON response`,
+        httpStatus: response.status,
+        responseBody: raw,
+        cause: parseError,
+      });
+    }
+
+    console.log(`💳 MPGS API Response: ${operation}`, {
+      status: response.status,
+      result: result.result,
+    });
+
+    if (!ok || result.result === "ERROR") {
+      throw new MpgsApiError({
+        kind: "GATEWAY_REJECTED",
+        operation,
+        message:
+          result.error?.explanation ||
+          result.error?.cause ||
+          `Gateway error during ${operation}.`,
+        httpStatus: response.status,
+        gatewayError: result.error ?? null,
+        responseBody: result,
+      });
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Create MPGS API service instance
+ */
+export function createMpgsApiService(): MpgsApiService {
+  const { MPGS_MERCHANT_ID, MPGS_API_PASSWORD, MPGS_API_BASE_URL } =
+    process.env;
+
+  const requiredEnvVars = {
+    MPGS_MERCHANT_ID,
+    MPGS_API_PASSWORD,
+    MPGS_API_BASE_URL,
+  };
+
+  for (const [key, value] of Object.entries(requiredEnvVars)) {
+    if (!value) {
+      throw new Error(`Configuration error: Missing ${key}`);
+    }
+  }
+
+  return new MpgsApiService({
+    baseUrl: MPGS_API_BASE_URL as string,
+    merchantId: MPGS_MERCHANT_ID as string,
+    apiPassword: MPGS_API_PASSWORD as string,
+    apiVersion: process.env.MPGS_API_VERSION || "70",
+  });
+}
+
+export default MpgsApiService;
@@ -0,0 +1,636 @@
+import crypto from "crypto";
+import {
+  createMpgsApiService,
+  MpgsApiError,
+  type OrderResponse,
+  type TransactionResponse,
+} from "@/lib/mpgsApiService";
+import {
+  canTransitionPaymentStatus,
+  getPaymentSession,
+  updatePaymentSession,
+  updatePaymentSessionFrom,
+  type PaymentMode,
+  type PaymentSessionRecord,
+} from "@/lib/repositories/paymentSessions";
+import {
+  upsertPaymentTransaction,
+  type PaymentTransactionRecord,
+} from "@/lib/repositories/paymentTransactions";
+import type {
+  PaymentMethod,
+  PaymentStatus,
+  PaymentTransactionType,
+} from "@/schemas/payment.schema";
+import {
+  createPaymentRefund,
+  getRefundedTotal,
+  listRefundsForSession,
+  updatePaymentRefund,
+  type PaymentRefundRecord,
+} from "@/lib/repositories/paymentRefunds";
+
+/**
+ * Raised when a payment operation is not allowed for the session in its
+ * current state (e.g. refunding more than was paid).
+ */
+export class PaymentOperationError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "PaymentOperationError";
+    this.code = code;
+  }
+}
+
+export interface RefundRequest {
+  amount?: number;
+  reason: string;
+}
+
+export interface RefundResult {
+  sessionId: string;
+  orderId: string;
+  refund: PaymentRefundRecord;
+  refundedTotal: number;
+  remainingAmount: number;
+  paymentStatus: string;
+}
+
+/**
+ * Outcome of a CAPTURE or VOID, stored on the session under
+ * `metadata.capture` / `metadata.void`.
+ */
+export interface GatewayOperationOutcome {
+  transactionId: string;
+  status: "SUCCESS" | "FAILED";
+  amount?: number;
+  targetTransactionId?: string;
+  reason?: string;
+  error?: string;
+  gatewayResponse?: unknown;
+  at: string;
+}
+
+/**
+ * Payment mode for a new session: explicit request value, then
+ * MPGS_PAYMENT_MODE, then PURCHASE.
+ */
+export function resolvePaymentMode(requested?: PaymentMode): PaymentMode {
+  if (requested) {
+    return requested;
+  }
+  return process.env.MPGS_PAYMENT_MODE?.toUpperCase() === "AUTHORIZE"
+    ? "AUTHORIZE"
+    : "PURCHASE";
+}
+
+// MPGS transaction IDs are limited to 40 characters.
+function newTransactionId(prefix: string): string {
+  return `${prefix}-${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+function toTransactionType(type: string | undefined): PaymentTransactionType | null {
+  const normalized = type?.toUpperCase() ?? "";
+  if (normalized.startsWith("VOID")) {
+    return "VOID";
+  }
+  switch (normalized) {
+    case "AUTHORIZATION":
+    case "CAPTURE":
+    case "PAYMENT":
+    case "REFUND":
+      return normalized;
+    default:
+      // VERIFICATION, AUTHENTICATION etc. move no money.
+      return null;
+  }
+}
+
+function toTransactionStatus(result: string | undefined): PaymentStatus {
+  switch (result?.toUpperCase()) {
+    case "SUCCESS":
+      return "COMPLETED";
+    case "PENDING":
+      return "PENDING";
+    case "UNKNOWN":
+      return "PROCESSING";
+    default:
+      return "FAILED";
+  }
+}
+
+function toPaymentMethod(
+  sourceOfFunds: TransactionResponse["sourceOfFunds"]
+): PaymentMethod {
+  if (sourceOfFunds?.type && sourceOfFunds.type !== "CARD") {
+    return "DIGITAL_WALLET";
+  }
+  return sourceOfFunds?.provided?.card?.fundingMethod?.toUpperCase() === "DEBIT"
+    ? "DEBIT_CARD"
+    : "CREDIT_CARD";
+}
+
+function cardDetails(sourceOfFunds: TransactionResponse["sourceOfFunds"]) {
+  const card = sourceOfFunds?.provided?.card;
+  const digits = card?.number?.replace(/\D/g, "") ?? "";
+  return {
+    cardBrand: card?.brand ?? null,
+    cardLast4: digits.length >= 4 ? digits.slice(-4) : null,
+  };
+}
+
+/**
+ * Store one MPGS transaction (from an order retrieval or an operation
+ * response) in payment_transactions. Non-monetary types are ignored.
+ */
+export async function recordGatewayTransaction(
+  session: Pick<PaymentSessionRecord, "sessionId" | "orderId">,
+  response: TransactionResponse
+): Promise<PaymentTransactionRecord | null> {
+  const type = toTransactionType(response.transaction?.type);
+  if (!type || !response.transaction?.id) {
+    return null;
+  }
+
+  return upsertPaymentTransaction({
+    orderId: session.orderId,
+    sessionId: session.sessionId,
+    transactionId: response.transaction.id,
+    type,
+    amount: Number(response.transaction.amount),
+    currency: response.transaction.currency,
+    status: toTransactionStatus(response.result),
+    method: toPaymentMethod(response.sourceOfFunds),
+    ...cardDetails(response.sourceOfFunds),
+    gatewayResponse: response,
+  });
+}
+
+// The ledger must never block payment processing, so write failures are
+// only logged.
+async function tryRecordGatewayTransaction(
+  session: Pick<PaymentSessionRecord, "sessionId" | "orderId">,
+  response: TransactionResponse
+): Promise<void> {
+  try {
+    await recordGatewayTransaction(session, response);
+  } catch (error) {
+    console.error(
+      `❌ Failed to record MPGS transaction for order ${session.orderId}`,
+      error
+    );
+  }
+}
+
+/**
+ * Record every transaction listed on a retrieved MPGS order.
+ */
+export async function syncOrderTransactions(
+  session: Pick<PaymentSessionRecord, "sessionId" | "orderId">,
+  order: OrderResponse
+): Promise<void> {
+  for (const entry of order.transaction ?? []) {
+    await tryRecordGatewayTransaction(session, entry);
+  }
+}
+
+// Operations that never reached a gateway response are still kept in the
+// ledger so failed captures/voids/refunds are visible.
+async function recordFailedOperation(
+  session: PaymentSessionRecord,
+  transactionId: string,
+  type: PaymentTransactionType,
+  amount: number,
+  error: unknown,
+  status: PaymentStatus = "FAILED"
+): Promise<void> {
+  try {
+    await upsertPaymentTransaction({
+      orderId: session.orderId,
+      sessionId: session.sessionId,
+      transactionId,
+      type,
+      amount,
+      currency: session.currency,
+      status,
+      method: "CREDIT_CARD",
+      gatewayResponse:
+        error instanceof MpgsApiError &&
+        error.responseBody &&
+        typeof error.responseBody === "object"
+          ? (error.responseBody as Record<string, unknown>)
+          : { error: error instanceof Error ? error.message : String(error) },
+    });
+  } catch (recordError) {
+    console.error(
+      `❌ Failed to record ${type} for order ${session.orderId}`,
+      recordError
+    );
+  }
+}
+
+function describeError(error: unknown) {
+  return {
+    error: error instanceof Error ? error.message : String(error),
+    gatewayResponse:
+      error instanceof MpgsApiError ? error.responseBody : undefined,
+  };
+}
+
+/**
+ * Capture the authorized amount of an AUTHORIZE-mode session. Called once
+ * the Pronto shipment has been created.
+ */
+export async function capturePaymentForSession(
+  sessionId: string
+): Promise<GatewayOperationOutcome> {
+  const session = await getPaymentSession(sessionId);
+  if (!session) {
+    throw new Error(`Payment session not found for ${sessionId}`);
+  }
+
+  if (session.paymentMode !== "AUTHORIZE") {
+    throw new PaymentOperationError(
+      "CAPTURE_NOT_ALLOWED",
+      "Only AUTHORIZE-mode sessions can be captured"
+    );
+  }
+
+  const transactionId = newTransactionId("capture");
+  let outcome: GatewayOperationOutcome;
+  try {
+    const response = await createMpgsApiService().captureOrder(
+      session.orderId,
+      transactionId,
+      { amount: session.amount, currency: session.currency }
+    );
+    await tryRecordGatewayTransaction(session, response);
+    outcome = {
+      transactionId,
+      status: response.result === "SUCCESS" ? "SUCCESS" : "FAILED",
+      amount: session.amount,
+      gatewayResponse: response,
+      at: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error(`❌ MPGS capture failed for ${sessionId}`, error);
+    await recordFailedOperation(
+      session,
+      transactionId,
+      "CAPTURE",
+      session.amount,
+      error
+    );
+    outcome = {
+      transactionId,
+      status: "FAILED",
+      amount: session.amount,
+      ...describeError(error),
+      at: new Date().toISOString(),
+    };
+  }
+
+  // The capture took a gateway round trip; the session is re-read inside
+  // the write so updates made meanwhile (e.g. a webhook) are kept.
+  await updatePaymentSessionFrom(sessionId, (latest) => ({
+    ...(outcome.status === "SUCCESS" &&
+      canTransitionPaymentStatus(latest.status, "COMPLETED") && {
+        status: "COMPLETED" as const,
+      }),
+    metadata: {
+      ...(latest.metadata || {}),
+      capture: outcome,
+    },
+  }));
+
+  return outcome;
+}
+
+/**
+ * Release the authorization of an AUTHORIZE-mode session whose shipment
+ * could not be created.
+ */
+export async function voidAuthorizationForSession(
+  sessionId: string,
+  reason: string
+): Promise<GatewayOperationOutcome> {
+  const session = await getPaymentSession(sessionId);
+  if (!session) {
+    throw new Error(`Payment session not found for ${sessionId}`);
+  }
+
+  if (session.paymentMode !== "AUTHORIZE") {
+    throw new PaymentOperationError(
+      "VOID_NOT_ALLOWED",
+      "Only AUTHORIZE-mode sessions can be voided"
+    );
+  }
+
+  const mpgsApi = createMpgsApiService();
+  const transactionId = newTransactionId("void");
+  let outcome: GatewayOperationOutcome;
+  try {
+    const order = await mpgsApi.retrieveOrder(session.orderId);
+    const authorization = [...(order.transaction ?? [])]
+      .reverse()
+      .find(
+        (entry) =>
+          entry.transaction?.type === "AUTHORIZATION" &&
+          entry.result === "SUCCESS"
+      );
+    if (!authorization) {
+      throw new PaymentOperationError(
+        "AUTHORIZATION_NOT_FOUND",
+        `No successful authorization found on order ${session.orderId}`
+      );
+    }
+
+    const response = await mpgsApi.voidTransaction(
+      session.orderId,
+      transactionId,
+      authorization.transaction.id
+    );
+    await tryRecordGatewayTransaction(session, response);
+    outcome = {
+      transactionId,
+      status: response.result === "SUCCESS" ? "SUCCESS" : "FAILED",
+      targetTransactionId: authorization.transaction.id,
+      reason,
+      gatewayResponse: response,
+      at: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error(`❌ MPGS void failed for ${sessionId}`, error);
+    await recordFailedOperation(
+      session,
+      transactionId,
+      "VOID",
+      session.amount,
+      error
+    );
+    outcome = {
+      transactionId,
+      status: "FAILED",
+      reason,
+      ...describeError(error),
+      at: new Date().toISOString(),
+    };
+  }
+
+  await updatePaymentSessionFrom(sessionId, (latest) => ({
+    ...(outcome.status === "SUCCESS" && { status: "CANCELLED" as const }),
+    metadata: {
+      ...(latest.metadata || {}),
+      void: outcome,
+    },
+  }));
+
+  return outcome;
+}
+
+// REVIEW sessions were paid but flagged for a manual check (amount or
+// currency mismatch, risk review); refunding is how such a review is
+// usually resolved, so it must not be blocked.
+const REFUNDABLE_STATUSES = new Set(["COMPLETED", "REVIEW"]);
+
+/**
+ * True when the refund may have gone through even though no answer came
+ * back, i.e. MPGS did not explicitly reject it.
+ */
+function isRefundOutcomeUnknown(error: unknown): boolean {
+  return !(error instanceof MpgsApiError) || error.kind !== "GATEWAY_REJECTED";
+}
+
+/**
+ * Store the confirmed refunded amount on the session and mark it REFUNDED
+ * once confirmed refunds cover the full amount. PENDING refunds do not
+ * count here, so the session stays refundable until they are settled.
+ */
+async function applyConfirmedRefunds(
+  session: PaymentSessionRecord,
+  lastRefundAt: string
+): Promise<PaymentSessionRecord> {
+  const confirmedTotal = Number(
+    (await listRefundsForSession(session.sessionId))
+      .filter((refund) => refund.status === "SUCCESS")
+      .reduce((total, refund) => total + refund.amount, 0)
+      .toFixed(2)
+  );
+  return updatePaymentSession(session.sessionId, {
+    ...(confirmedTotal >= session.amount && { status: "REFUNDED" as const }),
+    metadata: {
+      ...(session.metadata || {}),
+      refundedAmount: confirmedTotal,
+      lastRefundAt,
+    },
+  });
+}
+
+/**
+ * Ask MPGS for the outcome of refunds recorded as PENDING. A refund the
+ * gateway has no record of never happened; one it still cannot answer for
+ * stays PENDING and keeps holding its amount.
+ */
+async function confirmPendingRefunds(
+  session: PaymentSessionRecord
+): Promise<PaymentSessionRecord> {
+  const pending = (await listRefundsForSession(session.sessionId)).filter(
+    (refund) => refund.status === "PENDING"
+  );
+  if (pending.length === 0) {
+    return session;
+  }
+
+  const mpgsApi = createMpgsApiService();
+  let lastConfirmedAt: string | null = null;
+  for (const refund of pending) {
+    try {
+      const transaction = await mpgsApi.retrieveTransaction(
+        session.orderId,
+        refund.refundId
+      );
+      await tryRecordGatewayTransaction(session, transaction);
+      const confirmed = transaction.result === "SUCCESS";
+      await updatePaymentRefund(refund.refundId, {
+        status: confirmed ? "SUCCESS" : "FAILED",
+        gatewayResponse: transaction,
+      });
+      if (confirmed) {
+        lastConfirmedAt = refund.createdAt;
+      }
+    } catch (error) {
+      if (isRefundOutcomeUnknown(error)) {
+        console.error(
+          `❌ Could not confirm refund ${refund.refundId} for order ${session.orderId}`,
+          error
+        );
+        continue;
+      }
+      await recordFailedOperation(
+        session,
+        refund.refundId,
+        "REFUND",
+        refund.amount,
+        error
+      );
+      await updatePaymentRefund(refund.refundId, {
+        status: "FAILED",
+        gatewayResponse: describeError(error),
+      });
+    }
+  }
+
+  return lastConfirmedAt
+    ? applyConfirmedRefunds(session, lastConfirmedAt)
+    : session;
+}
+
+// Refunds for the same session are serialized so that two concurrent
+// requests cannot both pass the "not more than paid" check.
+const refundsInFlight = new Set<string>();
+
+/**
+ * Refund a completed payment session, fully (no amount) or partially.
+ */
+export async function refundPaymentSession(
+  sessionId: string,
+  request: RefundRequest
+): Promise<RefundResult> {
+  if (refundsInFlight.has(sessionId)) {
+    throw new PaymentOperationError(
+      "REFUND_IN_PROGRESS",
+      "Another refund for this session is still being processed"
+    );
+  }
+
+  refundsInFlight.add(sessionId);
+  try {
+    const stored = await getPaymentSession(sessionId);
+    if (!stored) {
+      throw new Error(`Payment session not found for ${sessionId}`);
+    }
+
+    if (!REFUNDABLE_STATUSES.has(stored.status)) {
+      throw new PaymentOperationError(
+        "REFUND_NOT_ALLOWED",
+        `Cannot refund a session in ${stored.status} status`
+      );
+    }
+
+    const session = await confirmPendingRefunds(stored);
+    const refundedTotal = await getRefundedTotal(sessionId);
+    const remainingAmount = Number((session.amount - refundedTotal).toFixed(2));
+    const amount = Number((request.amount ?? remainingAmount).toFixed(2));
+
+    if (amount <= 0 || remainingAmount <= 0) {
+      const pendingTotal = Number(
+        (await listRefundsForSession(sessionId))
+          .filter((refund) => refund.status === "PENDING")
+          .reduce((total, refund) => total + refund.amount, 0)
+          .toFixed(2)
+      );
+      throw new PaymentOperationError(
+        "NOTHING_TO_REFUND",
+        remainingAmount <= 0 && pendingTotal > 0
+          ? `Refunds of ${pendingTotal} ${session.currency} are still awaiting MPGS confirmation`
+          : "This session has already been fully refunded"
+      );
+    }
+
+    if (amount > remainingAmount) {
+      throw new PaymentOperationError(
+        "REFUND_EXCEEDS_AMOUNT",
+        `Refund of ${amount} exceeds the refundable balance of ${remainingAmount} ${session.currency}`
+      );
+    }
+
+    const refundId = newTransactionId("refund");
+    const mpgsApi = createMpgsApiService();
+
+    let gatewayResponse: TransactionResponse;
+    try {
+      gatewayResponse = await mpgsApi.refundOrder(session.orderId, refundId, {
+        amount,
+        currency: session.currency,
+      });
+    } catch (error) {
+      // Without an answer the refund may still have been made, so its
+      // amount stays reserved until confirmPendingRefunds settles it.
+      const status = isRefundOutcomeUnknown(error) ? "PENDING" : "FAILED";
+      await recordFailedOperation(
+        session,
+        refundId,
+        "REFUND",
+        amount,
+        error,
+        status
+      );
+      await createPaymentRefund({
+        refundId,
+        sessionId,
+        orderId: session.orderId,
+        amount,
+        currency: session.currency,
+        reason: request.reason,
+        status,
+        gatewayResponse:
+          error instanceof MpgsApiError &&
+          error.responseBody &&
+          typeof error.responseBody === "object"
+            ? (error.responseBody as Record<string, unknown>)
+            : {
+                error: error instanceof Error ? error.message : String(error),
+              },
+      });
+      throw error;
+    }
+
+    await tryRecordGatewayTransaction(session, gatewayResponse);
+
+    if (gatewayResponse.result !== "SUCCESS") {
+      await createPaymentRefund({
+        refundId,
+        sessionId,
+        orderId: session.orderId,
+        amount,
+        currency: session.currency,
+        reason: request.reason,
+        status: "FAILED",
+        gatewayResponse,
+      });
+      throw new PaymentOperationError(
+        "REFUND_DECLINED",
+        `Gateway did not approve the refund (result: ${String(
+          gatewayResponse.result
+        )})`
+      );
+    }
+
+    const refund = await createPaymentRefund({
+      refundId,
+      sessionId,
+      orderId: session.orderId,
+      amount,
+      currency: session.currency,
+      reason: request.reason,
+      status: "SUCCESS",
+      gatewayResponse,
+    });
+
+    const newRefundedTotal = Number((refundedTotal + amount).toFixed(2));
+    const updated = await applyConfirmedRefunds(session, refund.createdAt);
+
+    return {
+      sessionId,
+      orderId: session.orderId,
+      refund,
+      refundedTotal: newRefundedTotal,
+      remainingAmount: Number((session.amount - newRefundedTotal).toFixed(2)),
+      paymentStatus: updated.status,
+    };
+  } finally {
+    refundsInFlight.delete(sessionId);
+  }
+}
@@ -0,0 +1,284 @@
+import {
+  createMpgsApiService,
+  isOrderNotFoundError,
+  type OrderResponse,
+} from "@/lib/mpgsApiService";
+import { verifyGatewayOrder } from "@/lib/paymentVerification";
+import { syncOrderTransactions } from "@/lib/paymentOrderService";
+import { enqueueShipmentJob } from "@/lib/shipmentJobs";
+import {
+  listSessionsByStatusCreatedBefore,
+  updatePaymentSessionFrom,
+  withSessionHistory,
+  type PaymentSessionRecord,
+  type PaymentSessionStatus,
+} from "@/lib/repositories/paymentSessions";
+
+/**
+ * Expiry sweeper for abandoned checkouts.
+ *
+ * MPGS checkout sessions time out, but our PENDING rows do not. Sessions
+ * older than the TTL are checked against the gateway order and either
+ * reconciled to what actually happened or marked EXPIRED.
+ */
+
+export type SweepAction = "EXPIRED" | "RECONCILED" | "SKIPPED";
+
+export interface SweepDecision {
+  sessionId: string;
+  orderId: string;
+  action: SweepAction;
+  from: PaymentSessionStatus;
+  to: PaymentSessionStatus | null;
+  gatewayStatus: string | null;
+  reason: string;
+  shipmentJobId?: string;
+  shipmentError?: string;
+}
+
+export interface SweepSummary {
+  ttlMinutes: number;
+  cutoff: string;
+  startedAt: string;
+  finishedAt: string;
+  checked: number;
+  decisions: SweepDecision[];
+}
+
+export interface SweepOptions {
+  ttlMinutes?: number;
+  limit?: number;
+}
+
+const DEFAULT_TTL_MINUTES = 60;
+const DEFAULT_SWEEP_INTERVAL_MINUTES = 5;
+
+function readPositiveNumber(value: string | undefined, fallback: number) {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getSessionTtlMinutes(): number {
+  return readPositiveNumber(
+    process.env.PAYMENT_SESSION_TTL_MINUTES,
+    DEFAULT_TTL_MINUTES
+  );
+}
+
+function decide(
+  session: PaymentSessionRecord,
+  order: OrderResponse | null
+): Pick<SweepDecision, "action" | "to" | "gatewayStatus" | "reason"> & {
+  verification?: ReturnType<typeof verifyGatewayOrder>;
+} {
+  if (!order) {
+    return {
+      action: "EXPIRED",
+      to: "EXPIRED",
+      gatewayStatus: null,
+      reason: "No order exists at the gateway; checkout was abandoned",
+    };
+  }
+
+  const verification = verifyGatewayOrder(session, order);
+  const gatewayStatus = verification.gatewayStatus;
+
+  if (verification.mismatches.length > 0) {
+    return {
+      action: "RECONCILED",
+      to: "REVIEW",
+      gatewayStatus,
+      reason: verification.mismatches.join("; "),
+      verification,
+    };
+  }
+
+  if (verification.verdict === "PAID") {
+    return {
+      action: "RECONCILED",
+      to: session.paymentMode === "AUTHORIZE" ? "PROCESSING" : "COMPLETED",
+      gatewayStatus,
+      reason: `Gateway reports ${gatewayStatus}; webhook was never processed`,
+      verification,
+    };
+  }
+
+  if (gatewayStatus?.toUpperCase() === "FAILED") {
+    return {
+      action: "RECONCILED",
+      to: "FAILED",
+      gatewayStatus,
+      reason: "Gateway reports the payment attempt failed",
+      verification,
+    };
+  }
+
+  return {
+    action: "EXPIRED",
+    to: "EXPIRED",
+    gatewayStatus,
+    reason: `Checkout not completed within the TTL (gateway status ${gatewayStatus})`,
+    verification,
+  };
+}
+
+async function sweepSession(
+  session: PaymentSessionRecord
+): Promise<SweepDecision> {
+  const base = {
+    sessionId: session.sessionId,
+    orderId: session.orderId,
+    from: session.status,
+  };
+
+  let order: OrderResponse | null;
+  try {
+    order = await createMpgsApiService().retrieveOrder(session.orderId);
+  } catch (error) {
+    if (!isOrderNotFoundError(error)) {
+      // Gateway unreachable: try again on the next sweep rather than guess.
+      return {
+        ...base,
+        action: "SKIPPED",
+        to: null,
+        gatewayStatus: null,
+        reason: error instanceof Error ? error.message : String(error),
+      };
+    }
+    order = null;
+  }
+
+  if (order) {
+    await syncOrderTransactions(session, order);
+  }
+
+  const { verification, ...decision } = decide(session, order);
+  const at = new Date().toISOString();
+
+  const { session: current, changed } = await updatePaymentSessionFrom(
+    session.sessionId,
+    (latest) =>
+      // A webhook moved the session while we were asking the gateway; it
+      // owns the outcome (and the shipment) from here.
+      latest.status !== session.status
+        ? null
+        : {
+            status: decision.to ?? undefined,
+            metadata: withSessionHistory(
+              {
+                ...(latest.metadata || {}),
+                ...(verification && { gatewayVerification: verification }),
+              },
+              {
+                at,
+                event: "EXPIRY_SWEEP",
+                from: latest.status,
+                to: decision.to ?? undefined,
+                reason: decision.reason,
+                gatewayStatus: decision.gatewayStatus,
+              }
+            ),
+          }
+  );
+
+  if (!changed) {
+    return {
+      ...base,
+      action: "SKIPPED",
+      to: null,
+      gatewayStatus: decision.gatewayStatus,
+      reason: `Session moved to ${current.status} during the sweep`,
+    };
+  }
+
+  const result: SweepDecision = { ...base, ...decision };
+
+  if (decision.to === "COMPLETED" || decision.to === "PROCESSING") {
+    try {
+      const job = await enqueueShipmentJob(session.sessionId);
+      result.shipmentJobId = job.jobId;
+    } catch (shipmentError) {
+      result.shipmentError =
+        shipmentError instanceof Error
+          ? shipmentError.message
+          : String(shipmentError);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check every PENDING session older than the TTL against MPGS.
+ */
+export async function sweepStalePaymentSessions(
+  options: SweepOptions = {}
+): Promise<SweepSummary> {
+  const ttlMinutes = options.ttlMinutes ?? getSessionTtlMinutes();
+  const startedAt = new Date();
+  const cutoff = new Date(
+    startedAt.getTime() - ttlMinutes * 60 * 1000
+  ).toISOString();
+
+  const staleSessions = await listSessionsByStatusCreatedBefore(
+    "PENDING",
+    cutoff,
+    options.limit ?? 100
+  );
+
+  const decisions: SweepDecision[] = [];
+  for (const session of staleSessions) {
+    const decision = await sweepSession(session);
+    console.log(`🧹 Session sweep: ${decision.action}`, decision);
+    decisions.push(decision);
+  }
+
+  return {
+    ttlMinutes,
+    cutoff,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    checked: staleSessions.length,
+    decisions,
+  };
+}
+
+declare global {
+  var __PAYMENT_SESSION_SWEEPER__: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Run the sweeper on an interval (used in development via instrumentation).
+ * Safe to call more than once; hot reloads reuse the existing timer.
+ */
+export function startPaymentSessionSweeper(): void {
+  if (globalThis.__PAYMENT_SESSION_SWEEPER__) {
+    return;
+  }
+
+  const intervalMinutes = readPositiveNumber(
+    process.env.PAYMENT_SESSION_SWEEP_INTERVAL_MINUTES,
+    DEFAULT_SWEEP_INTERVAL_MINUTES
+  );
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await sweepStalePaymentSessions();
+    } catch (error) {
+      console.error("❌ Session sweep failed", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+  timer.unref?.();
+
+  globalThis.__PAYMENT_SESSION_SWEEPER__ = timer;
+  console.log(
+    `🧹 Payment session sweeper started (every ${intervalMinutes} min, TTL ${getSessionTtlMinutes()} min)`
+  );
+}
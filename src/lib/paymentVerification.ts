@@ -0,0 +1,96 @@
+import type { OrderResponse } from "@/lib/mpgsApiService";
+import type { PaymentSessionRecord } from "@/lib/repositories/paymentSessions";
+
+/**
+ * Gateway-side verdict for an MPGS order:
+ * - PAID: funds were authorized or captured
+ * - NOT_PAID: the payment was declined, cancelled or failed
+ * - IN_PROGRESS: the customer has not finished paying yet
+ */
+export type GatewayVerdict = "PAID" | "NOT_PAID" | "IN_PROGRESS";
+
+export interface GatewayVerification {
+  verdict: GatewayVerdict;
+  gatewayStatus: string | null;
+  gatewayResult: string | null;
+  gatewayAmount: number | null;
+  gatewayCurrency: string | null;
+  mismatches: string[];
+  checkedAt: string;
+}
+
+const PAID_ORDER_STATUSES = new Set([
+  "AUTHORIZED",
+  "CAPTURED",
+  "PARTIALLY_CAPTURED",
+]);
+
+const IN_PROGRESS_ORDER_STATUSES = new Set([
+  "INITIATED",
+  "AUTHENTICATION_INITIATED",
+  "AUTHENTICATION_NOT_NEEDED",
+  "AUTHENTICATED",
+  "VERIFIED",
+]);
+
+// Amounts are stored with two decimals; anything below half a cent is noise.
+const AMOUNT_TOLERANCE = 0.005;
+
+function resolveVerdict(order: OrderResponse): GatewayVerdict {
+  const status = order.status?.toUpperCase();
+  if (order.result === "SUCCESS" && status && PAID_ORDER_STATUSES.has(status)) {
+    return "PAID";
+  }
+  if (status && IN_PROGRESS_ORDER_STATUSES.has(status)) {
+    return "IN_PROGRESS";
+  }
+  return "NOT_PAID";
+}
+
+/**
+ * Compare an MPGS order against the locally stored payment session.
+ * The order is authoritative: the verdict comes from its status, and any
+ * difference in order ID, amount or currency is reported as a mismatch.
+ */
+export function verifyGatewayOrder(
+  session: PaymentSessionRecord,
+  order: OrderResponse
+): GatewayVerification {
+  const mismatches: string[] = [];
+
+  if (order.id && order.id !== session.orderId) {
+    mismatches.push(
+      `Order ID mismatch: gateway ${order.id}, local ${session.orderId}`
+    );
+  }
+
+  const gatewayAmount =
+    typeof order.amount === "number" ? order.amount : Number(order.amount);
+  if (
+    !Number.isFinite(gatewayAmount) ||
+    Math.abs(gatewayAmount - session.amount) > AMOUNT_TOLERANCE
+  ) {
+    mismatches.push(
+      `Amount mismatch: gateway ${order.amount}, local ${session.amount}`
+    );
+  }
+
+  if (
+    !order.currency ||
+    order.currency.toUpperCase() !== session.currency.toUpperCase()
+  ) {
+    mismatches.push(
+      `Currency mismatch: gateway ${order.currency}, local ${session.currency}`
+    );
+  }
+
+  return {
+    verdict: resolveVerdict(order),
+    gatewayStatus: order.status ?? null,
+    gatewayResult: order.result ?? null,
+    gatewayAmount: Number.isFinite(gatewayAmount) ? gatewayAmount : null,
+    gatewayCurrency: order.currency ?? null,
+    mismatches,
+    checkedAt: new Date().toISOString(),
+  };
+}
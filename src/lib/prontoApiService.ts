@@ -1,5 +1,18 @@
 import https from "node:https";
 import { URL } from "node:url";
+import { z } from "zod";
+import { resolveDeliveryArea } from "@/lib/areaOverrides";
+import {
+  exchange,
+  ReplayMissError,
+  type TransportResponse,
+} from "@/lib/httpTransport";
+import {
+  ProntoEnvelopeSchema,
+  ProntoResponseSchemas,
+  type ProntoMethod,
+  type ProntoResponse,
+} from "@/schemas/pronto.schema";
 
 /**
  * Pronto Lanka API Service
@@ -19,37 +32,17 @@ interface ProntoApiConfig {
   customerCode: string;
 }
 
-interface ProntoApiResponse {
-  status: string;
-  status_ref?: string;
-  [key: string]: unknown;
-}
-
 interface CostEstimationRequest {
   customerCode: string;
   pkgWeight: number;
   prontoAc: string; // Area code (1-5)
 }
 
-interface CostEstimationResponse {
-  live_amount: {
-    amount: string;
-  };
-  [key: string]: unknown;
-}
-
 interface TrackingNumberRequest {
   customerCode: string;
   tnoCode: string; // "1" for non-COD, "2" for COD
 }
 
-interface TrackingNumberResponse {
-  emp_trackingno: {
-    tno: string;
-  };
-  [key: string]: unknown;
-}
-
 interface ShipmentInsertRequest {
   tno: string;
   senName?: string;
@@ -65,33 +58,87 @@ interface ShipmentInsertRequest {
   spNote?: string; // Special notes
 }
 
-interface ShipmentInsertResponse {
-  insertion_fb: string;
-  status: string;
-  status_ref?: string;
-  [key: string]: unknown;
-}
-
 interface TrackingDetailRequest {
   customerCode: string;
   tno: string;
 }
 
-interface TrackingDetailResponse {
-  emp_tracking: Array<{
-    status: string;
-    date: string;
-    time: string;
-    location?: string;
-    remarks?: string;
-  }>;
-  [key: string]: unknown;
+/**
+ * Base class for every failed Pronto call. Subclasses say why the call
+ * failed so that routes can tell a rejected input apart from an outage.
+ * `statusRef` is Pronto's own reason when it answered with status "0".
+ */
+export class ProntoApiError extends Error {
+  readonly method: string;
+  readonly httpStatus: number | null;
+  readonly statusRef: string | null;
+
+  constructor(options: {
+    method: string;
+    message: string;
+    httpStatus?: number | null;
+    statusRef?: string | null;
+    cause?: unknown;
+  }) {
+    super(options.message, { cause: options.cause });
+    this.name = new.target.name;
+    this.method = options.method;
+    this.httpStatus = options.httpStatus ?? null;
+    this.statusRef = options.statusRef ?? null;
+  }
 }
 
-interface ProntoHttpResponse<T> {
-  ok: boolean;
-  status: number;
-  body: ProntoApiResponse & T;
+/**
+ * Pronto refused our credentials or customer code.
+ */
+export class ProntoAuthError extends ProntoApiError {}
+
+/**
+ * Pronto rejected the request data, e.g. a bad phone number or address.
+ */
+export class ProntoValidationError extends ProntoApiError {}
+
+/**
+ * tno.detail was asked about a tracking number Pronto does not know.
+ */
+export class ProntoUnknownTrackingNumberError extends ProntoApiError {}
+
+/**
+ * Pronto did not answer in time.
+ */
+export class ProntoTimeoutError extends ProntoApiError {}
+
+/**
+ * The TLS handshake failed and insecure TLS is not allowed.
+ */
+export class ProntoTlsError extends ProntoApiError {}
+
+/**
+ * Pronto could not be reached or answered with a server error.
+ */
+export class ProntoUnavailableError extends ProntoApiError {}
+
+/**
+ * Raised when Pronto answers with something that is not the documented
+ * response for the method: non-JSON, an empty body or missing fields.
+ * `rawBody` is exactly what the carrier returned.
+ */
+export class ProntoProtocolError extends ProntoApiError {
+  readonly rawBody: string;
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(options: {
+    method: string;
+    message: string;
+    rawBody: string;
+    httpStatus?: number | null;
+    issues?: z.core.$ZodIssue[];
+    cause?: unknown;
+  }) {
+    super(options);
+    this.rawBody = options.rawBody;
+    this.issues = options.issues ?? [];
+  }
 }
 
 export class ProntoApiService {
@@ -104,11 +151,11 @@ export class ProntoApiService {
   }
 
   /**
-   * Get all rate structure for the customer code
+   * Get all rate structure for the customer code (defaults to the configured one)
    */
-  async getRateStructure(): Promise<ProntoApiResponse> {
-    const response = await this.makeRequest<ProntoApiResponse>('calc.method', {
-      customer_code: this.config.customerCode
+  async getRateStructure(customerCode?: string): Promise<ProntoResponse<'calc.method'>> {
+    const response = await this.makeRequest('calc.method', {
+      customer_code: customerCode || this.config.customerCode
     });
 
     return response;
@@ -117,8 +164,8 @@ export class ProntoApiService {
   /**
    * Calculate shipping cost for a specific package
    */
-  async calculateShippingCost(request: CostEstimationRequest): Promise<CostEstimationResponse> {
-    const response = await this.makeRequest<CostEstimationResponse>('pkg.amount', {
+  async calculateShippingCost(request: CostEstimationRequest): Promise<ProntoResponse<'pkg.amount'>> {
+    const response = await this.makeRequest('pkg.amount', {
       customer_code: request.customerCode,
       pkg_weight: request.pkgWeight,
       pronto_ac: request.prontoAc
@@ -130,8 +177,8 @@ export class ProntoApiService {
   /**
    * Request a tracking number
    */
-  async requestTrackingNumber(request: TrackingNumberRequest): Promise<TrackingNumberResponse> {
-    const response = await this.makeRequest<TrackingNumberResponse>('tno.request', {
+  async requestTrackingNumber(request: TrackingNumberRequest): Promise<ProntoResponse<'tno.request'>> {
+    const response = await this.makeRequest('tno.request', {
       tno_code: request.tnoCode,
       customer_code: request.customerCode
     });
@@ -142,8 +189,8 @@ export class ProntoApiService {
   /**
    * Insert shipment details
    */
-  async insertShipment(request: ShipmentInsertRequest): Promise<ShipmentInsertResponse> {
-    const response = await this.makeRequest<ShipmentInsertResponse>('tno.insert', {
+  async insertShipment(request: ShipmentInsertRequest): Promise<ProntoResponse<'tno.insert'>> {
+    const response = await this.makeRequest('tno.insert', {
       tno: request.tno,
       sen_name: request.senName || null,
       sen_phone: request.senPhone || null,
@@ -164,8 +211,8 @@ export class ProntoApiService {
   /**
    * Get tracking details for a shipment
    */
-  async getTrackingDetails(request: TrackingDetailRequest): Promise<TrackingDetailResponse> {
-    const response = await this.makeRequest<TrackingDetailResponse>('tno.detail', {
+  async getTrackingDetails(request: TrackingDetailRequest): Promise<ProntoResponse<'tno.detail'>> {
+    const response = await this.makeRequest('tno.detail', {
       customer_code: request.customerCode,
       tno: request.tno
     });
@@ -176,12 +223,12 @@ export class ProntoApiService {
   /**
    * Make a request to the Pronto API
    */
-  private async makeRequest<T extends Record<string, unknown>>(
-    method: string,
+  private async makeRequest<M extends ProntoMethod>(
+    method: M,
     data: Record<string, unknown>,
     retryCount = 0,
     forceInsecureTls = false
-  ): Promise<ProntoApiResponse & T> {
+  ): Promise<ProntoResponse<M>> {
     const url = `${this.config.baseUrl}?method=${method}`;
 
     const requestBody: Record<string, unknown> = {
@@ -204,20 +251,33 @@ export class ProntoApiService {
     }
 
     try {
-      const httpResponse = shouldUseInsecureTransport
-        ? await this.sendRequestWithHttpsFallback<T>(
-            url,
-            requestBody,
-            allowInsecureTls
-          )
-        : await this.sendRequestWithFetch<T>(
-            url,
-            requestBody,
-            allowInsecureTls
-          );
+      const httpResponse = await exchange(
+        {
+          service: "pronto",
+          operation: method,
+          method: "POST",
+          url,
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Basic ${this.authHeader}`,
+          },
+          body: JSON.stringify(requestBody),
+        },
+        () =>
+          shouldUseInsecureTransport
+            ? this.sendRequestWithHttpsFallback(
+                url,
+                requestBody,
+                allowInsecureTls
+              )
+            : this.sendRequestWithFetch(url, requestBody, allowInsecureTls)
+      );
 
       return this.processResponse(method, httpResponse);
     } catch (error) {
+      if (error instanceof ReplayMissError) {
+        throw error;
+      }
       if (
         allowInsecureTls &&
         !shouldUseInsecureTransport &&
@@ -241,15 +301,15 @@ export class ProntoApiService {
         return this.makeRequest(method, data, retryCount + 1, forceInsecureTls);
       }
 
-      throw error;
+      throw toProntoApiError(method, error, allowInsecureTls);
     }
   }
 
-  private async sendRequestWithFetch<T extends Record<string, unknown>>(
+  private async sendRequestWithFetch(
     url: string,
     requestBody: Record<string, unknown>,
     allowInsecureTls: boolean
-  ): Promise<ProntoHttpResponse<T>> {
+  ): Promise<TransportResponse> {
     type AgentFactory = new (options: {
       connect?: {
         timeout?: number;
@@ -292,11 +352,9 @@ export class ProntoApiService {
         signal: controller.signal,
       } as ExtendedRequestInit);
 
-      const body = (await response.json()) as ProntoApiResponse & T;
       return {
-        ok: response.ok,
         status: response.status,
-        body,
+        body: await response.text(),
       };
     } finally {
       clearTimeout(totalTimeout);
@@ -304,13 +362,11 @@ export class ProntoApiService {
     }
   }
 
-  private async sendRequestWithHttpsFallback<
-    T extends Record<string, unknown>
-  >(
+  private async sendRequestWithHttpsFallback(
     url: string,
     requestBody: Record<string, unknown>,
     allowInsecureTls: boolean
-  ): Promise<ProntoHttpResponse<T>> {
+  ): Promise<TransportResponse> {
     const parsedUrl = new URL(url);
     const bodyPayload = JSON.stringify(requestBody);
 
@@ -341,24 +397,11 @@ export class ProntoApiService {
           )
         );
         res.on("end", () => {
-          const raw = chunks.join("");
-          try {
-            const body = raw
-              ? (JSON.parse(raw) as ProntoApiResponse & T)
-              : ({ status: "0" } as ProntoApiResponse & T);
-            resolve({
-              ok:
-                !!res.statusCode &&
-                res.statusCode >= 200 &&
-                res.statusCode < 300,
-              status: res.statusCode ?? 0,
-              body,
-            });
-          } catch (parseError) {
-            reject(parseError);
-          } finally {
-            agent.destroy();
-          }
+          agent.destroy();
+          resolve({
+            status: res.statusCode ?? 0,
+            body: chunks.join(""),
+          });
         });
       });
 
@@ -376,25 +419,84 @@ export class ProntoApiService {
     });
   }
 
-  private processResponse<T extends Record<string, unknown>>(
-    method: string,
-    response: ProntoHttpResponse<T>
-  ): ProntoApiResponse & T {
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+  private processResponse<M extends ProntoMethod>(
+    method: M,
+    response: TransportResponse
+  ): ProntoResponse<M> {
+    if (response.status === 401 || response.status === 403) {
+      throw new ProntoAuthError({
+        method,
+        message: `Pronto refused the API credentials for ${method} (HTTP ${response.status})`,
+        httpStatus: response.status,
+      });
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      const options = {
+        method,
+        message: `Pronto returned HTTP ${response.status} for ${method}`,
+        httpStatus: response.status,
+      };
+      if (response.status === 408) {
+        throw new ProntoTimeoutError(options);
+      }
+      // Any other 4xx means Pronto refused this request as sent; repeating
+      // it unchanged will not help.
+      if (
+        response.status >= 400 &&
+        response.status < 500 &&
+        response.status !== 429
+      ) {
+        throw new ProntoApiError(options);
+      }
+      throw new ProntoUnavailableError(options);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(response.body);
+    } catch (error) {
+      throw new ProntoProtocolError({
+        method,
+        message: `Pronto returned ${
+          response.body.trim() ? "a non-JSON" : "an empty"
+        } response for ${method}`,
+        rawBody: response.body,
+        httpStatus: response.status,
+        cause: error,
+      });
     }
 
-    const result = response.body;
+    console.log(`🚚 Pronto API Response: ${method}`, body);
 
-    console.log(`🚚 Pronto API Response: ${method}`, result);
+    // Check the envelope first so that a status "0" rejection, which omits
+    // the method's payload, is reported as Pronto's own error.
+    const envelope = ProntoEnvelopeSchema.safeParse(body);
+    if (!envelope.success) {
+      throw this.protocolError(method, response.body, envelope.error);
+    }
 
-    if (result.status === "0") {
-      throw new Error(
-        `Pronto API error: ${result.status_ref || "Unknown error"}`
-      );
+    if (envelope.data.status === "0") {
+      throw rejectionError(method, envelope.data.status_ref ?? null);
     }
 
-    return result;
+    const result = ProntoResponseSchemas[method].safeParse(body);
+    if (!result.success) {
+      throw this.protocolError(method, response.body, result.error);
+    }
+
+    return result.data as ProntoResponse<M>;
+  }
+
+  private protocolError(method: string, rawBody: string, error: z.ZodError) {
+    return new ProntoProtocolError({
+      method,
+      message: `Unexpected Pronto response for ${method}: ${error.issues
+        .map((issue) => `${issue.path.join(".") || "body"} ${issue.message}`)
+        .join("; ")}`,
+      rawBody,
+      issues: error.issues,
+    });
   }
 
   private shouldAllowInsecureTls(): boolean {
@@ -409,6 +511,124 @@ export class ProntoApiService {
   }
 }
 
+// Pronto only explains a status "0" in free text, so rejections are
+// classified by what status_ref talks about.
+const AUTH_REJECTION_PATTERN =
+  /authori[sz]|credential|password|user ?name|access denied|customer.?code/i;
+const UNKNOWN_TNO_PATTERN = /tracking|tno/i;
+const VALIDATION_REJECTION_PATTERN =
+  /phone|address|name|weight|amount|value|area|location|required|missing|invalid|length|format/i;
+
+function rejectionError(method: string, statusRef: string | null) {
+  const reason = statusRef || "Unknown error";
+  const options = {
+    method,
+    statusRef,
+    message: `Pronto rejected ${method}: ${reason}`,
+  };
+
+  if (AUTH_REJECTION_PATTERN.test(reason)) {
+    return new ProntoAuthError(options);
+  }
+  if (method === "tno.detail" && UNKNOWN_TNO_PATTERN.test(reason)) {
+    return new ProntoUnknownTrackingNumberError(options);
+  }
+  if (VALIDATION_REJECTION_PATTERN.test(reason)) {
+    return new ProntoValidationError(options);
+  }
+  return new ProntoApiError(options);
+}
+
+/**
+ * Stable error code and HTTP status for each Pronto failure. `retryable`
+ * tells clients whether to try again later or fix their input.
+ */
+export function describeProntoError(error: ProntoApiError) {
+  if (error instanceof ProntoValidationError) {
+    return { code: "SHIPPING_VALIDATION_FAILED", status: 422, retryable: false };
+  }
+  if (error instanceof ProntoUnknownTrackingNumberError) {
+    return { code: "TRACKING_NUMBER_NOT_FOUND", status: 404, retryable: false };
+  }
+  if (error instanceof ProntoAuthError) {
+    return {
+      code: "SHIPPING_PROVIDER_AUTH_FAILED",
+      status: 502,
+      retryable: false,
+    };
+  }
+  if (error instanceof ProntoTlsError) {
+    return {
+      code: "SHIPPING_PROVIDER_TLS_ERROR",
+      status: 502,
+      retryable: false,
+    };
+  }
+  if (error instanceof ProntoTimeoutError) {
+    return { code: "SHIPPING_PROVIDER_TIMEOUT", status: 504, retryable: true };
+  }
+  if (error instanceof ProntoUnavailableError) {
+    return {
+      code: "SHIPPING_PROVIDER_UNAVAILABLE",
+      status: 503,
+      retryable: true,
+    };
+  }
+  if (error instanceof ProntoProtocolError) {
+    return {
+      code: "SHIPPING_PROVIDER_PROTOCOL_ERROR",
+      status: 502,
+      retryable: true,
+    };
+  }
+  return { code: "SHIPPING_PROVIDER_REJECTED", status: 502, retryable: false };
+}
+
+/**
+ * True when the same call may succeed later (Pronto was slow, unreachable
+ * or answered garbage). Rejections of the request and errors that are not
+ * Pronto errors at all need a change first.
+ */
+export function isRetryableProntoError(error: unknown): boolean {
+  return (
+    error instanceof ProntoApiError && describeProntoError(error).retryable
+  );
+}
+
+/**
+ * Wrap a transport failure in the matching ProntoApiError subclass.
+ */
+function toProntoApiError(
+  method: string,
+  error: unknown,
+  allowInsecureTls: boolean
+): ProntoApiError {
+  if (error instanceof ProntoApiError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (!allowInsecureTls && isCertificateError(error)) {
+    return new ProntoTlsError({
+      method,
+      message: `TLS verification failed for Pronto ${method}: ${message}`,
+      cause: error,
+    });
+  }
+  if (isTimeoutError(error)) {
+    return new ProntoTimeoutError({
+      method,
+      message: `Pronto did not answer ${method} in time`,
+      cause: error,
+    });
+  }
+  return new ProntoUnavailableError({
+    method,
+    message: `Could not reach Pronto for ${method}: ${message}`,
+    cause: error,
+  });
+}
+
 function shouldRetryRequest(error: unknown): boolean {
   if (!(error instanceof Error)) {
     return false;
@@ -425,6 +645,21 @@ function shouldRetryRequest(error: unknown): boolean {
   );
 }
 
+function isTimeoutError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  const code = (error as NodeJS.ErrnoException).code || "";
+  return (
+    error.name === "AbortError" ||
+    error.name === "TimeoutError" ||
+    code === "ETIMEDOUT" ||
+    code === "UND_ERR_CONNECT_TIMEOUT" ||
+    /timeout|timed out/i.test(error.message)
+  );
+}
+
 function isCertificateError(error: unknown): boolean {
   const seen = new Set<unknown>();
   let current: unknown = error;
@@ -454,135 +689,12 @@ function isCertificateError(error: unknown): boolean {
 }
 
 /**
- * Area Code Mapping for Sri Lankan Locations
- * 
- * Based on Pronto Lanka's location matrix:
- * 1: CITY (e.g., Colombo core areas)
- * 2: GREATER CITY (e.g., suburbs like Dehiwala)
- * 3: OUTSTATION (e.g., regional towns like Kandy)
- * 4: HIGH SECURITY (e.g., restricted zones)
- * 5: SPECIAL AREA (e.g., remote or custom zones)
- */
-export const PRONTO_AREA_CODES = {
-  // CITY (Code 1) - Colombo core areas
-  'Colombo': '1',
-  'Colombo 01': '1',
-  'Colombo 02': '1',
-  'Colombo 03': '1',
-  'Colombo 04': '1',
-  'Colombo 05': '1',
-  'Colombo 06': '1',
-  'Colombo 07': '1',
-  'Colombo 08': '1',
-  'Colombo 09': '1',
-  'Colombo 10': '1',
-  'Colombo 11': '1',
-  'Colombo 12': '1',
-  'Colombo 13': '1',
-  'Colombo 14': '1',
-  'Colombo 15': '1',
-
-  // GREATER CITY (Code 2) - Suburbs
-  'Dehiwala': '2',
-  'Mount Lavinia': '2',
-  'Moratuwa': '2',
-  'Kaduwela': '2',
-  'Maharagama': '2',
-  'Kesbewa': '2',
-  'Homagama': '2',
-  'Padukka': '2',
-  'Seethawaka': '2',
-  'Gampaha': '2',
-  'Negombo': '2',
-  'Wattala': '2',
-  'Katana': '2',
-  'Divulapitiya': '2',
-  'Mirigama': '2',
-  'Minuwangoda': '2',
-  'Attanagalla': '2',
-  'Biyagama': '2',
-  'Dompe': '2',
-  'Ja-Ela': '2',
-  'Kelaniya': '2',
-  'Mahara': '2',
-  'Peliyagoda': '2',
-  'Kalutara': '2',
-  'Beruwala': '2',
-  'Dodangoda': '2',
-  'Horana': '2',
-  'Ingiriya': '2',
-  'Mathugama': '2',
-  'Panadura': '2',
-  'Walallavita': '2',
-
-  // OUTSTATION (Code 3) - Regional towns
-  'Kandy': '3',
-  'Matale': '3',
-  'Nuwara Eliya': '3',
-  'Galle': '3',
-  'Matara': '3',
-  'Hambantota': '3',
-  'Jaffna': '3',
-  'Kilinochchi': '3',
-  'Mullaitivu': '3',
-  'Vavuniya': '3',
-  'Mannar': '3',
-  'Batticaloa': '3',
-  'Ampara': '3',
-  'Trincomalee': '3',
-  'Kurunegala': '3',
-  'Puttalam': '3',
-  'Anuradhapura': '3',
-  'Polonnaruwa': '3',
-  'Badulla': '3',
-  'Monaragala': '3',
-  'Ratnapura': '3',
-  'Kegalle': '3',
-
-  // HIGH SECURITY (Code 4) - Restricted zones
-  'High Security Zone': '4',
-  'Military Area': '4',
-  'Restricted Zone': '4',
-
-  // SPECIAL AREA (Code 5) - Remote or custom zones
-  'Special Area': '5',
-  'Remote Area': '5',
-  'Custom Zone': '5'
-} as const;
-
-/**
- * Get area code for a given location
+ * Resolve a delivery location to its Pronto area code: admin overrides
+ * first, then the gazetteer. Throws UnknownLocationError when nothing
+ * matches.
  */
-export function getAreaCodeForLocation(location: string): string {
-  // Normalize the location string
-  const normalizedLocation = location.trim();
-  
-  // Try exact match first
-  if (PRONTO_AREA_CODES[normalizedLocation as keyof typeof PRONTO_AREA_CODES]) {
-    return PRONTO_AREA_CODES[normalizedLocation as keyof typeof PRONTO_AREA_CODES];
-  }
-
-  // Try partial match for common patterns
-  const lowerLocation = normalizedLocation.toLowerCase();
-  
-  if (lowerLocation.includes('colombo')) {
-    return '1'; // CITY
-  }
-  
-  if (lowerLocation.includes('dehiwala') || lowerLocation.includes('mount lavinia') || 
-      lowerLocation.includes('moratuwa') || lowerLocation.includes('gampaha') || 
-      lowerLocation.includes('negombo') || lowerLocation.includes('kalutara')) {
-    return '2'; // GREATER CITY
-  }
-  
-  if (lowerLocation.includes('kandy') || lowerLocation.includes('galle') || 
-      lowerLocation.includes('matara') || lowerLocation.includes('jaffna') || 
-      lowerLocation.includes('kurunegala') || lowerLocation.includes('anuradhapura')) {
-    return '3'; // OUTSTATION
-  }
-  
-  // Default to OUTSTATION for unknown locations
-  return '3';
+export async function getAreaCodeForLocation(location: string): Promise<string> {
+  return (await resolveDeliveryArea(location)).areaCode;
 }
 
 /**
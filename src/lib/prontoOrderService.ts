@@ -1,11 +1,25 @@
+import crypto from "crypto";
 import {
   createProntoApiService,
   getAreaCodeForLocation,
+  isRetryableProntoError,
+  ProntoProtocolError,
 } from "@/lib/prontoApiService";
 import {
   getPaymentSession,
   updatePaymentSession,
+  withSessionHistory,
+  type PaymentSessionRecord,
 } from "@/lib/repositories/paymentSessions";
+import {
+  capturePaymentForSession,
+  voidAuthorizationForSession,
+} from "@/lib/paymentOrderService";
+import {
+  createProntoShipmentRecord,
+  findResumableShipment,
+  updateProntoShipment,
+} from "@/lib/repositories/prontoShipments";
 import { ProntoCreateShipmentSchema } from "@/schemas/pronto.schema";
 import { z } from "zod";
 
@@ -20,77 +34,305 @@ export interface ShipmentResult {
   payload: Record<string, unknown>;
 }
 
+export interface ProntoShipmentOptions {
+  // Payment session the shipment belongs to, if any
+  sessionId?: string;
+}
+
 /**
  * Create a shipment directly from raw payload data.
+ *
+ * The tno.request → pkg.amount → tno.insert sequence is recorded step by
+ * step in `pronto_shipments`. Calling again for the same `orderId` after a
+ * failure resumes the unfinished shipment with its reserved tracking
+ * number instead of reserving another one.
  */
 export async function createProntoShipment(
-  payload: ProntoShipmentInput
+  payload: ProntoShipmentInput,
+  options: ProntoShipmentOptions = {}
 ): Promise<ShipmentResult> {
   const prontoApi = createProntoApiService();
-  const areaCode = getAreaCodeForLocation(payload.location);
+  const areaCode = await getAreaCodeForLocation(payload.location);
+  const customerCode =
+    payload.customerCode || process.env.PRONTO_CUSTOMER_CODE || "A001";
+  const tnoCode = payload.isCod ? "2" : "1";
 
-  const trackingResponse = await prontoApi.requestTrackingNumber({
-    customerCode:
-      payload.customerCode || process.env.PRONTO_CUSTOMER_CODE || "A001",
-    tnoCode: payload.isCod ? "2" : "1",
-  });
+  let shipment = await findResumableShipment(payload.orderId);
+  if (
+    shipment &&
+    (shipment.customerCode !== customerCode || shipment.tnoCode !== tnoCode)
+  ) {
+    // Tracking numbers belong to a customer code and are COD or non-COD,
+    // so this reservation cannot be reused. It stays in the orphan report.
+    console.warn("🚚 Abandoning reserved tracking number", {
+      orderId: payload.orderId,
+      trackingNumber: shipment.trackingNumber,
+    });
+    await updateProntoShipment(shipment.shipmentId, {
+      status: "ABANDONED",
+      lastError: `Shipment changed to customer ${customerCode}, tno_code ${tnoCode}`,
+    });
+    shipment = null;
+  }
 
-  const trackingNumber = trackingResponse.emp_trackingno.tno;
+  if (shipment) {
+    console.log("🚚 Resuming shipment with reserved tracking number", {
+      orderId: payload.orderId,
+      trackingNumber: shipment.trackingNumber,
+      status: shipment.status,
+    });
+  } else {
+    const trackingResponse = await prontoApi.requestTrackingNumber({
+      customerCode,
+      tnoCode,
+    });
+    shipment = await createProntoShipmentRecord({
+      shipmentId: crypto.randomUUID(),
+      orderId: payload.orderId,
+      sessionId: options.sessionId,
+      customerCode,
+      tnoCode,
+      trackingNumber: trackingResponse.emp_trackingno.tno,
+    });
+  }
 
-  const costResponse = await prontoApi.calculateShippingCost({
-    customerCode:
-      payload.customerCode || process.env.PRONTO_CUSTOMER_CODE || "A001",
-    pkgWeight: payload.weight,
-    prontoAc: areaCode,
-  });
+  const { shipmentId, trackingNumber } = shipment;
 
-  const shipmentPayload = {
-    tno: trackingNumber,
-    senName: payload.senderName,
-    senPhone: payload.senderPhone,
-    senAddress: payload.senderAddress,
-    recName: payload.receiverName,
-    recAddress: payload.receiverAddress,
-    recPhone: payload.receiverPhone,
-    ivalue: payload.itemValue.toString(),
-    samedayDel: payload.sameDayDelivery ? "yes" : "no",
-    senc: payload.isSensitive ? "yes" : "no",
-    spNote: payload.specialNotes ?? undefined,
-    prontoLc: areaCode.padStart(4, "0"),
-  };
+  try {
+    let cost = shipment.cost;
+    if (
+      cost === null ||
+      cost === undefined ||
+      shipment.areaCode !== areaCode ||
+      shipment.weight !== payload.weight
+    ) {
+      const costResponse = await prontoApi.calculateShippingCost({
+        customerCode,
+        pkgWeight: payload.weight,
+        prontoAc: areaCode,
+      });
+      cost = parseFloat(costResponse.live_amount.amount);
+      shipment = await updateProntoShipment(shipmentId, {
+        status: "QUOTED",
+        areaCode,
+        weight: payload.weight,
+        cost,
+        quotedAt: new Date().toISOString(),
+      });
+    }
 
-  const shipmentResponse = await prontoApi.insertShipment(shipmentPayload);
+    const shipmentPayload = {
+      tno: trackingNumber,
+      senName: payload.senderName,
+      senPhone: payload.senderPhone,
+      senAddress: payload.senderAddress,
+      recName: payload.receiverName,
+      recAddress: payload.receiverAddress,
+      recPhone: payload.receiverPhone,
+      ivalue: payload.itemValue.toString(),
+      samedayDel: payload.sameDayDelivery ? "yes" : "no",
+      senc: payload.isSensitive ? "yes" : "no",
+      spNote: payload.specialNotes ?? undefined,
+      prontoLc: areaCode.padStart(4, "0"),
+    };
 
-  const cost = parseFloat(costResponse.live_amount.amount);
-  if (shipmentResponse.status !== "1") {
-    throw new Error(
-      `Shipment creation failed: ${
-        (shipmentResponse as Record<string, string>).status_ref ||
-        "Unknown error"
-      }`
-    );
+    // An earlier tno.insert may have reached Pronto even though its answer
+    // was lost; inserting the same number again would be refused.
+    let shipmentResponse: Record<string, unknown> | null = null;
+    if (
+      shipment.insertAttemptedAt &&
+      (await isInsertedWithPronto(customerCode, trackingNumber))
+    ) {
+      console.log("🚚 Earlier insert reached Pronto", { trackingNumber });
+      shipmentResponse = shipment.response ?? {
+        status: "1",
+        status_ref: "Confirmed by tno.detail",
+      };
+    } else {
+      await updateProntoShipment(shipmentId, {
+        status: "INSERT_ATTEMPTED",
+        attempts: shipment.attempts + 1,
+        payload: shipmentPayload,
+        insertAttemptedAt: new Date().toISOString(),
+      });
+      const insertResponse = await prontoApi.insertShipment(shipmentPayload);
+      if (insertResponse.status !== "1") {
+        throw new Error(
+          `Shipment creation failed: ${
+            insertResponse.status_ref || "Unknown error"
+          }`
+        );
+      }
+      shipmentResponse = insertResponse as Record<string, unknown>;
+    }
+
+    await updateProntoShipment(shipmentId, {
+      status: "INSERTED",
+      payload: shipmentPayload,
+      response: shipmentResponse,
+      lastError: null,
+      insertedAt: new Date().toISOString(),
+    });
+
+    return {
+      trackingNumber,
+      cost,
+      status: "1",
+      areaCode,
+      response: shipmentResponse,
+      payload: shipmentPayload,
+    };
+  } catch (error) {
+    await updateProntoShipment(shipmentId, {
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
   }
+}
 
-  return {
-    trackingNumber,
-    cost,
-    status: shipmentResponse.status,
-    areaCode,
-    response: shipmentResponse as Record<string, unknown>,
-    payload: shipmentPayload,
-  };
+async function isInsertedWithPronto(
+  customerCode: string,
+  trackingNumber: string
+): Promise<boolean> {
+  try {
+    const details = await createProntoApiService().getTrackingDetails({
+      customerCode,
+      tno: trackingNumber,
+    });
+    return details.tracking_no.length > 0;
+  } catch (error) {
+    console.warn("🚚 Could not check earlier insert, inserting again", {
+      trackingNumber,
+      error: error instanceof Error ? error.message : error,
+    });
+    return false;
+  }
+}
+
+/**
+ * Raised when a shipment operation is not allowed for the session, e.g. a
+ * replacement without a reason.
+ */
+export class ShipmentOperationError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "ShipmentOperationError";
+    this.code = code;
+  }
 }
 
 /**
- * Create a shipment using the stored payment session.
+ * Only a payment that is still held (AUTHORIZE) or was taken (PURCHASE) may
+ * be shipped; an unpaid, voided, refunded or cancelled session must not be.
  */
-export async function createShipmentForSession(sessionId: string) {
+export function isShippable(session: PaymentSessionRecord): boolean {
+  return session.paymentMode === "AUTHORIZE"
+    ? session.status === "PROCESSING"
+    : session.status === "COMPLETED";
+}
+
+export interface SessionShipmentOptions {
+  // Create a new consignment even though the session already has one
+  force?: boolean;
+  reason?: string;
+}
+
+// Shipment work for the same session runs one call at a time, so a
+// replayed or concurrent webhook sees the tracking number stored by the
+// first call instead of requesting another consignment.
+const shipmentLocks = new Map<string, Promise<unknown>>();
+
+async function withShipmentLock<T>(
+  sessionId: string,
+  operation: () => Promise<T>
+): Promise<T> {
+  const previous = shipmentLocks.get(sessionId) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(operation);
+  shipmentLocks.set(sessionId, current);
+  try {
+    return await current;
+  } finally {
+    if (shipmentLocks.get(sessionId) === current) {
+      shipmentLocks.delete(sessionId);
+    }
+  }
+}
+
+/**
+ * Create a shipment using the stored payment session. For AUTHORIZE-mode
+ * sessions the authorized payment is captured once Pronto accepts it.
+ *
+ * A session ships once: when it already has a tracking number that
+ * shipment is returned (`existing: true`) and Pronto is not called. A
+ * replacement consignment needs `force` and a `reason`; the previous one is
+ * kept under `metadata.replacedShipments`. A session that is not
+ * shippable (see isShippable) is refused before Pronto is called.
+ */
+export async function createShipmentForSession(
+  sessionId: string,
+  options: SessionShipmentOptions = {}
+) {
+  return withShipmentLock(sessionId, () => shipSession(sessionId, options));
+}
+
+async function shipSession(
+  sessionId: string,
+  options: SessionShipmentOptions
+) {
   const session = await getPaymentSession(sessionId);
   if (!session) {
     throw new Error(`Payment session not found for ${sessionId}`);
   }
 
-  const shipmentInput = ProntoCreateShipmentSchema.parse({
+  const reason = options.reason?.trim();
+  if (options.force && !reason) {
+    throw new ShipmentOperationError(
+      "SHIPMENT_REASON_REQUIRED",
+      "A reason is required to replace the shipment of a session"
+    );
+  }
+
+  // Capture only while the authorization is still open; a replacement for
+  // an already captured session must not charge again.
+  const shouldCapture =
+    session.paymentMode === "AUTHORIZE" && session.status === "PROCESSING";
+
+  if (session.prontoTrackingNumber && !options.force) {
+    console.log("🚚 Shipment already exists, not creating another", {
+      sessionId,
+      trackingNumber: session.prontoTrackingNumber,
+    });
+    return {
+      sessionId,
+      orderId: session.orderId,
+      trackingNumber: session.prontoTrackingNumber,
+      cost: session.prontoCost ?? 0,
+      // prontoStatus moves on to the delivery status once tracking is
+      // polled; only a number that was never inserted is not created.
+      status: session.prontoStatus === "TRACKING_GENERATED" ? "0" : "1",
+      areaCode: session.prontoAreaCode ?? "",
+      response: session.prontoResponse ?? {},
+      payload: session.prontoPayload ?? {},
+      existing: true,
+      capture: shouldCapture ? await capturePaymentForSession(sessionId) : null,
+    };
+  }
+
+  // Checked before Pronto is called, so a session that cannot be paid for
+  // never gets a live consignment.
+  if (!isShippable(session)) {
+    throw new ShipmentOperationError(
+      "SESSION_NOT_SHIPPABLE",
+      `Session is ${session.status}; its payment cannot be shipped`
+    );
+  }
+
+  // Contact details were validated when the session was created. Sessions
+  // stored before the stricter phone/address rules must still ship, so the
+  // input is taken as stored instead of being validated again.
+  const shipmentInput: ProntoShipmentInput = {
     orderId: session.orderId,
     senderName: session.senderName,
     senderPhone: session.senderPhone,
@@ -106,9 +348,48 @@ export async function createShipmentForSession(sessionId: string) {
     isSensitive: session.isSensitive,
     specialNotes: session.specialNotes ?? undefined,
     customerCode: session.prontoCustomerCode ?? undefined,
-  });
+  };
 
-  const shipment = await createProntoShipment(shipmentInput);
+  const shipment = await createProntoShipment(shipmentInput, { sessionId });
+
+  let metadata = session.metadata;
+  if (session.prontoTrackingNumber) {
+    // Pronto has no cancel call; the old consignment must be voided with
+    // Pronto by hand.
+    console.warn("🚚 Replacing existing shipment", {
+      sessionId,
+      previousTrackingNumber: session.prontoTrackingNumber,
+      trackingNumber: shipment.trackingNumber,
+      reason,
+    });
+    const replacedShipments = Array.isArray(metadata?.replacedShipments)
+      ? metadata.replacedShipments
+      : [];
+    metadata = withSessionHistory(
+      {
+        ...(metadata || {}),
+        replacedShipments: [
+          ...replacedShipments,
+          {
+            trackingNumber: session.prontoTrackingNumber,
+            status: session.prontoStatus,
+            cost: session.prontoCost,
+            areaCode: session.prontoAreaCode,
+            replacedBy: shipment.trackingNumber,
+            reason,
+            replacedAt: new Date().toISOString(),
+          },
+        ],
+      },
+      {
+        at: new Date().toISOString(),
+        event: "SHIPMENT_REPLACED",
+        reason,
+        previousTrackingNumber: session.prontoTrackingNumber,
+        trackingNumber: shipment.trackingNumber,
+      }
+    );
+  }
 
   await updatePaymentSession(sessionId, {
     prontoTrackingNumber: shipment.trackingNumber,
@@ -118,12 +399,78 @@ export async function createShipmentForSession(sessionId: string) {
     prontoAreaCode: shipment.areaCode,
     prontoPayload: shipment.payload,
     prontoResponse: shipment.response,
-    status: "COMPLETED",
+    // A new tracking number is polled from the start.
+    trackingPolledAt: null,
+    ...(metadata !== session.metadata && { metadata: metadata ?? undefined }),
   });
 
+  const capture = shouldCapture
+    ? await capturePaymentForSession(sessionId)
+    : null;
+
   return {
     sessionId,
     orderId: session.orderId,
     ...shipment,
+    existing: false,
+    capture,
   };
 }
+
+/**
+ * Ship a session whose payment has been verified. When Pronto rejects the
+ * shipment the error (and, for protocol errors, the raw carrier response) is
+ * stored on the session and rethrown. On the final attempt, or when the
+ * error cannot be fixed by retrying (see isRetryableProntoError), the
+ * session is marked FAILED and AUTHORIZE-mode payments are voided; otherwise
+ * it is left as RETRY_SCHEDULED for the shipment job queue.
+ */
+export async function fulfillPaidSession(
+  sessionId: string,
+  options: { finalAttempt?: boolean } = {}
+) {
+  return withShipmentLock(sessionId, () =>
+    fulfillSession(sessionId, options.finalAttempt ?? true)
+  );
+}
+
+async function fulfillSession(sessionId: string, finalAttempt: boolean) {
+  try {
+    return await shipSession(sessionId, {});
+  } catch (shipmentError) {
+    if (shipmentError instanceof ShipmentOperationError) {
+      // Nothing was sent to Pronto; the session is left as it is.
+      throw shipmentError;
+    }
+    console.error("❌ Shipment creation failed", { sessionId, shipmentError });
+    const shipmentErrorMessage =
+      shipmentError instanceof Error
+        ? shipmentError.message
+        : String(shipmentError);
+
+    const givingUp = finalAttempt || !isRetryableProntoError(shipmentError);
+    const session = await getPaymentSession(sessionId);
+    if (session) {
+      await updatePaymentSession(sessionId, {
+        prontoStatus: givingUp ? "FAILED" : "RETRY_SCHEDULED",
+        metadata: {
+          ...(session.metadata || {}),
+          lastShipmentError: shipmentErrorMessage,
+          ...(shipmentError instanceof ProntoProtocolError && {
+            lastShipmentProtocolError: {
+              method: shipmentError.method,
+              rawBody: shipmentError.rawBody,
+            },
+          }),
+        },
+      });
+      if (givingUp && session.paymentMode === "AUTHORIZE") {
+        await voidAuthorizationForSession(
+          sessionId,
+          `Shipment creation failed: ${shipmentErrorMessage}`
+        );
+      }
+    }
+    throw shipmentError;
+  }
+}
@@ -0,0 +1,270 @@
+import {
+  createProntoApiService,
+  ProntoProtocolError,
+} from "@/lib/prontoApiService";
+import {
+  getRateCard,
+  saveRateCard,
+  type ProntoRateBand,
+  type ProntoRateCardRecord,
+} from "@/lib/repositories/prontoRateCards";
+
+/**
+ * The customer's Pronto rate card (calc.method).
+ *
+ * calc.method returns the rates as free text. The parsed card is stored in
+ * `pronto_rate_cards` and refreshed on an interval, but it does not price
+ * quotes: how the bands add up is not documented, and the specification's
+ * own samples contradict the obvious reading (see computeRateCardCost).
+ * Every quote is priced by a live pkg.amount call and the card's figure is
+ * logged next to it, so the rule can be confirmed before offline estimates
+ * are turned on.
+ */
+
+// RATE_CARD is only found on quotes stored while card pricing was enabled.
+export type ShippingQuoteSource = "RATE_CARD" | "LIVE";
+
+export interface ShippingQuote {
+  amount: number;
+  source: ShippingQuoteSource;
+  customerCode: string;
+  areaCode: string;
+  weight: number;
+  rateCardFetchedAt: string | null;
+  // What the rate card would have charged, when a live quote was compared
+  // against it.
+  rateCardAmount?: number | null;
+}
+
+const DEFAULT_MAX_AGE_MINUTES = 24 * 60;
+const DEFAULT_REFRESH_INTERVAL_MINUTES = 6 * 60;
+
+// Area labels used in calc.method text, by Pronto area code.
+const RATE_AREA_CODES: Record<string, string> = {
+  CITY: "1",
+  GCT: "2",
+  OS: "3",
+  HS: "4",
+  SPA: "5",
+  SA: "5",
+};
+
+// e.g. PSL Charge - Area - 'CITY From Weight - '0.00' To Weight - '1.00' Charge - 100.00'
+const RATE_LINE_PATTERN =
+  /Area\s*-\s*'?\s*([A-Za-z ]+?)\s+From Weight\s*-\s*'?([\d.]+)'?\s+To Weight\s*-\s*'?([\d.]+)'?\s+Charge\s*-\s*'?([\d.]+)'?/i;
+
+function readPositiveNumber(value: string | undefined, fallback: number) {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getRateCardMaxAgeMinutes(): number {
+  return readPositiveNumber(
+    process.env.PRONTO_RATE_CARD_MAX_AGE_MINUTES,
+    DEFAULT_MAX_AGE_MINUTES
+  );
+}
+
+function defaultCustomerCode() {
+  return process.env.PRONTO_CUSTOMER_CODE || "A001";
+}
+
+/**
+ * Parse the emp_calc.meth text into rate bands. Lines that do not look like
+ * a rate are ignored.
+ */
+export function parseRateStructure(text: string): ProntoRateBand[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => RATE_LINE_PATTERN.exec(line))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(([, label, from, to, charge]) => {
+      const areaLabel = label.trim().toUpperCase();
+      return {
+        areaLabel,
+        areaCode: RATE_AREA_CODES[areaLabel] ?? null,
+        fromWeight: Number(from),
+        toWeight: Number(to),
+        charge: Number(charge),
+      };
+    });
+}
+
+/**
+ * Charge for `weight` kg in `areaCode` under the assumed rule (the first
+ * band's charge plus the next band's charge per started kg), or null when
+ * the card has no rate for that area or weight. The rule is unconfirmed:
+ * for A001 the specification's calc.method sample gives 450.00 for 8 kg in
+ * CITY where its pkg.amount sample answers 600.00. The mock simulator
+ * follows this rule, so agreement there proves nothing.
+ */
+export function computeRateCardCost(
+  rates: ProntoRateBand[],
+  areaCode: string,
+  weight: number
+): number | null {
+  const bands = rates
+    .filter((band) => band.areaCode === areaCode)
+    .sort((a, b) => a.fromWeight - b.fromWeight);
+  if (
+    bands.length === 0 ||
+    bands[0].fromWeight !== 0 ||
+    weight > bands[bands.length - 1].toWeight
+  ) {
+    return null;
+  }
+
+  let cost = 0;
+  for (const band of bands) {
+    if (band.fromWeight === 0) {
+      cost += band.charge;
+    } else if (weight > band.fromWeight) {
+      const kilos = Math.min(weight, band.toWeight) - band.fromWeight;
+      cost += Math.ceil(kilos) * band.charge;
+    }
+  }
+  return Number(cost.toFixed(2));
+}
+
+export function isRateCardFresh(
+  card: ProntoRateCardRecord,
+  now = new Date()
+): boolean {
+  const ageMs = now.getTime() - new Date(card.fetchedAt).getTime();
+  return ageMs <= getRateCardMaxAgeMinutes() * 60 * 1000;
+}
+
+/**
+ * Fetch calc.method for the customer code and store the parsed card.
+ */
+export async function refreshRateCard(
+  customerCode = defaultCustomerCode()
+): Promise<ProntoRateCardRecord> {
+  const response = await createProntoApiService().getRateStructure(
+    customerCode
+  );
+  const rates = parseRateStructure(response.emp_calc.meth);
+  if (rates.length === 0) {
+    throw new ProntoProtocolError({
+      method: "calc.method",
+      message: "No rates could be parsed from the calc.method rate structure",
+      rawBody: response.emp_calc.meth,
+    });
+  }
+
+  const card = await saveRateCard({
+    customerCode,
+    rates,
+    rawStructure: response.emp_calc.meth,
+    fetchedAt: new Date().toISOString(),
+  });
+  console.log(`🚚 Pronto rate card refreshed for ${customerCode}`, {
+    bands: rates.length,
+  });
+  return card;
+}
+
+// One refresh per customer code at a time, shared by concurrent quotes.
+const pendingRefreshes = new Map<string, Promise<void>>();
+
+function refreshInBackground(customerCode: string) {
+  if (pendingRefreshes.has(customerCode)) {
+    return;
+  }
+  const refresh = refreshRateCard(customerCode)
+    .then(() => undefined)
+    .catch((error) => {
+      console.error(
+        `❌ Pronto rate card refresh failed for ${customerCode}`,
+        error
+      );
+    })
+    .finally(() => pendingRefreshes.delete(customerCode));
+  pendingRefreshes.set(customerCode, refresh);
+}
+
+/**
+ * Delivery charge for a package, priced by Pronto (pkg.amount). When a
+ * fresh rate card is stored its figure is logged next to the live one; a
+ * stale or missing card is refreshed in the background.
+ */
+export async function getShippingQuote(request: {
+  customerCode?: string;
+  areaCode: string;
+  weight: number;
+}): Promise<ShippingQuote> {
+  const customerCode = request.customerCode || defaultCustomerCode();
+  const card = await getRateCard(customerCode);
+  const fresh = card !== null && isRateCardFresh(card);
+  if (!fresh) {
+    refreshInBackground(customerCode);
+  }
+
+  const response = await createProntoApiService().calculateShippingCost({
+    customerCode,
+    pkgWeight: request.weight,
+    prontoAc: request.areaCode,
+  });
+  const amount = Number(
+    Number.parseFloat(response.live_amount.amount).toFixed(2)
+  );
+
+  const rateCardAmount =
+    card && fresh
+      ? computeRateCardCost(card.rates, request.areaCode, request.weight)
+      : null;
+  if (rateCardAmount !== null) {
+    const comparison = {
+      customerCode,
+      areaCode: request.areaCode,
+      weight: request.weight,
+      rateCardAmount,
+      liveAmount: amount,
+    };
+    if (rateCardAmount === amount) {
+      console.log("🚚 Pronto rate card matches pkg.amount", comparison);
+    } else {
+      console.warn("⚠️ Pronto rate card disagrees with pkg.amount", comparison);
+    }
+  }
+
+  return {
+    amount,
+    source: "LIVE",
+    customerCode,
+    areaCode: request.areaCode,
+    weight: request.weight,
+    rateCardFetchedAt: card?.fetchedAt ?? null,
+    rateCardAmount,
+  };
+}
+
+declare global {
+  var __PRONTO_RATE_CARD_REFRESHER__: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Refresh the default customer's rate card every
+ * PRONTO_RATE_CARD_REFRESH_MINUTES (used in development via
+ * instrumentation). A missing card is fetched by the first quote instead of
+ * at startup. Hot reloads reuse the existing timer.
+ */
+export function startRateCardRefresher(): void {
+  if (globalThis.__PRONTO_RATE_CARD_REFRESHER__) {
+    return;
+  }
+
+  const intervalMinutes = readPositiveNumber(
+    process.env.PRONTO_RATE_CARD_REFRESH_MINUTES,
+    DEFAULT_REFRESH_INTERVAL_MINUTES
+  );
+  const refresh = () => refreshInBackground(defaultCustomerCode());
+
+  const timer = setInterval(refresh, intervalMinutes * 60 * 1000);
+  timer.unref?.();
+
+  globalThis.__PRONTO_RATE_CARD_REFRESHER__ = timer;
+  console.log(
+    `🚚 Pronto rate card refresher started (every ${intervalMinutes} min, max age ${getRateCardMaxAgeMinutes()} min)`
+  );
+}
@@ -0,0 +1,250 @@
+import {
+  createMpgsApiService,
+  isOrderNotFoundError,
+  type OrderResponse,
+} from "@/lib/mpgsApiService";
+import { verifyGatewayOrder } from "@/lib/paymentVerification";
+import {
+  listSessionsCreatedBetween,
+  type PaymentSessionRecord,
+} from "@/lib/repositories/paymentSessions";
+
+/**
+ * Daily reconciliation between local payment sessions and MPGS.
+ *
+ * MPGS has no "list orders by day" operation on the REST API, so the report
+ * walks the sessions created that day (UTC) and retrieves each order.
+ */
+
+export type ReconciliationFlag =
+  | "PAID_BUT_PENDING"
+  | "COMPLETED_NOT_CAPTURED"
+  | "AMOUNT_MISMATCH"
+  | "MISSING_SHIPMENT";
+
+export interface ReconciliationRow {
+  orderId: string;
+  sessionId: string;
+  createdAt: string;
+  paymentMode: string;
+  localStatus: string;
+  localAmount: number;
+  localCurrency: string;
+  gatewayStatus: string | null;
+  gatewayAmount: number | null;
+  gatewayCurrency: string | null;
+  gatewayCapturedAmount: number | null;
+  gatewayRefundedAmount: number | null;
+  trackingNumber: string | null;
+  flags: ReconciliationFlag[];
+  gatewayError: string | null;
+}
+
+export interface ReconciliationReport {
+  date: string;
+  from: string;
+  to: string;
+  generatedAt: string;
+  totals: {
+    sessions: number;
+    flagged: number;
+    gatewayErrors: number;
+    localCompletedAmount: number;
+    gatewayCapturedAmount: number;
+    gatewayRefundedAmount: number;
+    byFlag: Record<ReconciliationFlag, number>;
+  };
+  rows: ReconciliationRow[];
+}
+
+const AMOUNT_TOLERANCE = 0.005;
+
+const UNPAID_LOCAL_STATUSES = new Set(["PENDING", "EXPIRED", "FAILED"]);
+const PAID_LOCAL_STATUSES = new Set(["COMPLETED", "PROCESSING"]);
+// Money has gone back to the customer; no shipment is expected.
+const CLOSED_LOCAL_STATUSES = new Set(["REFUNDED", "CANCELLED"]);
+
+function capturedAmount(order: OrderResponse): number {
+  if (typeof order.totalCapturedAmount === "number") {
+    return order.totalCapturedAmount;
+  }
+  return order.status?.toUpperCase() === "CAPTURED" ? Number(order.amount) : 0;
+}
+
+function flagsFor(
+  session: PaymentSessionRecord,
+  order: OrderResponse | null
+): ReconciliationFlag[] {
+  const flags: ReconciliationFlag[] = [];
+  const verification = order ? verifyGatewayOrder(session, order) : null;
+  const captured = order ? capturedAmount(order) : 0;
+  const gatewayPaid = verification?.verdict === "PAID" || captured > 0;
+
+  if (gatewayPaid && UNPAID_LOCAL_STATUSES.has(session.status)) {
+    flags.push("PAID_BUT_PENDING");
+  }
+
+  if (
+    session.status === "COMPLETED" &&
+    captured + AMOUNT_TOLERANCE < session.amount
+  ) {
+    flags.push("COMPLETED_NOT_CAPTURED");
+  }
+
+  if (
+    verification?.mismatches.some(
+      (mismatch) =>
+        mismatch.startsWith("Amount mismatch") ||
+        mismatch.startsWith("Currency mismatch")
+    )
+  ) {
+    flags.push("AMOUNT_MISMATCH");
+  }
+
+  if (
+    (PAID_LOCAL_STATUSES.has(session.status) || gatewayPaid) &&
+    !CLOSED_LOCAL_STATUSES.has(session.status) &&
+    !session.prontoTrackingNumber
+  ) {
+    flags.push("MISSING_SHIPMENT");
+  }
+
+  return flags;
+}
+
+async function reconcileSession(
+  session: PaymentSessionRecord
+): Promise<ReconciliationRow> {
+  let order: OrderResponse | null = null;
+  let gatewayError: string | null = null;
+  try {
+    order = await createMpgsApiService().retrieveOrder(session.orderId);
+  } catch (error) {
+    if (!isOrderNotFoundError(error)) {
+      gatewayError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return {
+    orderId: session.orderId,
+    sessionId: session.sessionId,
+    createdAt: session.createdAt,
+    paymentMode: session.paymentMode,
+    localStatus: session.status,
+    localAmount: session.amount,
+    localCurrency: session.currency,
+    gatewayStatus: order
+      ? order.status ?? null
+      : gatewayError
+      ? null
+      : "NOT_FOUND",
+    gatewayAmount: order ? Number(order.amount) : null,
+    gatewayCurrency: order?.currency ?? null,
+    gatewayCapturedAmount: order ? capturedAmount(order) : null,
+    gatewayRefundedAmount: order ? order.totalRefundedAmount ?? 0 : null,
+    trackingNumber: session.prontoTrackingNumber ?? null,
+    // Without a gateway answer only the shipment check is meaningful.
+    flags: gatewayError
+      ? flagsFor(session, null).filter((flag) => flag === "MISSING_SHIPMENT")
+      : flagsFor(session, order),
+    gatewayError,
+  };
+}
+
+function sum(values: Array<number | null>): number {
+  return Number(
+    values.reduce<number>((total, value) => total + (value ?? 0), 0).toFixed(2)
+  );
+}
+
+/**
+ * Build the reconciliation report for a UTC calendar day (YYYY-MM-DD).
+ */
+export async function buildReconciliationReport(
+  date: string
+): Promise<ReconciliationReport> {
+  const from = new Date(`${date}T00:00:00.000Z`);
+  if (Number.isNaN(from.getTime())) {
+    throw new Error(`Invalid reconciliation date: ${date}`);
+  }
+  const to = new Date(from.getTime() + 24 * 60 * 60 * 1000);
+
+  const sessions = await listSessionsCreatedBetween(
+    from.toISOString(),
+    to.toISOString()
+  );
+
+  const rows: ReconciliationRow[] = [];
+  for (const session of sessions) {
+    rows.push(await reconcileSession(session));
+  }
+
+  const byFlag: Record<ReconciliationFlag, number> = {
+    PAID_BUT_PENDING: 0,
+    COMPLETED_NOT_CAPTURED: 0,
+    AMOUNT_MISMATCH: 0,
+    MISSING_SHIPMENT: 0,
+  };
+  rows.forEach((row) => row.flags.forEach((flag) => (byFlag[flag] += 1)));
+
+  const report: ReconciliationReport = {
+    date,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    generatedAt: new Date().toISOString(),
+    totals: {
+      sessions: rows.length,
+      flagged: rows.filter((row) => row.flags.length > 0).length,
+      gatewayErrors: rows.filter((row) => row.gatewayError).length,
+      localCompletedAmount: sum(
+        rows
+          .filter((row) => row.localStatus === "COMPLETED")
+          .map((row) => row.localAmount)
+      ),
+      gatewayCapturedAmount: sum(rows.map((row) => row.gatewayCapturedAmount)),
+      gatewayRefundedAmount: sum(rows.map((row) => row.gatewayRefundedAmount)),
+      byFlag,
+    },
+    rows,
+  };
+
+  console.log(`📊 Reconciliation for ${date}`, report.totals);
+  return report;
+}
+
+const CSV_COLUMNS: Array<keyof ReconciliationRow> = [
+  "orderId",
+  "sessionId",
+  "createdAt",
+  "paymentMode",
+  "localStatus",
+  "localAmount",
+  "localCurrency",
+  "gatewayStatus",
+  "gatewayAmount",
+  "gatewayCurrency",
+  "gatewayCapturedAmount",
+  "gatewayRefundedAmount",
+  "trackingNumber",
+  "flags",
+  "gatewayError",
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = Array.isArray(value) ? value.join("|") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One line per session; multiple flags are joined with "|".
+ */
+export function reconciliationReportToCsv(report: ReconciliationReport): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const row of report.rows) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(row[column])).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,165 @@
+import { runRead, runWrite } from "@/lib/database";
+
+/**
+ * PENDING marks a refund whose outcome is unknown because MPGS never gave
+ * a usable answer (timeout, network error). It is held against the
+ * refundable balance until the gateway confirms it either way.
+ */
+export type PaymentRefundStatus = "SUCCESS" | "FAILED" | "PENDING";
+
+export interface PaymentRefundRecord {
+  refundId: string;
+  sessionId: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  status: PaymentRefundStatus;
+  gatewayResponse?: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface CreatePaymentRefundInput {
+  refundId: string;
+  sessionId: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  status: PaymentRefundStatus;
+  gatewayResponse?: Record<string, unknown> | null;
+}
+
+const baseSelect = `
+  SELECT
+    refund_id AS refundId,
+    session_id AS sessionId,
+    order_id AS orderId,
+    amount,
+    currency,
+    reason,
+    status,
+    gateway_response AS gatewayResponseJson,
+    created_at AS createdAt
+  FROM payment_refunds
+`;
+
+function mapRow(row: Record<string, unknown>): PaymentRefundRecord {
+  return {
+    refundId: String(row.refundId),
+    sessionId: String(row.sessionId),
+    orderId: String(row.orderId),
+    amount: Number(row.amount),
+    currency: String(row.currency),
+    reason: String(row.reason),
+    status: row.status as PaymentRefundStatus,
+    gatewayResponse: row.gatewayResponseJson
+      ? JSON.parse(String(row.gatewayResponseJson))
+      : null,
+    createdAt: String(row.createdAt),
+  };
+}
+
+export async function createPaymentRefund(
+  data: CreatePaymentRefundInput
+): Promise<PaymentRefundRecord> {
+  const now = new Date().toISOString();
+  await runWrite((db) => {
+    db.run(
+      `
+        INSERT INTO payment_refunds (
+          refund_id,
+          session_id,
+          order_id,
+          amount,
+          currency,
+          reason,
+          status,
+          gateway_response,
+          created_at
+        ) VALUES (
+          $refundId,
+          $sessionId,
+          $orderId,
+          $amount,
+          $currency,
+          $reason,
+          $status,
+          $gatewayResponse,
+          $createdAt
+        )
+      `,
+      {
+        $refundId: data.refundId,
+        $sessionId: data.sessionId,
+        $orderId: data.orderId,
+        $amount: data.amount,
+        $currency: data.currency,
+        $reason: data.reason,
+        $status: data.status,
+        $gatewayResponse: data.gatewayResponse
+          ? JSON.stringify(data.gatewayResponse)
+          : null,
+        $createdAt: now,
+      }
+    );
+  });
+
+  return {
+    ...data,
+    gatewayResponse: data.gatewayResponse ?? null,
+    createdAt: now,
+  };
+}
+
+export async function listRefundsForSession(
+  sessionId: string
+): Promise<PaymentRefundRecord[]> {
+  const rows = await runRead((db) => {
+    const stmt = db.prepare(
+      `${baseSelect} WHERE session_id = ? ORDER BY datetime(created_at) ASC`
+    );
+    const results: Record<string, unknown>[] = [];
+    stmt.bind([sessionId]);
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results;
+  });
+
+  return rows.map((row) => mapRow(row));
+}
+
+export async function updatePaymentRefund(
+  refundId: string,
+  updates: Pick<PaymentRefundRecord, "status" | "gatewayResponse">
+): Promise<void> {
+  await runWrite((db) => {
+    db.run(
+      `UPDATE payment_refunds SET status = $status, gateway_response = $gatewayResponse WHERE refund_id = $refundId`,
+      {
+        $refundId: refundId,
+        $status: updates.status,
+        $gatewayResponse: updates.gatewayResponse
+          ? JSON.stringify(updates.gatewayResponse)
+          : null,
+      }
+    );
+  });
+}
+
+/**
+ * Sum of all successful and still unconfirmed refunds for a session.
+ */
+export async function getRefundedTotal(sessionId: string): Promise<number> {
+  return runRead((db) => {
+    const stmt = db.prepare(
+      `SELECT COALESCE(SUM(amount), 0) AS total FROM payment_refunds WHERE session_id = ? AND status IN ('SUCCESS', 'PENDING')`
+    );
+    stmt.bind([sessionId]);
+    const total = stmt.step() ? Number(stmt.getAsObject().total) : 0;
+    stmt.free();
+    return Number(total.toFixed(2));
+  });
+}
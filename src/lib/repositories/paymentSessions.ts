@@ -1,10 +1,59 @@
 import { runRead, runWrite } from "@/lib/database";
-import type { BindParams, SqlValue } from "sql.js";
+import type { BindParams, Database, SqlValue } from "sql.js";
+import type { PaymentStatus } from "@/schemas/payment.schema";
 
-export type PaymentSessionStatus =
-  | "PENDING"
-  | "COMPLETED"
-  | "FAILED";
+export type PaymentSessionStatus = PaymentStatus;
+
+/**
+ * Allowed status transitions. Re-applying the current status is always
+ * allowed; REFUNDED and CANCELLED are terminal.
+ */
+const PAYMENT_STATUS_TRANSITIONS: Record<
+  PaymentSessionStatus,
+  readonly PaymentSessionStatus[]
+> = {
+  PENDING: ["PROCESSING", "COMPLETED", "FAILED", "REVIEW", "CANCELLED", "EXPIRED"],
+  PROCESSING: ["COMPLETED", "FAILED", "REVIEW", "CANCELLED"],
+  // A declined card can be retried within the same MPGS session.
+  FAILED: ["PROCESSING", "COMPLETED", "REVIEW", "CANCELLED", "EXPIRED"],
+  // A late payment on an expired session is reconciled, not lost.
+  EXPIRED: ["PROCESSING", "COMPLETED", "REVIEW"],
+  REVIEW: ["PROCESSING", "COMPLETED", "FAILED", "CANCELLED", "REFUNDED"],
+  COMPLETED: ["REFUNDED"],
+  REFUNDED: [],
+  CANCELLED: [],
+};
+
+/**
+ * Raised when an update would move a session into a status that is not
+ * reachable from its current one (e.g. COMPLETED -> FAILED).
+ */
+export class InvalidStatusTransitionError extends Error {
+  readonly sessionId: string;
+  readonly from: PaymentSessionStatus;
+  readonly to: PaymentSessionStatus;
+
+  constructor(
+    sessionId: string,
+    from: PaymentSessionStatus,
+    to: PaymentSessionStatus
+  ) {
+    super(`Cannot move payment session ${sessionId} from ${from} to ${to}`);
+    this.name = "InvalidStatusTransitionError";
+    this.sessionId = sessionId;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export function canTransitionPaymentStatus(
+  from: PaymentSessionStatus,
+  to: PaymentSessionStatus
+): boolean {
+  return from === to || PAYMENT_STATUS_TRANSITIONS[from]?.includes(to);
+}
+
+export type PaymentMode = "PURCHASE" | "AUTHORIZE";
 
 export interface PaymentSessionRecord {
   sessionId: string;
@@ -33,10 +82,39 @@ export interface PaymentSessionRecord {
   prontoCost?: number | null;
   prontoPayload?: Record<string, unknown> | null;
   prontoResponse?: Record<string, unknown> | null;
+  paymentMode: PaymentMode;
+  // Last time the tracking poller asked Pronto about this shipment
+  trackingPolledAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Entry in `metadata.history`, the audit trail of automated decisions taken
+ * on a session (expiry sweeps, reconciliation, ...).
+ */
+export interface SessionHistoryEntry {
+  at: string;
+  event: string;
+  from?: PaymentSessionStatus;
+  to?: PaymentSessionStatus;
+  reason?: string;
+  [key: string]: unknown;
+}
+
+export function withSessionHistory(
+  metadata: Record<string, unknown> | null | undefined,
+  entry: SessionHistoryEntry
+): Record<string, unknown> {
+  const history = Array.isArray(metadata?.history)
+    ? (metadata?.history as SessionHistoryEntry[])
+    : [];
+  return {
+    ...(metadata || {}),
+    history: [...history, entry],
+  };
+}
+
 export interface CreatePaymentSessionInput {
   sessionId: string;
   orderId: string;
@@ -58,6 +136,7 @@ export interface CreatePaymentSessionInput {
   prontoCustomerCode?: string;
   prontoAreaCode?: string;
   prontoCost?: number;
+  paymentMode?: PaymentMode;
   metadata?: Record<string, unknown>;
 }
 
@@ -71,6 +150,7 @@ export type UpdatePaymentSessionInput = Partial<
   prontoCost?: number | null;
   prontoPayload?: Record<string, unknown> | null;
   prontoResponse?: Record<string, unknown> | null;
+  trackingPolledAt?: string | null;
 };
 
 const baseSelect = `
@@ -101,6 +181,8 @@ const baseSelect = `
     pronto_cost AS prontoCost,
     pronto_payload AS prontoPayloadJson,
     pronto_response AS prontoResponseJson,
+    payment_mode AS paymentMode,
+    tracking_polled_at AS trackingPolledAt,
     created_at AS createdAt,
     updated_at AS updatedAt
   FROM payment_sessions
@@ -145,6 +227,10 @@ function mapRow(row: Record<string, unknown>): PaymentSessionRecord {
     prontoResponse: row.prontoResponseJson
       ? JSON.parse(String(row.prontoResponseJson))
       : null,
+    paymentMode: (row.paymentMode as PaymentMode) || "PURCHASE",
+    trackingPolledAt: row.trackingPolledAt
+      ? String(row.trackingPolledAt)
+      : null,
     createdAt: String(row.createdAt),
     updatedAt: String(row.updatedAt),
   };
@@ -179,6 +265,7 @@ export async function createPaymentSession(
           pronto_customer_code,
           pronto_area_code,
           pronto_cost,
+          payment_mode,
           metadata,
           created_at,
           updated_at
@@ -204,6 +291,7 @@ export async function createPaymentSession(
           $prontoCustomerCode,
           $prontoAreaCode,
           $prontoCost,
+          $paymentMode,
           $metadata,
           $createdAt,
           $updatedAt
@@ -232,6 +320,7 @@ export async function createPaymentSession(
         $prontoAreaCode: data.prontoAreaCode ?? null,
         $prontoCost:
           typeof data.prontoCost === "number" ? data.prontoCost : null,
+        $paymentMode: data.paymentMode ?? "PURCHASE",
         $metadata: data.metadata ? JSON.stringify(data.metadata) : null,
         $createdAt: now,
         $updatedAt: now,
@@ -246,10 +335,11 @@ export async function createPaymentSession(
   return created;
 }
 
-export async function updatePaymentSession(
+function applySessionUpdate(
+  db: Database,
   sessionId: string,
   updates: UpdatePaymentSessionInput
-): Promise<PaymentSessionRecord> {
+): void {
   const fields: string[] = [];
   const params: BindParams = { $sessionId: sessionId };
 
@@ -273,6 +363,8 @@ export async function updatePaymentSession(
     prontoStatus: "pronto_status",
     prontoAreaCode: "pronto_area_code",
     prontoCost: "pronto_cost",
+    paymentMode: "payment_mode",
+    trackingPolledAt: "tracking_polled_at",
   };
 
   (Object.entries(fieldMap) as Array<
@@ -328,20 +420,42 @@ export async function updatePaymentSession(
   params.$updatedAt = now;
   fields.push("updated_at = $updatedAt");
 
-  if (fields.length === 0) {
-    const existing = await getPaymentSession(sessionId);
-    if (!existing) {
-      throw new Error("Payment session not found");
+  // Checked inside the write so no other update can slip in between.
+  if (updates.status) {
+    const current = selectSession(db, sessionId)?.status ?? null;
+    if (current && !canTransitionPaymentStatus(current, updates.status)) {
+      throw new InvalidStatusTransitionError(
+        sessionId,
+        current,
+        updates.status
+      );
     }
-    return existing;
   }
 
-  await runWrite((db) => {
-    db.run(
-      `UPDATE payment_sessions SET ${fields.join(", ")} WHERE session_id = $sessionId`,
-      params
-    );
-  });
+  db.run(
+    `UPDATE payment_sessions SET ${fields.join(", ")} WHERE session_id = $sessionId`,
+    params
+  );
+}
+
+function selectSession(
+  db: Database,
+  sessionId: string
+): PaymentSessionRecord | null {
+  const stmt = db.prepare(`${baseSelect} WHERE session_id = ?`);
+  stmt.bind([sessionId]);
+  const row = stmt.step()
+    ? (stmt.getAsObject() as Record<string, unknown>)
+    : null;
+  stmt.free();
+  return row ? mapRow(row) : null;
+}
+
+export async function updatePaymentSession(
+  sessionId: string,
+  updates: UpdatePaymentSessionInput
+): Promise<PaymentSessionRecord> {
+  await runWrite((db) => applySessionUpdate(db, sessionId, updates));
 
   const updated = await getPaymentSession(sessionId);
   if (!updated) {
@@ -350,6 +464,35 @@ export async function updatePaymentSession(
   return updated;
 }
 
+/**
+ * Update a session based on its current row, read inside the same write so
+ * nothing can land in between (e.g. a webhook arriving while the sweeper
+ * was asking the gateway). `build` returns null to leave the row untouched.
+ */
+export async function updatePaymentSessionFrom(
+  sessionId: string,
+  build: (current: PaymentSessionRecord) => UpdatePaymentSessionInput | null
+): Promise<{ session: PaymentSessionRecord; changed: boolean }> {
+  const changed = await runWrite((db) => {
+    const current = selectSession(db, sessionId);
+    if (!current) {
+      throw new Error("Payment session not found");
+    }
+    const updates = build(current);
+    if (!updates) {
+      return false;
+    }
+    applySessionUpdate(db, sessionId, updates);
+    return true;
+  });
+
+  const session = await getPaymentSession(sessionId);
+  if (!session) {
+    throw new Error("Payment session not found after update");
+  }
+  return { session, changed };
+}
+
 export async function listPaymentSessions(limit = 50): Promise<PaymentSessionRecord[]> {
   const rows = await runRead((db) => {
     const stmt = db.prepare(
@@ -369,10 +512,18 @@ export async function listPaymentSessions(limit = 50): Promise<PaymentSessionRec
 
 export async function getPaymentSession(
   sessionId: string
+): Promise<PaymentSessionRecord | null> {
+  return runRead((db) => selectSession(db, sessionId));
+}
+
+export async function getPaymentSessionByOrderId(
+  orderId: string
 ): Promise<PaymentSessionRecord | null> {
   const row = await runRead((db) => {
-    const stmt = db.prepare(`${baseSelect} WHERE session_id = ?`);
-    stmt.bind([sessionId]);
+    const stmt = db.prepare(
+      `${baseSelect} WHERE order_id = ? ORDER BY datetime(created_at) DESC LIMIT 1`
+    );
+    stmt.bind([orderId]);
     const result = stmt.step()
       ? (stmt.getAsObject() as Record<string, unknown>)
       : null;
@@ -382,3 +533,133 @@ export async function getPaymentSession(
 
   return row ? mapRow(row) : null;
 }
+
+export async function listSessionsByStatusCreatedBefore(
+  status: PaymentSessionStatus,
+  createdBefore: string,
+  limit = 100
+): Promise<PaymentSessionRecord[]> {
+  const rows = await runRead((db) => {
+    const stmt = db.prepare(
+      `${baseSelect} WHERE status = ? AND datetime(created_at) < datetime(?) ORDER BY datetime(created_at) ASC LIMIT ?`
+    );
+    const results: Record<string, unknown>[] = [];
+    stmt.bind([status, createdBefore, limit]);
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results;
+  });
+
+  return rows.map((row) => mapRow(row));
+}
+
+/**
+ * Sessions created in [createdFrom, createdTo), oldest first.
+ */
+export async function listSessionsCreatedBetween(
+  createdFrom: string,
+  createdTo: string
+): Promise<PaymentSessionRecord[]> {
+  const rows = await runRead((db) => {
+    const stmt = db.prepare(
+      `${baseSelect} WHERE datetime(created_at) >= datetime(?) AND datetime(created_at) < datetime(?) ORDER BY datetime(created_at) ASC`
+    );
+    const results: Record<string, unknown>[] = [];
+    stmt.bind([createdFrom, createdTo]);
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results;
+  });
+
+  return rows.map((row) => mapRow(row));
+}
+
+/**
+ * Sessions with a tracking number whose shipment status is not one of
+ * `finalStatuses` and that were not polled since `polledBefore`, least
+ * recently polled first.
+ */
+export async function listSessionsAwaitingDelivery(
+  finalStatuses: readonly string[],
+  polledBefore: string,
+  limit = 50
+): Promise<PaymentSessionRecord[]> {
+  const rows = await runRead((db) => {
+    const stmt = db.prepare(`
+      ${baseSelect}
+      WHERE pronto_tracking_number IS NOT NULL
+        AND (pronto_status IS NULL OR pronto_status NOT IN (${finalStatuses
+          .map(() => "?")
+          .join(", ")}))
+        AND (tracking_polled_at IS NULL OR tracking_polled_at <= ?)
+      ORDER BY COALESCE(tracking_polled_at, '') ASC, datetime(created_at) ASC
+      LIMIT ?
+    `);
+    const results: Record<string, unknown>[] = [];
+    stmt.bind([...finalStatuses, polledBefore, limit]);
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results;
+  });
+
+  return rows.map((row) => mapRow(row));
+}
+
+export async function getPaymentSessionByTrackingNumber(
+  trackingNumber: string
+): Promise<PaymentSessionRecord | null> {
+  const row = await runRead((db) => {
+    const stmt = db.prepare(
+      `${baseSelect} WHERE pronto_tracking_number = ? LIMIT 1`
+    );
+    stmt.bind([trackingNumber]);
+    const result = stmt.step()
+      ? (stmt.getAsObject() as Record<string, unknown>)
+      : null;
+    stmt.free();
+    return result;
+  });
+
+  return row ? mapRow(row) : null;
+}
+
+export interface SessionLocationSummary {
+  location: string;
+  areaCode: string | null;
+  sessions: number;
+}
+
+/**
+ * Distinct session locations with the area code each was charged for.
+ */
+export async function listSessionLocations(): Promise<SessionLocationSummary[]> {
+  const rows = await runRead((db) => {
+    const stmt = db.prepare(`
+      SELECT
+        location,
+        pronto_area_code AS areaCode,
+        COUNT(*) AS sessions
+      FROM payment_sessions
+      GROUP BY location, pronto_area_code
+      ORDER BY sessions DESC, location ASC
+    `);
+    const results: Record<string, unknown>[] = [];
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results;
+  });
+
+  return rows.map((row) => ({
+    location: String(row.location),
+    areaCode: row.areaCode ? String(row.areaCode) : null,
+    sessions: Number(row.sessions),
+  }));
+}
@@ -0,0 +1,199 @@
+import crypto from "crypto";
+import { runRead, runWrite } from "@/lib/database";
+import type {
+  PaymentMethod,
+  PaymentStatus,
+  PaymentTransactionType,
+} from "@/schemas/payment.schema";
+
+export interface PaymentTransactionRecord {
+  id: string;
+  orderId: string;
+  sessionId?: string | null;
+  transactionId: string;
+  type: PaymentTransactionType;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  method: PaymentMethod;
+  cardBrand?: string | null;
+  cardLast4?: string | null;
+  gatewayResponse?: Record<string, unknown> | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpsertPaymentTransactionInput {
+  orderId: string;
+  sessionId?: string | null;
+  transactionId: string;
+  type: PaymentTransactionType;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  method: PaymentMethod;
+  cardBrand?: string | null;
+  cardLast4?: string | null;
+  gatewayResponse?: Record<string, unknown> | null;
+}
+
+const baseSelect = `
+  SELECT
+    id,
+    order_id AS orderId,
+    session_id AS sessionId,
+    gateway_transaction_id AS transactionId,
+    type,
+    amount,
+    currency,
+    status,
+    method,
+    card_brand AS cardBrand,
+    card_last4 AS cardLast4,
+    gateway_response AS gatewayResponseJson,
+    created_at AS createdAt,
+    updated_at AS updatedAt
+  FROM payment_transactions
+`;
+
+function mapRow(row: Record<string, unknown>): PaymentTransactionRecord {
+  return {
+    id: String(row.id),
+    orderId: String(row.orderId),
+    sessionId: row.sessionId ? String(row.sessionId) : null,
+    transactionId: String(row.transactionId),
+    type: row.type as PaymentTransactionType,
+    amount: Number(row.amount),
+    currency: String(row.currency),
+    status: row.status as PaymentStatus,
+    method: row.method as PaymentMethod,
+    cardBrand: row.cardBrand ? String(row.cardBrand) : null,
+    cardLast4: row.cardLast4 ? String(row.cardLast4) : null,
+    gatewayResponse: row.gatewayResponseJson
+      ? JSON.parse(String(row.gatewayResponseJson))
+      : null,
+    createdAt: String(row.createdAt),
+    updatedAt: String(row.updatedAt),
+  };
+}
+
+/**
+ * Insert a gateway transaction, or update it when the same MPGS transaction
+ * ID was already recorded for the order (e.g. a webhook and the sweeper both
+ * syncing the same authorization).
+ */
+export async function upsertPaymentTransaction(
+  data: UpsertPaymentTransactionInput
+): Promise<PaymentTransactionRecord> {
+  const now = new Date().toISOString();
+  await runWrite((db) => {
+    db.run(
+      `
+        INSERT INTO payment_transactions (
+          id,
+          order_id,
+          session_id,
+          gateway_transaction_id,
+          type,
+          amount,
+          currency,
+          status,
+          method,
+          card_brand,
+          card_last4,
+          gateway_response,
+          created_at,
+          updated_at
+        ) VALUES (
+          $id,
+          $orderId,
+          $sessionId,
+          $transactionId,
+          $type,
+          $amount,
+          $currency,
+          $status,
+          $method,
+          $cardBrand,
+          $cardLast4,
+          $gatewayResponse,
+          $createdAt,
+          $updatedAt
+        )
+        ON CONFLICT(order_id, gateway_transaction_id) DO UPDATE SET
+          session_id = COALESCE(excluded.session_id, session_id),
+          type = excluded.type,
+          amount = excluded.amount,
+          currency = excluded.currency,
+          status = excluded.status,
+          method = excluded.method,
+          card_brand = COALESCE(excluded.card_brand, card_brand),
+          card_last4 = COALESCE(excluded.card_last4, card_last4),
+          gateway_response = COALESCE(excluded.gateway_response, gateway_response),
+          updated_at = excluded.updated_at
+      `,
+      {
+        $id: crypto.randomUUID(),
+        $orderId: data.orderId,
+        $sessionId: data.sessionId ?? null,
+        $transactionId: data.transactionId,
+        $type: data.type,
+        $amount: data.amount,
+        $currency: data.currency,
+        $status: data.status,
+        $method: data.method,
+        $cardBrand: data.cardBrand ?? null,
+        $cardLast4: data.cardLast4 ?? null,
+        $gatewayResponse: data.gatewayResponse
+          ? JSON.stringify(data.gatewayResponse)
+          : null,
+        $createdAt: now,
+        $updatedAt: now,
+      }
+    );
+  });
+
+  const saved = await getPaymentTransaction(data.orderId, data.transactionId);
+  if (!saved) {
+    throw new Error("Failed to persist payment transaction");
+  }
+  return saved;
+}
+
+export async function getPaymentTransaction(
+  orderId: string,
+  transactionId: string
+): Promise<PaymentTransactionRecord | null> {
+  const row = await runRead((db) => {
+    const stmt = db.prepare(
+      `${baseSelect} WHERE order_id = ? AND gateway_transaction_id = ?`
+    );
+    stmt.bind([orderId, transactionId]);
+    const result = stmt.step()
+      ? (stmt.getAsObject() as Record<string, unknown>)
+      : null;
+    stmt.free();
+    return result;
+  });
+
+  return row ? mapRow(row) : null;
+}
+
+export async function listTransactionsForOrder(
+  orderId: string
+): Promise<PaymentTransactionRecord[]> {
+  const rows = await runRead((db) => {
+    const stmt = db.prepare(
+      `${baseSelect} WHERE order_id = ? ORDER BY datetime(created_at) ASC`
+    );
+    const results: Record<string, unknown>[] = [];
+    stmt.bind([orderId]);
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results;
+  });
+
+  return rows.map((row) => mapRow(row));
+}
@@ -0,0 +1,293 @@
+import crypto from "crypto";
+import type { Database } from "sql.js";
+import { runRead, runWrite } from "@/lib/database";
+
+/**
+ * An area code set by an admin for a location, checked before the
+ * gazetteer. `locationKey` is the normalized location text.
+ */
+export interface ProntoAreaOverrideRecord {
+  locationKey: string;
+  location: string;
+  areaCode: string;
+  note?: string | null;
+  updatedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AreaOverrideAuditAction = "CREATE" | "UPDATE" | "DELETE";
+
+export interface ProntoAreaOverrideAuditRecord {
+  auditId: string;
+  locationKey: string;
+  location: string;
+  action: AreaOverrideAuditAction;
+  previousAreaCode?: string | null;
+  areaCode?: string | null;
+  changedBy: string;
+  note?: string | null;
+  changedAt: string;
+}
+
+export interface AreaOverrideChange {
+  locationKey: string;
+  location: string;
+  areaCode: string;
+  note?: string | null;
+  changedBy: string;
+}
+
+const baseSelect = `
+  SELECT
+    location_key AS locationKey,
+    location,
+    area_code AS areaCode,
+    note,
+    updated_by AS updatedBy,
+    created_at AS createdAt,
+    updated_at AS updatedAt
+  FROM pronto_area_overrides
+`;
+
+const auditSelect = `
+  SELECT
+    audit_id AS auditId,
+    location_key AS locationKey,
+    location,
+    action,
+    previous_area_code AS previousAreaCode,
+    area_code AS areaCode,
+    changed_by AS changedBy,
+    note,
+    changed_at AS changedAt
+  FROM pronto_area_override_audit
+`;
+
+function mapRow(row: Record<string, unknown>): ProntoAreaOverrideRecord {
+  return {
+    locationKey: String(row.locationKey),
+    location: String(row.location),
+    areaCode: String(row.areaCode),
+    note: row.note ? String(row.note) : null,
+    updatedBy: String(row.updatedBy),
+    createdAt: String(row.createdAt),
+    updatedAt: String(row.updatedAt),
+  };
+}
+
+function mapAuditRow(
+  row: Record<string, unknown>
+): ProntoAreaOverrideAuditRecord {
+  return {
+    auditId: String(row.auditId),
+    locationKey: String(row.locationKey),
+    location: String(row.location),
+    action: row.action as AreaOverrideAuditAction,
+    previousAreaCode: row.previousAreaCode
+      ? String(row.previousAreaCode)
+      : null,
+    areaCode: row.areaCode ? String(row.areaCode) : null,
+    changedBy: String(row.changedBy),
+    note: row.note ? String(row.note) : null,
+    changedAt: String(row.changedAt),
+  };
+}
+
+function selectOverride(
+  db: Database,
+  locationKey: string
+): ProntoAreaOverrideRecord | null {
+  const stmt = db.prepare(`${baseSelect} WHERE location_key = ?`);
+  stmt.bind([locationKey]);
+  const row = stmt.step()
+    ? (stmt.getAsObject() as Record<string, unknown>)
+    : null;
+  stmt.free();
+  return row ? mapRow(row) : null;
+}
+
+function insertAudit(
+  db: Database,
+  entry: Omit<ProntoAreaOverrideAuditRecord, "auditId">
+) {
+  db.run(
+    `
+      INSERT INTO pronto_area_override_audit (
+        audit_id,
+        location_key,
+        location,
+        action,
+        previous_area_code,
+        area_code,
+        changed_by,
+        note,
+        changed_at
+      ) VALUES (
+        $auditId,
+        $locationKey,
+        $location,
+        $action,
+        $previousAreaCode,
+        $areaCode,
+        $changedBy,
+        $note,
+        $changedAt
+      )
+    `,
+    {
+      $auditId: crypto.randomUUID(),
+      $locationKey: entry.locationKey,
+      $location: entry.location,
+      $action: entry.action,
+      $previousAreaCode: entry.previousAreaCode ?? null,
+      $areaCode: entry.areaCode ?? null,
+      $changedBy: entry.changedBy,
+      $note: entry.note ?? null,
+      $changedAt: entry.changedAt,
+    }
+  );
+}
+
+/**
+ * Create or replace the override for a location and record the change in
+ * the audit table.
+ */
+export async function saveAreaOverride(
+  change: AreaOverrideChange
+): Promise<ProntoAreaOverrideRecord> {
+  await runWrite((db) => {
+    const previous = selectOverride(db, change.locationKey);
+    const now = new Date().toISOString();
+
+    db.run(
+      `
+        INSERT INTO pronto_area_overrides (
+          location_key,
+          location,
+          area_code,
+          note,
+          updated_by,
+          created_at,
+          updated_at
+        ) VALUES (
+          $locationKey,
+          $location,
+          $areaCode,
+          $note,
+          $updatedBy,
+          $now,
+          $now
+        )
+        ON CONFLICT(location_key) DO UPDATE SET
+          location = excluded.location,
+          area_code = excluded.area_code,
+          note = excluded.note,
+          updated_by = excluded.updated_by,
+          updated_at = excluded.updated_at
+      `,
+      {
+        $locationKey: change.locationKey,
+        $location: change.location,
+        $areaCode: change.areaCode,
+        $note: change.note ?? null,
+        $updatedBy: change.changedBy,
+        $now: now,
+      }
+    );
+
+    insertAudit(db, {
+      locationKey: change.locationKey,
+      location: change.location,
+      action: previous ? "UPDATE" : "CREATE",
+      previousAreaCode: previous?.areaCode ?? null,
+      areaCode: change.areaCode,
+      changedBy: change.changedBy,
+      note: change.note,
+      changedAt: now,
+    });
+  });
+
+  const saved = await getAreaOverride(change.locationKey);
+  if (!saved) {
+    throw new Error("Failed to persist Pronto area override");
+  }
+  return saved;
+}
+
+/**
+ * Remove an override and audit the removal. Returns the removed override,
+ * or null when there was none.
+ */
+export async function deleteAreaOverride(
+  locationKey: string,
+  changedBy: string,
+  note?: string | null
+): Promise<ProntoAreaOverrideRecord | null> {
+  return runWrite((db) => {
+    const previous = selectOverride(db, locationKey);
+    if (!previous) {
+      return null;
+    }
+
+    db.run("DELETE FROM pronto_area_overrides WHERE location_key = ?", [
+      locationKey,
+    ]);
+    insertAudit(db, {
+      locationKey,
+      location: previous.location,
+      action: "DELETE",
+      previousAreaCode: previous.areaCode,
+      areaCode: null,
+      changedBy,
+      note,
+      changedAt: new Date().toISOString(),
+    });
+    return previous;
+  });
+}
+
+export async function getAreaOverride(
+  locationKey: string
+): Promise<ProntoAreaOverrideRecord | null> {
+  return runRead((db) => selectOverride(db, locationKey));
+}
+
+export async function listAreaOverrides(): Promise<ProntoAreaOverrideRecord[]> {
+  const rows = await runRead((db) => {
+    const stmt = db.prepare(`${baseSelect} ORDER BY location ASC`);
+    const results: Record<string, unknown>[] = [];
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results;
+  });
+
+  return rows.map((row) => mapRow(row));
+}
+
+/**
+ * Audit entries, newest first, optionally for a single location.
+ */
+export async function listAreaOverrideAudit(
+  locationKey?: string,
+  limit = 100
+): Promise<ProntoAreaOverrideAuditRecord[]> {
+  const rows = await runRead((db) => {
+    const stmt = db.prepare(
+      locationKey
+        ? `${auditSelect} WHERE location_key = ? ORDER BY changed_at DESC LIMIT ?`
+        : `${auditSelect} ORDER BY changed_at DESC LIMIT ?`
+    );
+    const results: Record<string, unknown>[] = [];
+    stmt.bind(locationKey ? [locationKey, limit] : [limit]);
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results;
+  });
+
+  return rows.map((row) => mapAuditRow(row));
+}
@@ -0,0 +1,109 @@
+import { runRead, runWrite } from "@/lib/database";
+
+/**
+ * One line of the calc.method rate text. The band starting at 0 kg is a
+ * flat charge; later bands charge per started kg above `fromWeight`.
+ */
+export interface ProntoRateBand {
+  areaLabel: string;
+  areaCode: string | null;
+  fromWeight: number;
+  toWeight: number;
+  charge: number;
+}
+
+export interface ProntoRateCardRecord {
+  customerCode: string;
+  rates: ProntoRateBand[];
+  rawStructure: string;
+  fetchedAt: string;
+}
+
+const baseSelect = `
+  SELECT
+    customer_code AS customerCode,
+    rates AS ratesJson,
+    raw_structure AS rawStructure,
+    fetched_at AS fetchedAt
+  FROM pronto_rate_cards
+`;
+
+function mapRow(row: Record<string, unknown>): ProntoRateCardRecord {
+  return {
+    customerCode: String(row.customerCode),
+    rates: row.ratesJson ? JSON.parse(String(row.ratesJson)) : [],
+    rawStructure: String(row.rawStructure ?? ""),
+    fetchedAt: String(row.fetchedAt),
+  };
+}
+
+/**
+ * Store the latest rate card for a customer code, replacing the previous one.
+ */
+export async function saveRateCard(
+  data: ProntoRateCardRecord
+): Promise<ProntoRateCardRecord> {
+  await runWrite((db) => {
+    db.run(
+      `
+        INSERT INTO pronto_rate_cards (
+          customer_code,
+          rates,
+          raw_structure,
+          fetched_at
+        ) VALUES (
+          $customerCode,
+          $rates,
+          $rawStructure,
+          $fetchedAt
+        )
+        ON CONFLICT(customer_code) DO UPDATE SET
+          rates = excluded.rates,
+          raw_structure = excluded.raw_structure,
+          fetched_at = excluded.fetched_at
+      `,
+      {
+        $customerCode: data.customerCode,
+        $rates: JSON.stringify(data.rates),
+        $rawStructure: data.rawStructure,
+        $fetchedAt: data.fetchedAt,
+      }
+    );
+  });
+
+  const saved = await getRateCard(data.customerCode);
+  if (!saved) {
+    throw new Error("Failed to persist Pronto rate card");
+  }
+  return saved;
+}
+
+export async function getRateCard(
+  customerCode: string
+): Promise<ProntoRateCardRecord | null> {
+  const row = await runRead((db) => {
+    const stmt = db.prepare(`${baseSelect} WHERE customer_code = ?`);
+    stmt.bind([customerCode]);
+    const result = stmt.step()
+      ? (stmt.getAsObject() as Record<string, unknown>)
+      : null;
+    stmt.free();
+    return result;
+  });
+
+  return row ? mapRow(row) : null;
+}
+
+export async function listRateCards(): Promise<ProntoRateCardRecord[]> {
+  const rows = await runRead((db) => {
+    const stmt = db.prepare(`${baseSelect} ORDER BY customer_code ASC`);
+    const results: Record<string, unknown>[] = [];
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results;
+  });
+
+  return rows.map((row) => mapRow(row));
+}
@@ -0,0 +1,285 @@
+import { runRead, runWrite } from "@/lib/database";
+import type { BindParams, SqlValue } from "sql.js";
+
+/**
+ * Steps of a Pronto shipment, in order. A row exists from the moment a
+ * tracking number is reserved, so every status except INSERTED and
+ * ABANDONED is a shipment that can be resumed with the same number.
+ */
+export type ProntoShipmentStatus =
+  | "TNO_RESERVED"
+  | "QUOTED"
+  | "INSERT_ATTEMPTED"
+  | "INSERTED"
+  | "ABANDONED";
+
+export interface ProntoShipmentRecord {
+  shipmentId: string;
+  orderId: string;
+  sessionId?: string | null;
+  customerCode: string;
+  tnoCode: string;
+  trackingNumber: string;
+  status: ProntoShipmentStatus;
+  areaCode?: string | null;
+  weight?: number | null;
+  cost?: number | null;
+  attempts: number;
+  lastError?: string | null;
+  payload?: Record<string, unknown> | null;
+  response?: Record<string, unknown> | null;
+  reservedAt: string;
+  quotedAt?: string | null;
+  insertAttemptedAt?: string | null;
+  insertedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateProntoShipmentInput {
+  shipmentId: string;
+  orderId: string;
+  sessionId?: string | null;
+  customerCode: string;
+  tnoCode: string;
+  trackingNumber: string;
+}
+
+export type UpdateProntoShipmentInput = Partial<
+  Pick<
+    ProntoShipmentRecord,
+    | "sessionId"
+    | "status"
+    | "areaCode"
+    | "weight"
+    | "cost"
+    | "attempts"
+    | "lastError"
+    | "payload"
+    | "response"
+    | "quotedAt"
+    | "insertAttemptedAt"
+    | "insertedAt"
+  >
+>;
+
+const baseSelect = `
+  SELECT
+    shipment_id AS shipmentId,
+    order_id AS orderId,
+    session_id AS sessionId,
+    customer_code AS customerCode,
+    tno_code AS tnoCode,
+    tracking_number AS trackingNumber,
+    status,
+    area_code AS areaCode,
+    weight,
+    cost,
+    attempts,
+    last_error AS lastError,
+    payload AS payloadJson,
+    response AS responseJson,
+    reserved_at AS reservedAt,
+    quoted_at AS quotedAt,
+    insert_attempted_at AS insertAttemptedAt,
+    inserted_at AS insertedAt,
+    created_at AS createdAt,
+    updated_at AS updatedAt
+  FROM pronto_shipments
+`;
+
+function mapRow(row: Record<string, unknown>): ProntoShipmentRecord {
+  return {
+    shipmentId: String(row.shipmentId),
+    orderId: String(row.orderId),
+    sessionId: row.sessionId ? String(row.sessionId) : null,
+    customerCode: String(row.customerCode),
+    tnoCode: String(row.tnoCode),
+    trackingNumber: String(row.trackingNumber),
+    status: row.status as ProntoShipmentStatus,
+    areaCode: row.areaCode ? String(row.areaCode) : null,
+    weight: row.weight !== null ? Number(row.weight) : null,
+    cost: row.cost !== null ? Number(row.cost) : null,
+    attempts: Number(row.attempts),
+    lastError: row.lastError ? String(row.lastError) : null,
+    payload: row.payloadJson ? JSON.parse(String(row.payloadJson)) : null,
+    response: row.responseJson ? JSON.parse(String(row.responseJson)) : null,
+    reservedAt: String(row.reservedAt),
+    quotedAt: row.quotedAt ? String(row.quotedAt) : null,
+    insertAttemptedAt: row.insertAttemptedAt
+      ? String(row.insertAttemptedAt)
+      : null,
+    insertedAt: row.insertedAt ? String(row.insertedAt) : null,
+    createdAt: String(row.createdAt),
+    updatedAt: String(row.updatedAt),
+  };
+}
+
+function selectRows(sql: string, params: SqlValue[]) {
+  return runRead((db) => {
+    const stmt = db.prepare(sql);
+    const results: Record<string, unknown>[] = [];
+    stmt.bind(params);
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results.map((row) => mapRow(row));
+  });
+}
+
+/**
+ * Record a freshly reserved tracking number before anything else is sent
+ * to Pronto, so it survives a failure in the later steps.
+ */
+export async function createProntoShipmentRecord(
+  data: CreateProntoShipmentInput
+): Promise<ProntoShipmentRecord> {
+  const now = new Date().toISOString();
+  await runWrite((db) => {
+    db.run(
+      `
+        INSERT INTO pronto_shipments (
+          shipment_id,
+          order_id,
+          session_id,
+          customer_code,
+          tno_code,
+          tracking_number,
+          status,
+          attempts,
+          reserved_at,
+          created_at,
+          updated_at
+        ) VALUES (
+          $shipmentId,
+          $orderId,
+          $sessionId,
+          $customerCode,
+          $tnoCode,
+          $trackingNumber,
+          'TNO_RESERVED',
+          0,
+          $now,
+          $now,
+          $now
+        )
+      `,
+      {
+        $shipmentId: data.shipmentId,
+        $orderId: data.orderId,
+        $sessionId: data.sessionId ?? null,
+        $customerCode: data.customerCode,
+        $tnoCode: data.tnoCode,
+        $trackingNumber: data.trackingNumber,
+        $now: now,
+      }
+    );
+  });
+
+  const created = await getProntoShipment(data.shipmentId);
+  if (!created) {
+    throw new Error("Failed to persist Pronto shipment");
+  }
+  return created;
+}
+
+export async function updateProntoShipment(
+  shipmentId: string,
+  updates: UpdateProntoShipmentInput
+): Promise<ProntoShipmentRecord> {
+  const fields: string[] = [];
+  const params: BindParams = { $shipmentId: shipmentId };
+
+  const fieldMap: Record<string, string> = {
+    sessionId: "session_id",
+    status: "status",
+    areaCode: "area_code",
+    weight: "weight",
+    cost: "cost",
+    attempts: "attempts",
+    lastError: "last_error",
+    quotedAt: "quoted_at",
+    insertAttemptedAt: "insert_attempted_at",
+    insertedAt: "inserted_at",
+  };
+
+  (Object.entries(fieldMap) as Array<
+    [keyof UpdateProntoShipmentInput, string]
+  >).forEach(([key, column]) => {
+    if (Object.prototype.hasOwnProperty.call(updates, key)) {
+      const paramKey = `$${key}`;
+      params[paramKey] = (updates[key] ?? null) as SqlValue;
+      fields.push(`${column} = ${paramKey}`);
+    }
+  });
+
+  if ("payload" in updates) {
+    params.$payload = updates.payload ? JSON.stringify(updates.payload) : null;
+    fields.push("payload = $payload");
+  }
+
+  if ("response" in updates) {
+    params.$response = updates.response
+      ? JSON.stringify(updates.response)
+      : null;
+    fields.push("response = $response");
+  }
+
+  params.$updatedAt = new Date().toISOString();
+  fields.push("updated_at = $updatedAt");
+
+  await runWrite((db) => {
+    db.run(
+      `UPDATE pronto_shipments SET ${fields.join(", ")} WHERE shipment_id = $shipmentId`,
+      params
+    );
+  });
+
+  const updated = await getProntoShipment(shipmentId);
+  if (!updated) {
+    throw new Error("Pronto shipment not found");
+  }
+  return updated;
+}
+
+export async function getProntoShipment(
+  shipmentId: string
+): Promise<ProntoShipmentRecord | null> {
+  const [shipment] = await selectRows(`${baseSelect} WHERE shipment_id = ?`, [
+    shipmentId,
+  ]);
+  return shipment ?? null;
+}
+
+/**
+ * The latest unfinished shipment for an order, i.e. one whose tracking
+ * number was reserved but not yet inserted.
+ */
+export async function findResumableShipment(
+  orderId: string
+): Promise<ProntoShipmentRecord | null> {
+  const [shipment] = await selectRows(
+    `${baseSelect}
+      WHERE order_id = ? AND status NOT IN ('INSERTED', 'ABANDONED')
+      ORDER BY reserved_at DESC
+      LIMIT 1`,
+    [orderId]
+  );
+  return shipment ?? null;
+}
+
+/**
+ * Tracking numbers reserved before `reservedBefore` that never reached
+ * Pronto's tno.insert successfully, oldest first.
+ */
+export async function listOrphanedShipments(
+  reservedBefore: string
+): Promise<ProntoShipmentRecord[]> {
+  return selectRows(
+    `${baseSelect}
+      WHERE status != 'INSERTED' AND reserved_at <= ?
+      ORDER BY reserved_at ASC`,
+    [reservedBefore]
+  );
+}
@@ -0,0 +1,139 @@
+import crypto from "crypto";
+import { runRead, runWrite } from "@/lib/database";
+
+/**
+ * One entry of a tracking number's Pronto status history (tno.detail).
+ * `statusDate` is Pronto's local time without a zone, stored as given.
+ */
+export interface ShipmentEventRecord {
+  eventId: string;
+  trackingNumber: string;
+  sessionId?: string | null;
+  status: string;
+  statusDate: string;
+  hub?: string | null;
+  raw?: Record<string, unknown> | null;
+  recordedAt: string;
+}
+
+export interface ShipmentEventInput {
+  status: string;
+  statusDate: string;
+  hub?: string | null;
+  raw?: Record<string, unknown> | null;
+}
+
+const baseSelect = `
+  SELECT
+    event_id AS eventId,
+    tracking_number AS trackingNumber,
+    session_id AS sessionId,
+    status,
+    status_date AS statusDate,
+    hub,
+    raw AS rawJson,
+    recorded_at AS recordedAt
+  FROM shipment_events
+`;
+
+function mapRow(row: Record<string, unknown>): ShipmentEventRecord {
+  return {
+    eventId: String(row.eventId),
+    trackingNumber: String(row.trackingNumber),
+    sessionId: row.sessionId ? String(row.sessionId) : null,
+    status: String(row.status),
+    statusDate: String(row.statusDate),
+    hub: row.hub ? String(row.hub) : null,
+    raw: row.rawJson ? JSON.parse(String(row.rawJson)) : null,
+    recordedAt: String(row.recordedAt),
+  };
+}
+
+/**
+ * Store the events not seen before for a tracking number; an event is the
+ * same when its status and status date match. Returns the new events.
+ */
+export async function insertShipmentEvents(
+  trackingNumber: string,
+  sessionId: string | null,
+  events: ShipmentEventInput[]
+): Promise<ShipmentEventRecord[]> {
+  const recordedAt = new Date().toISOString();
+  return runWrite((db) => {
+    const inserted: ShipmentEventRecord[] = [];
+    for (const event of events) {
+      const record: ShipmentEventRecord = {
+        eventId: crypto.randomUUID(),
+        trackingNumber,
+        sessionId,
+        status: event.status,
+        statusDate: event.statusDate,
+        hub: event.hub ?? null,
+        raw: event.raw ?? null,
+        recordedAt,
+      };
+      db.run(
+        `
+          INSERT OR IGNORE INTO shipment_events (
+            event_id,
+            tracking_number,
+            session_id,
+            status,
+            status_date,
+            hub,
+            raw,
+            recorded_at
+          ) VALUES (
+            $eventId,
+            $trackingNumber,
+            $sessionId,
+            $status,
+            $statusDate,
+            $hub,
+            $raw,
+            $recordedAt
+          )
+        `,
+        {
+          $eventId: record.eventId,
+          $trackingNumber: trackingNumber,
+          $sessionId: sessionId,
+          $status: record.status,
+          $statusDate: record.statusDate,
+          $hub: record.hub ?? null,
+          $raw: record.raw ? JSON.stringify(record.raw) : null,
+          $recordedAt: recordedAt,
+        }
+      );
+      if (db.getRowsModified() > 0) {
+        inserted.push(record);
+      }
+    }
+    return inserted;
+  });
+}
+
+/**
+ * Stored events for a tracking number or a session, oldest first.
+ */
+export async function listShipmentEvents(filter: {
+  trackingNumber?: string;
+  sessionId?: string;
+}): Promise<ShipmentEventRecord[]> {
+  const rows = await runRead((db) => {
+    const stmt = db.prepare(
+      filter.trackingNumber
+        ? `${baseSelect} WHERE tracking_number = ? ORDER BY status_date ASC`
+        : `${baseSelect} WHERE session_id = ? ORDER BY status_date ASC`
+    );
+    const results: Record<string, unknown>[] = [];
+    stmt.bind([filter.trackingNumber ?? filter.sessionId ?? null]);
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results;
+  });
+
+  return rows.map((row) => mapRow(row));
+}
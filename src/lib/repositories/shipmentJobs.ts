@@ -0,0 +1,297 @@
+import { runRead, runWrite } from "@/lib/database";
+import type { BindParams, SqlValue } from "sql.js";
+
+/**
+ * QUEUED jobs run once `nextRunAt` has passed. A job that runs out of
+ * attempts is DEAD (dead-lettered) and needs someone to retry or cancel it.
+ */
+export type ShipmentJobStatus =
+  | "QUEUED"
+  | "RUNNING"
+  | "SUCCEEDED"
+  | "DEAD"
+  | "CANCELLED";
+
+export interface ShipmentJobRecord {
+  jobId: string;
+  sessionId: string;
+  status: ShipmentJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: string;
+  lastError?: string | null;
+  result?: Record<string, unknown> | null;
+  cancelReason?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string | null;
+}
+
+export interface CreateShipmentJobInput {
+  jobId: string;
+  sessionId: string;
+  maxAttempts: number;
+}
+
+export type UpdateShipmentJobInput = Partial<
+  Pick<
+    ShipmentJobRecord,
+    | "status"
+    | "attempts"
+    | "maxAttempts"
+    | "nextRunAt"
+    | "lastError"
+    | "result"
+    | "cancelReason"
+    | "finishedAt"
+  >
+>;
+
+export interface ShipmentJobFilter {
+  status?: ShipmentJobStatus;
+  sessionId?: string;
+  limit?: number;
+}
+
+const baseSelect = `
+  SELECT
+    job_id AS jobId,
+    session_id AS sessionId,
+    status,
+    attempts,
+    max_attempts AS maxAttempts,
+    next_run_at AS nextRunAt,
+    last_error AS lastError,
+    result AS resultJson,
+    cancel_reason AS cancelReason,
+    created_at AS createdAt,
+    updated_at AS updatedAt,
+    finished_at AS finishedAt
+  FROM shipment_jobs
+`;
+
+function mapRow(row: Record<string, unknown>): ShipmentJobRecord {
+  return {
+    jobId: String(row.jobId),
+    sessionId: String(row.sessionId),
+    status: row.status as ShipmentJobStatus,
+    attempts: Number(row.attempts),
+    maxAttempts: Number(row.maxAttempts),
+    nextRunAt: String(row.nextRunAt),
+    lastError: row.lastError ? String(row.lastError) : null,
+    result: row.resultJson ? JSON.parse(String(row.resultJson)) : null,
+    cancelReason: row.cancelReason ? String(row.cancelReason) : null,
+    createdAt: String(row.createdAt),
+    updatedAt: String(row.updatedAt),
+    finishedAt: row.finishedAt ? String(row.finishedAt) : null,
+  };
+}
+
+function selectRows(sql: string, params: SqlValue[]) {
+  return runRead((db) => {
+    const stmt = db.prepare(sql);
+    const results: Record<string, unknown>[] = [];
+    stmt.bind(params);
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results.map((row) => mapRow(row));
+  });
+}
+
+export async function createShipmentJob(
+  data: CreateShipmentJobInput
+): Promise<ShipmentJobRecord> {
+  const now = new Date().toISOString();
+  await runWrite((db) => {
+    db.run(
+      `
+        INSERT INTO shipment_jobs (
+          job_id,
+          session_id,
+          status,
+          attempts,
+          max_attempts,
+          next_run_at,
+          created_at,
+          updated_at
+        ) VALUES (
+          $jobId,
+          $sessionId,
+          'QUEUED',
+          0,
+          $maxAttempts,
+          $now,
+          $now,
+          $now
+        )
+      `,
+      {
+        $jobId: data.jobId,
+        $sessionId: data.sessionId,
+        $maxAttempts: data.maxAttempts,
+        $now: now,
+      }
+    );
+  });
+
+  const created = await getShipmentJob(data.jobId);
+  if (!created) {
+    throw new Error("Failed to persist shipment job");
+  }
+  return created;
+}
+
+export async function updateShipmentJob(
+  jobId: string,
+  updates: UpdateShipmentJobInput
+): Promise<ShipmentJobRecord> {
+  const fields: string[] = [];
+  const params: BindParams = { $jobId: jobId };
+
+  const fieldMap: Record<string, string> = {
+    status: "status",
+    attempts: "attempts",
+    maxAttempts: "max_attempts",
+    nextRunAt: "next_run_at",
+    lastError: "last_error",
+    cancelReason: "cancel_reason",
+    finishedAt: "finished_at",
+  };
+
+  (Object.entries(fieldMap) as Array<
+    [keyof UpdateShipmentJobInput, string]
+  >).forEach(([key, column]) => {
+    if (Object.prototype.hasOwnProperty.call(updates, key)) {
+      const paramKey = `$${key}`;
+      params[paramKey] = (updates[key] ?? null) as SqlValue;
+      fields.push(`${column} = ${paramKey}`);
+    }
+  });
+
+  if ("result" in updates) {
+    params.$result = updates.result ? JSON.stringify(updates.result) : null;
+    fields.push("result = $result");
+  }
+
+  params.$updatedAt = new Date().toISOString();
+  fields.push("updated_at = $updatedAt");
+
+  await runWrite((db) => {
+    db.run(
+      `UPDATE shipment_jobs SET ${fields.join(", ")} WHERE job_id = $jobId`,
+      params
+    );
+  });
+
+  const updated = await getShipmentJob(jobId);
+  if (!updated) {
+    throw new Error("Shipment job not found");
+  }
+  return updated;
+}
+
+/**
+ * Move a QUEUED job to RUNNING and count the attempt. Returns null when
+ * the job was no longer queued, e.g. another worker took it.
+ */
+export async function claimShipmentJob(
+  jobId: string
+): Promise<ShipmentJobRecord | null> {
+  const claimed = await runWrite((db) => {
+    db.run(
+      `
+        UPDATE shipment_jobs
+        SET status = 'RUNNING', attempts = attempts + 1, updated_at = $now
+        WHERE job_id = $jobId AND status = 'QUEUED'
+      `,
+      { $jobId: jobId, $now: new Date().toISOString() }
+    );
+    return db.getRowsModified() > 0;
+  });
+
+  return claimed ? getShipmentJob(jobId) : null;
+}
+
+/**
+ * Put jobs left RUNNING by a process that stopped mid-attempt back in the
+ * queue. Returns how many were re-queued.
+ */
+export async function requeueRunningShipmentJobs(): Promise<number> {
+  return runWrite((db) => {
+    const now = new Date().toISOString();
+    db.run(
+      `
+        UPDATE shipment_jobs
+        SET status = 'QUEUED', next_run_at = $now, updated_at = $now
+        WHERE status = 'RUNNING'
+      `,
+      { $now: now }
+    );
+    return db.getRowsModified();
+  });
+}
+
+export async function getShipmentJob(
+  jobId: string
+): Promise<ShipmentJobRecord | null> {
+  const [job] = await selectRows(`${baseSelect} WHERE job_id = ?`, [jobId]);
+  return job ?? null;
+}
+
+/**
+ * The QUEUED or RUNNING job for a session, if any.
+ */
+export async function findActiveShipmentJob(
+  sessionId: string
+): Promise<ShipmentJobRecord | null> {
+  const [job] = await selectRows(
+    `${baseSelect}
+      WHERE session_id = ? AND status IN ('QUEUED', 'RUNNING')
+      ORDER BY created_at DESC
+      LIMIT 1`,
+    [sessionId]
+  );
+  return job ?? null;
+}
+
+export async function listDueShipmentJobs(
+  now: string,
+  limit = 20
+): Promise<ShipmentJobRecord[]> {
+  return selectRows(
+    `${baseSelect}
+      WHERE status = 'QUEUED' AND next_run_at <= ?
+      ORDER BY next_run_at ASC
+      LIMIT ?`,
+    [now, limit]
+  );
+}
+
+/**
+ * Jobs newest first, optionally filtered by status and session.
+ */
+export async function listShipmentJobs(
+  filter: ShipmentJobFilter = {}
+): Promise<ShipmentJobRecord[]> {
+  const conditions: string[] = [];
+  const params: SqlValue[] = [];
+  if (filter.status) {
+    conditions.push("status = ?");
+    params.push(filter.status);
+  }
+  if (filter.sessionId) {
+    conditions.push("session_id = ?");
+    params.push(filter.sessionId);
+  }
+  params.push(filter.limit ?? 100);
+
+  return selectRows(
+    `${baseSelect}
+      ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY created_at DESC
+      LIMIT ?`,
+    params
+  );
+}
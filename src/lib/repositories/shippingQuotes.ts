@@ -0,0 +1,132 @@
+import { runRead, runWrite } from "@/lib/database";
+import type { LocationMatch } from "@/lib/gazetteer";
+import type { ShippingQuoteSource } from "@/lib/prontoRateCards";
+
+export interface ShippingQuoteRecord {
+  quoteId: string;
+  customerCode: string;
+  location: string;
+  areaCode: string;
+  weight: number;
+  amount: number;
+  currency: string;
+  source: ShippingQuoteSource;
+  rateCardFetchedAt?: string | null;
+  locationMatch?: LocationMatch | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const baseSelect = `
+  SELECT
+    quote_id AS quoteId,
+    customer_code AS customerCode,
+    location,
+    area_code AS areaCode,
+    weight,
+    amount,
+    currency,
+    source,
+    rate_card_fetched_at AS rateCardFetchedAt,
+    location_match AS locationMatch,
+    created_at AS createdAt,
+    expires_at AS expiresAt
+  FROM shipping_quotes
+`;
+
+function mapRow(row: Record<string, unknown>): ShippingQuoteRecord {
+  return {
+    quoteId: String(row.quoteId),
+    customerCode: String(row.customerCode),
+    location: String(row.location),
+    areaCode: String(row.areaCode),
+    weight: Number(row.weight),
+    amount: Number(row.amount),
+    currency: String(row.currency),
+    source: row.source as ShippingQuoteSource,
+    rateCardFetchedAt: row.rateCardFetchedAt
+      ? String(row.rateCardFetchedAt)
+      : null,
+    locationMatch: row.locationMatch
+      ? (JSON.parse(String(row.locationMatch)) as LocationMatch)
+      : null,
+    createdAt: String(row.createdAt),
+    expiresAt: String(row.expiresAt),
+  };
+}
+
+export async function createShippingQuote(
+  data: ShippingQuoteRecord
+): Promise<ShippingQuoteRecord> {
+  await runWrite((db) => {
+    db.run(
+      `
+        INSERT INTO shipping_quotes (
+          quote_id,
+          customer_code,
+          location,
+          area_code,
+          weight,
+          amount,
+          currency,
+          source,
+          rate_card_fetched_at,
+          location_match,
+          created_at,
+          expires_at
+        ) VALUES (
+          $quoteId,
+          $customerCode,
+          $location,
+          $areaCode,
+          $weight,
+          $amount,
+          $currency,
+          $source,
+          $rateCardFetchedAt,
+          $locationMatch,
+          $createdAt,
+          $expiresAt
+        )
+      `,
+      {
+        $quoteId: data.quoteId,
+        $customerCode: data.customerCode,
+        $location: data.location,
+        $areaCode: data.areaCode,
+        $weight: data.weight,
+        $amount: data.amount,
+        $currency: data.currency,
+        $source: data.source,
+        $rateCardFetchedAt: data.rateCardFetchedAt ?? null,
+        $locationMatch: data.locationMatch
+          ? JSON.stringify(data.locationMatch)
+          : null,
+        $createdAt: data.createdAt,
+        $expiresAt: data.expiresAt,
+      }
+    );
+  });
+
+  const saved = await findShippingQuote(data.quoteId);
+  if (!saved) {
+    throw new Error("Failed to persist shipping quote");
+  }
+  return saved;
+}
+
+export async function findShippingQuote(
+  quoteId: string
+): Promise<ShippingQuoteRecord | null> {
+  const row = await runRead((db) => {
+    const stmt = db.prepare(`${baseSelect} WHERE quote_id = ?`);
+    stmt.bind([quoteId]);
+    const result = stmt.step()
+      ? (stmt.getAsObject() as Record<string, unknown>)
+      : null;
+    stmt.free();
+    return result;
+  });
+
+  return row ? mapRow(row) : null;
+}
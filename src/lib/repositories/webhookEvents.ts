@@ -0,0 +1,256 @@
+import crypto from "crypto";
+import { runRead, runWrite } from "@/lib/database";
+import type { BindParams } from "sql.js";
+
+/**
+ * PROCESSING while the handler runs, then one of the terminal outcomes.
+ * DUPLICATE deliveries are stored but never processed.
+ */
+export type WebhookEventOutcome =
+  | "PROCESSING"
+  | "PROCESSED"
+  | "DUPLICATE"
+  | "REJECTED"
+  | "FAILED";
+
+export interface WebhookEventRecord {
+  eventId: string;
+  dedupeKey?: string | null;
+  notificationId?: string | null;
+  transactionId?: string | null;
+  sessionId?: string | null;
+  orderId?: string | null;
+  headers: Record<string, string>;
+  rawBody: string;
+  outcome: WebhookEventOutcome;
+  outcomeDetail?: string | null;
+  duplicateOf?: string | null;
+  receivedAt: string;
+  processedAt?: string | null;
+}
+
+export interface RecordWebhookEventInput {
+  dedupeKey?: string | null;
+  notificationId?: string | null;
+  transactionId?: string | null;
+  sessionId?: string | null;
+  orderId?: string | null;
+  headers: Record<string, string>;
+  rawBody: string;
+  outcome?: WebhookEventOutcome;
+  outcomeDetail?: string | null;
+}
+
+export interface ListWebhookEventsFilter {
+  sessionId?: string;
+  outcome?: WebhookEventOutcome;
+  limit?: number;
+}
+
+const baseSelect = `
+  SELECT
+    event_id AS eventId,
+    dedupe_key AS dedupeKey,
+    notification_id AS notificationId,
+    transaction_id AS transactionId,
+    session_id AS sessionId,
+    order_id AS orderId,
+    headers AS headersJson,
+    raw_body AS rawBody,
+    outcome,
+    outcome_detail AS outcomeDetail,
+    duplicate_of AS duplicateOf,
+    received_at AS receivedAt,
+    processed_at AS processedAt
+  FROM webhook_events
+`;
+
+function mapRow(row: Record<string, unknown>): WebhookEventRecord {
+  return {
+    eventId: String(row.eventId),
+    dedupeKey: row.dedupeKey ? String(row.dedupeKey) : null,
+    notificationId: row.notificationId ? String(row.notificationId) : null,
+    transactionId: row.transactionId ? String(row.transactionId) : null,
+    sessionId: row.sessionId ? String(row.sessionId) : null,
+    orderId: row.orderId ? String(row.orderId) : null,
+    headers: row.headersJson ? JSON.parse(String(row.headersJson)) : {},
+    rawBody: String(row.rawBody ?? ""),
+    outcome: row.outcome as WebhookEventOutcome,
+    outcomeDetail: row.outcomeDetail ? String(row.outcomeDetail) : null,
+    duplicateOf: row.duplicateOf ? String(row.duplicateOf) : null,
+    receivedAt: String(row.receivedAt),
+    processedAt: row.processedAt ? String(row.processedAt) : null,
+  };
+}
+
+// A delivery still PROCESSING after this long was cut off (crash, restart)
+// and will never complete, so a redelivery may take it over.
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Store a webhook delivery. When an earlier delivery with the same dedupe key
+ * is already processing or processed, the new one is stored as DUPLICATE and
+ * linked to it. A delivery stuck in PROCESSING for longer than
+ * PROCESSING_TIMEOUT_MS is marked FAILED instead and the new one is
+ * processed. The lookup and insert run in one synchronous write, so two
+ * concurrent deliveries cannot both be accepted.
+ */
+export async function recordWebhookEvent(
+  data: RecordWebhookEventInput
+): Promise<WebhookEventRecord> {
+  const eventId = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  await runWrite((db) => {
+    let duplicateOf: string | null = null;
+    if (data.dedupeKey) {
+      db.run(
+        `UPDATE webhook_events
+         SET outcome = 'FAILED', outcome_detail = 'PROCESSING_TIMEOUT', processed_at = $now
+         WHERE dedupe_key = $dedupeKey AND outcome = 'PROCESSING'
+           AND received_at < $staleBefore`,
+        {
+          $dedupeKey: data.dedupeKey,
+          $now: now,
+          $staleBefore: new Date(
+            Date.parse(now) - PROCESSING_TIMEOUT_MS
+          ).toISOString(),
+        }
+      );
+
+      const stmt = db.prepare(
+        `SELECT event_id AS eventId FROM webhook_events
+         WHERE dedupe_key = ? AND outcome IN ('PROCESSING', 'PROCESSED')
+         ORDER BY datetime(received_at) ASC LIMIT 1`
+      );
+      stmt.bind([data.dedupeKey]);
+      if (stmt.step()) {
+        duplicateOf = String(stmt.getAsObject().eventId);
+      }
+      stmt.free();
+    }
+
+    db.run(
+      `
+        INSERT INTO webhook_events (
+          event_id,
+          dedupe_key,
+          notification_id,
+          transaction_id,
+          session_id,
+          order_id,
+          headers,
+          raw_body,
+          outcome,
+          outcome_detail,
+          duplicate_of,
+          received_at,
+          processed_at
+        ) VALUES (
+          $eventId,
+          $dedupeKey,
+          $notificationId,
+          $transactionId,
+          $sessionId,
+          $orderId,
+          $headers,
+          $rawBody,
+          $outcome,
+          $outcomeDetail,
+          $duplicateOf,
+          $receivedAt,
+          $processedAt
+        )
+      `,
+      {
+        $eventId: eventId,
+        $dedupeKey: data.dedupeKey ?? null,
+        $notificationId: data.notificationId ?? null,
+        $transactionId: data.transactionId ?? null,
+        $sessionId: data.sessionId ?? null,
+        $orderId: data.orderId ?? null,
+        $headers: JSON.stringify(data.headers),
+        $rawBody: data.rawBody,
+        $outcome: duplicateOf ? "DUPLICATE" : data.outcome ?? "PROCESSING",
+        $outcomeDetail: data.outcomeDetail ?? null,
+        $duplicateOf: duplicateOf,
+        $receivedAt: now,
+        $processedAt: duplicateOf || data.outcome ? now : null,
+      }
+    );
+  });
+
+  const created = await getWebhookEvent(eventId);
+  if (!created) {
+    throw new Error("Failed to record webhook event");
+  }
+  return created;
+}
+
+export async function completeWebhookEvent(
+  eventId: string,
+  outcome: Exclude<WebhookEventOutcome, "PROCESSING" | "DUPLICATE">,
+  outcomeDetail?: string | null
+): Promise<void> {
+  await runWrite((db) => {
+    db.run(
+      `UPDATE webhook_events
+       SET outcome = $outcome, outcome_detail = $outcomeDetail, processed_at = $processedAt
+       WHERE event_id = $eventId`,
+      {
+        $eventId: eventId,
+        $outcome: outcome,
+        $outcomeDetail: outcomeDetail ?? null,
+        $processedAt: new Date().toISOString(),
+      }
+    );
+  });
+}
+
+export async function getWebhookEvent(
+  eventId: string
+): Promise<WebhookEventRecord | null> {
+  const row = await runRead((db) => {
+    const stmt = db.prepare(`${baseSelect} WHERE event_id = ?`);
+    stmt.bind([eventId]);
+    const result = stmt.step()
+      ? (stmt.getAsObject() as Record<string, unknown>)
+      : null;
+    stmt.free();
+    return result;
+  });
+
+  return row ? mapRow(row) : null;
+}
+
+export async function listWebhookEvents(
+  filter: ListWebhookEventsFilter = {}
+): Promise<WebhookEventRecord[]> {
+  const conditions: string[] = [];
+  const params: BindParams = { $limit: filter.limit ?? 50 };
+
+  if (filter.sessionId) {
+    conditions.push("session_id = $sessionId");
+    params.$sessionId = filter.sessionId;
+  }
+  if (filter.outcome) {
+    conditions.push("outcome = $outcome");
+    params.$outcome = filter.outcome;
+  }
+
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  const rows = await runRead((db) => {
+    const stmt = db.prepare(
+      `${baseSelect} ${where} ORDER BY datetime(received_at) DESC LIMIT $limit`
+    );
+    const results: Record<string, unknown>[] = [];
+    stmt.bind(params);
+    while (stmt.step()) {
+      results.push(stmt.getAsObject());
+    }
+    stmt.free();
+    return results;
+  });
+
+  return rows.map((row) => mapRow(row));
+}
@@ -0,0 +1,378 @@
+import crypto from "crypto";
+import {
+  fulfillPaidSession,
+  isShippable,
+  ShipmentOperationError,
+} from "@/lib/prontoOrderService";
+import { isRetryableProntoError } from "@/lib/prontoApiService";
+import {
+  getPaymentSession,
+  updatePaymentSession,
+  withSessionHistory,
+} from "@/lib/repositories/paymentSessions";
+import {
+  claimShipmentJob,
+  createShipmentJob,
+  findActiveShipmentJob,
+  getShipmentJob,
+  listDueShipmentJobs,
+  requeueRunningShipmentJobs,
+  updateShipmentJob,
+  type ShipmentJobRecord,
+} from "@/lib/repositories/shipmentJobs";
+
+/**
+ * Persistent retry queue for shipment creation.
+ *
+ * A paid session gets a job instead of a single Pronto attempt. An attempt
+ * that failed because Pronto was unavailable is retried with exponential
+ * backoff; once `maxAttempts` is used up, or straight away when Pronto
+ * rejected the shipment, the job is DEAD, the session is marked FAILED and
+ * an AUTHORIZE-mode payment is voided, as a single failure used to do.
+ * A capture that fails after Pronto accepted the shipment is retried the
+ * same way; the retry only captures, and a DEAD job keeps the shipment.
+ */
+
+export interface ShipmentJobRunSummary {
+  startedAt: string;
+  finishedAt: string;
+  checked: number;
+  jobs: ShipmentJobRecord[];
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_SECONDS = 30;
+const MAX_DELAY_SECONDS = 60 * 60;
+const DEFAULT_POLL_INTERVAL_SECONDS = 15;
+
+function readPositiveNumber(value: string | undefined, fallback: number) {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function getMaxAttempts(): number {
+  return Math.floor(
+    readPositiveNumber(
+      process.env.SHIPMENT_JOB_MAX_ATTEMPTS,
+      DEFAULT_MAX_ATTEMPTS
+    )
+  );
+}
+
+/**
+ * Delay before the next attempt: the base delay doubled for every attempt
+ * already made (30s, 1m, 2m, 4m, ...), capped at an hour.
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const baseSeconds = readPositiveNumber(
+    process.env.SHIPMENT_JOB_BASE_DELAY_SECONDS,
+    DEFAULT_BASE_DELAY_SECONDS
+  );
+  const seconds = Math.min(
+    baseSeconds * 2 ** Math.max(attempts - 1, 0),
+    MAX_DELAY_SECONDS
+  );
+  return seconds * 1000;
+}
+
+function isRetryableJobError(error: unknown): boolean {
+  return (
+    isRetryableProntoError(error) ||
+    (error instanceof ShipmentOperationError && error.code === "CAPTURE_FAILED")
+  );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Queue shipment creation for a paid session. Returns the session's
+ * active job instead when one is already queued or running.
+ */
+export async function enqueueShipmentJob(
+  sessionId: string
+): Promise<ShipmentJobRecord> {
+  const active = await findActiveShipmentJob(sessionId);
+  if (active) {
+    return active;
+  }
+
+  const session = await getPaymentSession(sessionId);
+  if (!session) {
+    throw new Error(`Payment session not found for ${sessionId}`);
+  }
+
+  const job = await createShipmentJob({
+    jobId: crypto.randomUUID(),
+    sessionId,
+    maxAttempts: getMaxAttempts(),
+  });
+
+  await updatePaymentSession(sessionId, {
+    ...(!session.prontoTrackingNumber && { prontoStatus: "QUEUED" }),
+    metadata: withSessionHistory(session.metadata, {
+      at: job.createdAt,
+      event: "SHIPMENT_QUEUED",
+      jobId: job.jobId,
+    }),
+  });
+
+  console.log("🚚 Shipment job queued", { sessionId, jobId: job.jobId });
+  return job;
+}
+
+/**
+ * Make one attempt for a QUEUED job. Returns the job as it ends up, or
+ * null when the job was not queued (already running, finished or gone).
+ */
+export async function runShipmentJob(
+  jobId: string
+): Promise<ShipmentJobRecord | null> {
+  const job = await claimShipmentJob(jobId);
+  if (!job) {
+    return null;
+  }
+
+  const session = await getPaymentSession(job.sessionId);
+  if (!session || !isShippable(session)) {
+    const reason = session
+      ? `Session is ${session.status}; nothing to ship`
+      : "Payment session not found";
+    console.warn("🚚 Shipment job cancelled", { jobId, reason });
+    return updateShipmentJob(jobId, {
+      status: "CANCELLED",
+      lastError: reason,
+      finishedAt: new Date().toISOString(),
+    });
+  }
+
+  const finalAttempt = job.attempts >= job.maxAttempts;
+  try {
+    const shipment = await fulfillPaidSession(job.sessionId, {
+      finalAttempt,
+    });
+    if (shipment.capture?.status === "FAILED") {
+      // The consignment exists, but the authorization is still open and
+      // lapses unless captured. The next attempt reuses the shipment and
+      // only captures again.
+      throw new ShipmentOperationError(
+        "CAPTURE_FAILED",
+        `Shipment ${shipment.trackingNumber} was created but the capture failed: ${
+          shipment.capture.error ?? "payment not captured"
+        }`
+      );
+    }
+    return updateShipmentJob(jobId, {
+      status: "SUCCEEDED",
+      lastError: null,
+      result: {
+        trackingNumber: shipment.trackingNumber,
+        existing: shipment.existing,
+        captureStatus: shipment.capture?.status ?? null,
+      },
+      finishedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    // A rejected shipment (bad address, credentials, unknown location…)
+    // fails the same way every time, so only outages and failed captures
+    // are retried.
+    if (finalAttempt || !isRetryableJobError(error)) {
+      console.error("❌ Shipment job dead-lettered", {
+        jobId,
+        sessionId: job.sessionId,
+        attempts: job.attempts,
+        finalAttempt,
+        error: errorMessage(error),
+      });
+      return updateShipmentJob(jobId, {
+        status: "DEAD",
+        lastError: errorMessage(error),
+        finishedAt: new Date().toISOString(),
+      });
+    }
+
+    const nextRunAt = new Date(
+      Date.now() + getRetryDelayMs(job.attempts)
+    ).toISOString();
+    console.warn("🚚 Shipment job will retry", {
+      jobId,
+      attempts: job.attempts,
+      nextRunAt,
+    });
+    return updateShipmentJob(jobId, {
+      status: "QUEUED",
+      lastError: errorMessage(error),
+      nextRunAt,
+    });
+  }
+}
+
+/**
+ * Run every queued job whose next attempt is due, one at a time.
+ */
+export async function processDueShipmentJobs(
+  limit = 20
+): Promise<ShipmentJobRunSummary> {
+  const startedAt = new Date().toISOString();
+  const due = await listDueShipmentJobs(startedAt, limit);
+
+  const jobs: ShipmentJobRecord[] = [];
+  for (const job of due) {
+    const result = await runShipmentJob(job.jobId);
+    if (result) {
+      jobs.push(result);
+    }
+  }
+
+  return {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    checked: due.length,
+    jobs,
+  };
+}
+
+/**
+ * Queue a DEAD or CANCELLED job again with a fresh set of attempts, or
+ * bring a waiting QUEUED job forward, and run it now.
+ */
+export async function retryShipmentJob(
+  jobId: string
+): Promise<ShipmentJobRecord | null> {
+  const job = await getShipmentJob(jobId);
+  if (!job) {
+    return null;
+  }
+  if (job.status === "RUNNING" || job.status === "SUCCEEDED") {
+    throw new ShipmentOperationError(
+      "SHIPMENT_JOB_NOT_RETRYABLE",
+      `Shipment job is ${job.status}`
+    );
+  }
+
+  const session = await getPaymentSession(job.sessionId);
+  if (!session || !isShippable(session)) {
+    throw new ShipmentOperationError(
+      "SESSION_NOT_SHIPPABLE",
+      session
+        ? `Session is ${session.status}; its payment cannot be shipped`
+        : "Payment session not found"
+    );
+  }
+
+  if (job.status !== "QUEUED") {
+    const active = await findActiveShipmentJob(job.sessionId);
+    if (active) {
+      throw new ShipmentOperationError(
+        "SHIPMENT_JOB_ACTIVE",
+        `Session already has an active shipment job (${active.jobId})`
+      );
+    }
+  }
+
+  await updateShipmentJob(jobId, {
+    status: "QUEUED",
+    attempts: 0,
+    maxAttempts: getMaxAttempts(),
+    nextRunAt: new Date().toISOString(),
+    cancelReason: null,
+    finishedAt: null,
+  });
+
+  return (await runShipmentJob(jobId)) ?? getShipmentJob(jobId);
+}
+
+/**
+ * Stop a QUEUED job, or close a DEAD one that will be handled by hand.
+ */
+export async function cancelShipmentJob(
+  jobId: string,
+  reason: string
+): Promise<ShipmentJobRecord | null> {
+  const job = await getShipmentJob(jobId);
+  if (!job) {
+    return null;
+  }
+  if (job.status !== "QUEUED" && job.status !== "DEAD") {
+    throw new ShipmentOperationError(
+      "SHIPMENT_JOB_NOT_CANCELLABLE",
+      `Shipment job is ${job.status}`
+    );
+  }
+
+  const cancelled = await updateShipmentJob(jobId, {
+    status: "CANCELLED",
+    cancelReason: reason,
+    finishedAt: new Date().toISOString(),
+  });
+
+  const session = await getPaymentSession(job.sessionId);
+  if (session) {
+    await updatePaymentSession(job.sessionId, {
+      ...(!session.prontoTrackingNumber && { prontoStatus: "CANCELLED" }),
+      metadata: withSessionHistory(session.metadata, {
+        at: cancelled.updatedAt,
+        event: "SHIPMENT_JOB_CANCELLED",
+        jobId,
+        reason,
+      }),
+    });
+  }
+
+  return cancelled;
+}
+
+declare global {
+  var __SHIPMENT_JOB_WORKER__: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Poll for due shipment jobs on an interval (used in development via
+ * instrumentation). Safe to call more than once; hot reloads reuse the
+ * existing timer.
+ */
+export function startShipmentJobWorker(): void {
+  if (globalThis.__SHIPMENT_JOB_WORKER__) {
+    return;
+  }
+
+  const intervalSeconds = readPositiveNumber(
+    process.env.SHIPMENT_JOB_POLL_INTERVAL_SECONDS,
+    DEFAULT_POLL_INTERVAL_SECONDS
+  );
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await processDueShipmentJobs();
+    } catch (error) {
+      console.error("❌ Shipment job run failed", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  // A previous process may have stopped in the middle of an attempt.
+  void requeueRunningShipmentJobs()
+    .then((requeued) => {
+      if (requeued > 0) {
+        console.log(`🚚 Re-queued ${requeued} interrupted shipment job(s)`);
+      }
+    })
+    .catch((error) =>
+      console.error("❌ Failed to re-queue shipment jobs", error)
+    );
+
+  const timer = setInterval(tick, intervalSeconds * 1000);
+  timer.unref?.();
+
+  globalThis.__SHIPMENT_JOB_WORKER__ = timer;
+  console.log(
+    `🚚 Shipment job worker started (every ${intervalSeconds}s, ${getMaxAttempts()} attempts)`
+  );
+}
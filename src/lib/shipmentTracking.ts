@@ -0,0 +1,285 @@
+import { createProntoApiService } from "@/lib/prontoApiService";
+import {
+  getPaymentSessionByTrackingNumber,
+  listSessionsAwaitingDelivery,
+  updatePaymentSession,
+  withSessionHistory,
+  type PaymentSessionRecord,
+} from "@/lib/repositories/paymentSessions";
+import {
+  insertShipmentEvents,
+  type ShipmentEventRecord,
+} from "@/lib/repositories/shipmentEvents";
+import type { ProntoResponse } from "@/schemas/pronto.schema";
+
+/**
+ * Tracking history kept locally. Pronto's tno.detail is polled for every
+ * session whose shipment has not reached a final status; new entries are
+ * stored in `shipment_events` and the session's `prontoStatus` follows
+ * the latest one.
+ */
+
+export type TrackingEntry = ProntoResponse<"tno.detail">["tracking_no"][number];
+
+export interface TrackingUpdate {
+  trackingNumber: string;
+  sessionId: string | null;
+  newEvents: ShipmentEventRecord[];
+  status: string | null;
+  previousStatus: string | null;
+}
+
+export interface TrackingPollResult {
+  sessionId: string;
+  trackingNumber: string;
+  newEvents: number;
+  status: string | null;
+  error?: string;
+}
+
+export interface TrackingPollSummary {
+  startedAt: string;
+  finishedAt: string;
+  checked: number;
+  results: TrackingPollResult[];
+}
+
+export const TRACKING_STATUS_DESCRIPTIONS: Record<string, string> = {
+  A: "Accepted by Pronto Branch",
+  I: "Data Entry to System",
+  S: "Scanned Out to Delivery Route",
+  C: "Consignment Delivery Complete",
+  M: "Interbranch Transit",
+  Delivered: "Consignment Delivered",
+  Reject: "Consignment Rejected",
+  Return: "Consignment Returned to Another Branch",
+};
+
+// Session prontoStatus for each Pronto tracking status code.
+const SHIPMENT_STATUS_BY_CODE: Record<string, string> = {
+  I: "DATA_ENTERED",
+  A: "ACCEPTED",
+  M: "IN_TRANSIT",
+  S: "OUT_FOR_DELIVERY",
+  C: "DELIVERED",
+  Delivered: "DELIVERED",
+  Reject: "REJECTED",
+  Return: "RETURNED",
+};
+
+// Shipments in these states are not polled any more. `Return` counts as
+// final even though the specification words it as a return to another
+// branch: the shipment has left the delivery route (the simulator ends
+// returned shipments with it).
+export const FINAL_SHIPMENT_STATUSES = [
+  "DELIVERED",
+  "RETURNED",
+  "REJECTED",
+] as const;
+
+const DEFAULT_MIN_POLL_INTERVAL_MINUTES = 10;
+const DEFAULT_POLL_INTERVAL_MINUTES = 5;
+
+function readPositiveNumber(value: string | undefined, fallback: number) {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function toShipmentStatus(code: string): string | null {
+  return SHIPMENT_STATUS_BY_CODE[code] ?? null;
+}
+
+function statusTime(entry: TrackingEntry): number {
+  const time = Date.parse(entry.STATUS_DATE);
+  return Number.isNaN(time) ? -Infinity : time;
+}
+
+/**
+ * The entry with the newest STATUS_DATE; tno.detail does not promise any
+ * order. On a tie the entry listed later wins.
+ */
+export function latestTrackingEntry(
+  entries: TrackingEntry[]
+): TrackingEntry | null {
+  return entries.reduce<TrackingEntry | null>(
+    (latest, entry) =>
+      latest && statusTime(latest) > statusTime(entry) ? latest : entry,
+    null
+  );
+}
+
+/**
+ * Store the tno.detail entries not recorded before and move the owning
+ * session (if any) to the status of the latest entry.
+ */
+export async function recordTrackingEvents(
+  trackingNumber: string,
+  entries: TrackingEntry[],
+  session?: PaymentSessionRecord | null
+): Promise<TrackingUpdate> {
+  const owner =
+    session === undefined
+      ? await getPaymentSessionByTrackingNumber(trackingNumber)
+      : session;
+
+  const newEvents = await insertShipmentEvents(
+    trackingNumber,
+    owner?.sessionId ?? null,
+    entries.map((entry) => ({
+      status: entry.STATUS,
+      statusDate: entry.STATUS_DATE,
+      hub: entry.PRONTO_HUB ?? null,
+      raw: entry,
+    }))
+  );
+
+  const latest = latestTrackingEntry(entries);
+  const status = latest ? toShipmentStatus(latest.STATUS) : null;
+  const previousStatus = owner?.prontoStatus ?? null;
+
+  if (owner) {
+    const statusChanged =
+      latest !== null && status !== null && status !== previousStatus;
+    await updatePaymentSession(owner.sessionId, {
+      trackingPolledAt: new Date().toISOString(),
+      ...(statusChanged && {
+        prontoStatus: status,
+        metadata: withSessionHistory(owner.metadata, {
+          at: new Date().toISOString(),
+          event: "SHIPMENT_STATUS",
+          previousStatus,
+          status,
+          trackingStatus: latest.STATUS,
+          statusDate: latest.STATUS_DATE,
+          hub: latest.PRONTO_HUB ?? null,
+        }),
+      }),
+    });
+  }
+
+  if (newEvents.length > 0) {
+    console.log("🚚 New tracking events", {
+      trackingNumber,
+      events: newEvents.map((event) => event.status),
+      status,
+    });
+  }
+
+  return {
+    trackingNumber,
+    sessionId: owner?.sessionId ?? null,
+    newEvents,
+    status: status ?? previousStatus,
+    previousStatus,
+  };
+}
+
+/**
+ * Ask Pronto about every undelivered shipment not polled in the last
+ * `TRACKING_MIN_POLL_INTERVAL_MINUTES`, one at a time.
+ */
+export async function pollShipmentTracking(
+  options: { limit?: number } = {}
+): Promise<TrackingPollSummary> {
+  const startedAt = new Date();
+  const minIntervalMinutes = readPositiveNumber(
+    process.env.TRACKING_MIN_POLL_INTERVAL_MINUTES,
+    DEFAULT_MIN_POLL_INTERVAL_MINUTES
+  );
+  const polledBefore = new Date(
+    startedAt.getTime() - minIntervalMinutes * 60 * 1000
+  ).toISOString();
+
+  const sessions = await listSessionsAwaitingDelivery(
+    FINAL_SHIPMENT_STATUSES,
+    polledBefore,
+    options.limit ?? 50
+  );
+
+  const prontoApi = createProntoApiService();
+  const results: TrackingPollResult[] = [];
+  for (const session of sessions) {
+    const trackingNumber = session.prontoTrackingNumber as string;
+    try {
+      const details = await prontoApi.getTrackingDetails({
+        customerCode:
+          session.prontoCustomerCode ||
+          process.env.PRONTO_CUSTOMER_CODE ||
+          "A001",
+        tno: trackingNumber,
+      });
+      const update = await recordTrackingEvents(
+        trackingNumber,
+        details.tracking_no,
+        session
+      );
+      results.push({
+        sessionId: session.sessionId,
+        trackingNumber,
+        newEvents: update.newEvents.length,
+        status: update.status,
+      });
+    } catch (error) {
+      // Try again on the next run; record the poll so one bad tracking
+      // number does not hold up the rest.
+      console.error(`❌ Tracking poll failed for ${trackingNumber}`, error);
+      await updatePaymentSession(session.sessionId, {
+        trackingPolledAt: new Date().toISOString(),
+      });
+      results.push({
+        sessionId: session.sessionId,
+        trackingNumber,
+        newEvents: 0,
+        status: session.prontoStatus ?? null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    checked: sessions.length,
+    results,
+  };
+}
+
+declare global {
+  var __SHIPMENT_TRACKING_POLLER__: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Poll tracking on an interval (used in development via instrumentation).
+ * Safe to call more than once; hot reloads reuse the existing timer.
+ */
+export function startShipmentTrackingPoller(): void {
+  if (globalThis.__SHIPMENT_TRACKING_POLLER__) {
+    return;
+  }
+
+  const intervalMinutes = readPositiveNumber(
+    process.env.TRACKING_POLL_INTERVAL_MINUTES,
+    DEFAULT_POLL_INTERVAL_MINUTES
+  );
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await pollShipmentTracking();
+    } catch (error) {
+      console.error("❌ Tracking poll failed", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+  timer.unref?.();
+
+  globalThis.__SHIPMENT_TRACKING_POLLER__ = timer;
+  console.log(
+    `🚚 Shipment tracking poller started (every ${intervalMinutes} min)`
+  );
+}
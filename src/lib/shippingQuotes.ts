@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import {
+  resolveDeliveryArea,
+  searchDeliveryAreas,
+} from "@/lib/areaOverrides";
+import { AmbiguousLocationError } from "@/lib/gazetteer";
+import { getAreaCodeForLocation } from "@/lib/prontoApiService";
+import { getShippingQuote } from "@/lib/prontoRateCards";
+import {
+  createShippingQuote,
+  findShippingQuote,
+  type ShippingQuoteRecord,
+} from "@/lib/repositories/shippingQuotes";
+
+/**
+ * Delivery fee quotes. `/api/shipping/estimate` issues a quote with an
+ * expiry and `create-session` charges exactly that amount, so the fee the
+ * customer saw is the fee they pay.
+ */
+
+export type ShippingQuoteErrorCode =
+  | "QUOTE_NOT_FOUND"
+  | "QUOTE_EXPIRED"
+  | "QUOTE_MISMATCH";
+
+/**
+ * Raised when a quote cannot be used for the session being created.
+ */
+export class ShippingQuoteError extends Error {
+  readonly code: ShippingQuoteErrorCode;
+  readonly quoteId: string;
+
+  constructor(code: ShippingQuoteErrorCode, quoteId: string, message: string) {
+    super(message);
+    this.name = "ShippingQuoteError";
+    this.code = code;
+    this.quoteId = quoteId;
+  }
+}
+
+export interface ShipmentQuoteRequest {
+  customerCode?: string;
+  location: string;
+  weight: number;
+}
+
+const DEFAULT_QUOTE_TTL_MINUTES = 30;
+
+export function getQuoteTtlMinutes(): number {
+  const parsed = Number(process.env.SHIPPING_QUOTE_TTL_MINUTES);
+  return Number.isFinite(parsed) && parsed > 0
+    ? parsed
+    : DEFAULT_QUOTE_TTL_MINUTES;
+}
+
+function resolveCustomerCode(customerCode?: string) {
+  return customerCode || process.env.PRONTO_CUSTOMER_CODE || "A001";
+}
+
+/**
+ * Price a shipment and store the quote so it can be redeemed until it
+ * expires. The gazetteer match is kept with the quote; a low-confidence
+ * match is still priced but flagged for the customer to confirm, unless
+ * `requireConfidentMatch` is set because nobody will see the flag (e.g. a
+ * session created without a quote), in which case AmbiguousLocationError
+ * lists the candidates instead.
+ */
+export async function issueShippingQuote(
+  request: ShipmentQuoteRequest,
+  options: { requireConfidentMatch?: boolean } = {}
+): Promise<ShippingQuoteRecord> {
+  const customerCode = resolveCustomerCode(request.customerCode);
+  const locationMatch = await resolveDeliveryArea(request.location);
+  if (options.requireConfidentMatch && locationMatch.lowConfidence) {
+    throw new AmbiguousLocationError(
+      request.location,
+      await searchDeliveryAreas(request.location, 5)
+    );
+  }
+  const areaCode = locationMatch.areaCode;
+  const quote = await getShippingQuote({
+    customerCode,
+    areaCode,
+    weight: request.weight,
+  });
+
+  const createdAt = new Date();
+  return createShippingQuote({
+    quoteId: crypto.randomUUID(),
+    customerCode,
+    location: request.location,
+    areaCode,
+    weight: request.weight,
+    amount: quote.amount,
+    currency: "LKR",
+    source: quote.source,
+    rateCardFetchedAt: quote.rateCardFetchedAt,
+    locationMatch,
+    createdAt: createdAt.toISOString(),
+    expiresAt: new Date(
+      createdAt.getTime() + getQuoteTtlMinutes() * 60 * 1000
+    ).toISOString(),
+  });
+}
+
+/**
+ * Load a quote for a new payment session. The quote must not be expired
+ * and must have been issued for the same customer code, area and weight.
+ */
+export async function redeemShippingQuote(
+  quoteId: string,
+  request: ShipmentQuoteRequest
+): Promise<ShippingQuoteRecord> {
+  const quote = await findShippingQuote(quoteId);
+  if (!quote) {
+    throw new ShippingQuoteError(
+      "QUOTE_NOT_FOUND",
+      quoteId,
+      `Shipping quote ${quoteId} does not exist`
+    );
+  }
+
+  if (new Date(quote.expiresAt).getTime() <= Date.now()) {
+    throw new ShippingQuoteError(
+      "QUOTE_EXPIRED",
+      quoteId,
+      `Shipping quote ${quoteId} expired at ${quote.expiresAt}; request a new estimate`
+    );
+  }
+
+  const mismatches = [
+    quote.customerCode !== resolveCustomerCode(request.customerCode) &&
+      "customer code",
+    quote.areaCode !== (await getAreaCodeForLocation(request.location)) &&
+      "delivery area",
+    Math.abs(quote.weight - request.weight) > 1e-6 && "weight",
+  ].filter(Boolean);
+  if (mismatches.length > 0) {
+    throw new ShippingQuoteError(
+      "QUOTE_MISMATCH",
+      quoteId,
+      `Shipping quote ${quoteId} was issued for a different ${mismatches.join(
+        ", "
+      )}; request a new estimate`
+    );
+  }
+
+  return quote;
+}
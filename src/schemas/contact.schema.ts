@@ -0,0 +1,35 @@
+import { z } from "zod";
+import {
+  normalizeAddress,
+  normalizeSriLankanPhone,
+} from "@/lib/contactValidation";
+
+/**
+ * Sri Lankan phone number, output in the local 10-digit form (0771234567)
+ */
+export const PhoneNumberSchema = z
+  .string()
+  .min(1, "Phone is required")
+  .transform((value, ctx) => {
+    const result = normalizeSriLankanPhone(value);
+    if (!result.valid) {
+      ctx.addIssue({ code: "custom", message: result.reason });
+      return z.NEVER;
+    }
+    return result.phone.national;
+  });
+
+/**
+ * Delivery or pickup address, output with whitespace and separators tidied
+ */
+export const AddressSchema = z
+  .string()
+  .min(1, "Address is required")
+  .transform((value, ctx) => {
+    const result = normalizeAddress(value);
+    if (!result.valid) {
+      ctx.addIssue({ code: "custom", message: result.reason });
+      return z.NEVER;
+    }
+    return result.address;
+  });
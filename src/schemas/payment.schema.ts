@@ -1,13 +1,14 @@
 import { z } from "zod";
+import { AddressSchema, PhoneNumberSchema } from "@/schemas/contact.schema";
 
 export const ShipmentPartySchema = z.object({
   name: z.string().min(1, "Name is required"),
-  phone: z.string().min(3, "Phone is required"),
-  address: z.string().min(3, "Address is required"),
+  phone: PhoneNumberSchema,
+  address: AddressSchema,
 });
 
 export const ShipmentDetailsSchema = z.object({
-  location: z.string().min(1, "Delivery location is required"),
+  location: z.string().min(1, "Delivery location is required").max(200),
   weight: z.number().min(0.1, "Weight must be at least 0.1kg").max(100),
   isCod: z.boolean().default(true),
   sameDayDelivery: z.boolean().default(false),
@@ -16,6 +17,12 @@ export const ShipmentDetailsSchema = z.object({
   customerCode: z.string().optional(),
 });
 
+/**
+ * Schema for the MPGS checkout operation: PURCHASE charges immediately,
+ * AUTHORIZE only holds the funds until the shipment is created.
+ */
+export const PaymentModeSchema = z.enum(["PURCHASE", "AUTHORIZE"]);
+
 /**
  * Schema for creating a payment session
  */
@@ -27,11 +34,24 @@ export const CreatePaymentSessionSchema = z.object({
     .min(1, "Description is required")
     .max(127, "Description is too long."),
   orderId: z.string().optional(),
+  paymentMode: PaymentModeSchema.optional(),
+  quoteId: z.string().min(1).optional(), // From /api/shipping/estimate
   sender: ShipmentPartySchema,
   receiver: ShipmentPartySchema,
   shipment: ShipmentDetailsSchema,
 });
 
+/**
+ * Schema for refunding a payment session (omit amount for a full refund)
+ */
+export const RefundPaymentSchema = z.object({
+  amount: z.number().positive("Refund amount must be a positive number").optional(),
+  reason: z
+    .string()
+    .min(1, "Refund reason is required")
+    .max(255, "Refund reason is too long."),
+});
+
 /**
  * Schema for payment session response
  */
@@ -44,9 +64,11 @@ export const PaymentSessionResponseSchema = z.object({
     amount: z.number(),
     currency: z.string(),
     deliveryCharge: z.number(),
+    quoteId: z.string(),
     pricing: z.object({
       itemAmount: z.number(),
       deliveryCharge: z.number(),
+      deliveryChargeSource: z.enum(["RATE_CARD", "LIVE"]),
       totalAmount: z.number(),
       currency: z.string(),
     }),
@@ -105,6 +127,8 @@ export const PaymentStatusSchema = z.enum([
   "FAILED",
   "CANCELLED",
   "REFUNDED",
+  "EXPIRED",
+  "REVIEW",
 ]);
 
 /**
@@ -119,18 +143,32 @@ export const PaymentMethodSchema = z.enum([
   "KIFGO_CREDITS",
 ]);
 
+/**
+ * Schema for payment transaction type (VOID covers every MPGS VOID_* type)
+ */
+export const PaymentTransactionTypeSchema = z.enum([
+  "AUTHORIZATION",
+  "CAPTURE",
+  "PAYMENT",
+  "REFUND",
+  "VOID",
+]);
+
 /**
  * Schema for payment transaction
  */
 export const PaymentTransactionSchema = z.object({
   id: z.string(),
   orderId: z.string(),
+  type: PaymentTransactionTypeSchema,
   amount: z.number(),
   currency: z.string(),
   status: PaymentStatusSchema,
   method: PaymentMethodSchema,
   sessionId: z.string().optional(),
   transactionId: z.string().optional(),
+  cardBrand: z.string().optional(),
+  cardLast4: z.string().length(4).optional(),
   gatewayResponse: z.any().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
@@ -151,12 +189,15 @@ export const PaymentSessionDetailsSchema = z.object({
   expiresAt: z.date().optional(),
 });
 
+export type PaymentModeInput = z.infer<typeof PaymentModeSchema>;
 export type CreatePaymentSession = z.infer<typeof CreatePaymentSessionSchema>;
+export type RefundPayment = z.infer<typeof RefundPaymentSchema>;
 export type PaymentSessionResponse = z.infer<typeof PaymentSessionResponseSchema>;
 export type MPGSPayment = z.infer<typeof MPGSPaymentSchema>;
 export type MPGSPaymentResult = z.infer<typeof MPGSPaymentResultSchema>;
 export type PaymentError = z.infer<typeof PaymentErrorSchema>;
 export type PaymentStatus = z.infer<typeof PaymentStatusSchema>;
 export type PaymentMethod = z.infer<typeof PaymentMethodSchema>;
+export type PaymentTransactionType = z.infer<typeof PaymentTransactionTypeSchema>;
 export type PaymentTransaction = z.infer<typeof PaymentTransactionSchema>;
 export type PaymentSessionDetails = z.infer<typeof PaymentSessionDetailsSchema>; 
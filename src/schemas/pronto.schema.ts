@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { AddressSchema, PhoneNumberSchema } from "@/schemas/contact.schema";
 
 /**
  * Schema for Pronto shipping estimation request
@@ -15,11 +16,11 @@ export const ProntoEstimateSchema = z.object({
 export const ProntoCreateShipmentSchema = z.object({
   orderId: z.string().min(1),
   senderName: z.string().min(1),
-  senderPhone: z.string().min(3),
-  senderAddress: z.string().min(3),
+  senderPhone: PhoneNumberSchema,
+  senderAddress: AddressSchema,
   receiverName: z.string().min(1),
-  receiverAddress: z.string().min(1),
-  receiverPhone: z.string().min(1),
+  receiverAddress: AddressSchema,
+  receiverPhone: PhoneNumberSchema,
   itemValue: z.number().min(0), // COD amount
   weight: z.number().min(0.1).max(100),
   location: z.string().min(1),
@@ -38,6 +39,49 @@ export const ProntoTrackingSchema = z.object({
   customerCode: z.string().optional(),
 });
 
+/**
+ * Pronto area codes: 1 CITY, 2 GREATER CITY, 3 OUTSTATION,
+ * 4 HIGH SECURITY, 5 SPECIAL AREA
+ */
+export const ProntoAreaCodeSchema = z.enum(["1", "2", "3", "4", "5"]);
+
+/**
+ * Schema for creating or replacing an area code override
+ */
+export const AreaOverrideSchema = z.object({
+  location: z.string().trim().min(1),
+  areaCode: ProntoAreaCodeSchema,
+  changedBy: z.string().trim().min(1, "changedBy is required"),
+  note: z.string().max(255).optional(),
+});
+
+/**
+ * Schema for updating or deleting an override addressed by location
+ */
+export const AreaOverrideUpdateSchema = AreaOverrideSchema.omit({
+  location: true,
+});
+
+export const AreaOverrideDeleteSchema = AreaOverrideSchema.pick({
+  changedBy: true,
+  note: true,
+});
+
+/**
+ * Schema for previewing overrides against existing sessions. An `areaCode`
+ * of null previews removing that override.
+ */
+export const AreaOverridePreviewSchema = z.object({
+  overrides: z
+    .array(
+      z.object({
+        location: z.string().trim().min(1),
+        areaCode: ProntoAreaCodeSchema.nullable(),
+      })
+    )
+    .default([]),
+});
+
 /**
  * Schema for Pronto cost estimation response
  */
@@ -89,3 +133,85 @@ export const ProntoConfigResponseSchema = z.object({
   connectionStatus: z.string(),
   rateStructure: z.string(),
 });
+
+const ProntoStatusSchema = z.union([z.string(), z.number()]).transform(String);
+
+/**
+ * Envelope shared by every PR_API.aspx response. The spec only documents
+ * status ("1" ok, "0" failed, reason in status_ref) for tno.insert; the
+ * other methods answer with their payload alone, so it is optional here.
+ */
+export const ProntoEnvelopeSchema = z.looseObject({
+  status: ProntoStatusSchema.optional(),
+  status_ref: z.string().nullish(),
+});
+
+/**
+ * calc.method: the customer's rate structure as free text
+ */
+export const ProntoRateStructureResponseSchema = ProntoEnvelopeSchema.extend({
+  emp_calc: z.looseObject({
+    meth: z.string(),
+  }),
+});
+
+/**
+ * pkg.amount: delivery charge for one package
+ */
+export const ProntoAmountResponseSchema = ProntoEnvelopeSchema.extend({
+  live_amount: z.looseObject({
+    amount: z
+      .union([z.string(), z.number()])
+      .transform((value) => String(value).trim())
+      .refine((value) => /^\d+(\.\d+)?$/.test(value), {
+        message: "Expected a numeric amount",
+      }),
+  }),
+});
+
+/**
+ * tno.request: a newly issued tracking number
+ */
+export const ProntoTrackingNumberResponseSchema = ProntoEnvelopeSchema.extend({
+  emp_trackingno: z.looseObject({
+    tno: z.string().trim().min(1),
+  }),
+});
+
+/**
+ * tno.insert: shipment details accepted against a tracking number
+ */
+export const ProntoInsertResponseSchema = ProntoEnvelopeSchema.extend({
+  status: ProntoStatusSchema,
+  insertion_fb: z.string(),
+});
+
+/**
+ * tno.detail: status history of a tracking number, in no promised order
+ */
+export const ProntoTrackingDetailResponseSchema = ProntoEnvelopeSchema.extend({
+  tracking_no: z.array(
+    z.looseObject({
+      PRONTO_HUB: z.string().nullish(),
+      STATUS_DATE: z.string(),
+      STATUS: z.string(),
+    })
+  ),
+});
+
+/**
+ * Response schema for each Pronto request method
+ */
+export const ProntoResponseSchemas = {
+  "calc.method": ProntoRateStructureResponseSchema,
+  "pkg.amount": ProntoAmountResponseSchema,
+  "tno.request": ProntoTrackingNumberResponseSchema,
+  "tno.insert": ProntoInsertResponseSchema,
+  "tno.detail": ProntoTrackingDetailResponseSchema,
+} as const;
+
+export type ProntoMethod = keyof typeof ProntoResponseSchemas;
+
+export type ProntoResponse<M extends ProntoMethod> = z.infer<
+  (typeof ProntoResponseSchemas)[M]
+>;